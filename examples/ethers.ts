@@ -0,0 +1,79 @@
+/**
+ * Auto-generated ethers v6 contract typings
+ * Generated by @abiregistry/sdk
+ *
+ * Connect with a provider to read or a signer to write, by name or like contracts in ./registry:
+ * - connectMyToken(provider).balanceOf(owner)
+ * - ethersContracts.mainnet.MyToken(signer).transfer(to, 1n)
+ * - token.queryFilter(token.filters.Transfer(owner))
+ */
+
+import {
+  Contract,
+  type AddressLike,
+  type BaseContract,
+  type BaseContractMethod,
+  type BigNumberish,
+  type ContractRunner,
+  type ContractTransactionResponse,
+  type DeferredTopicFilter,
+} from 'ethers'
+import { erc20TokenAbi, erc20TokenAddress } from './erc20-token'
+
+/**
+ * A contract method: arguments, result (also from staticCall) and state mutability
+ * Calling it resolves to the result of a view function, or to the sent transaction otherwise
+ */
+export type TypedContractMethod<A extends unknown[], R, S extends 'view' | 'nonpayable' | 'payable'> =
+  BaseContractMethod<A, R, S extends 'view' ? R : ContractTransactionResponse>
+
+// ERC20Token (mainnet, chain 1)
+/**
+ * Structs (Struct to pass, StructOutput as returned) and decoded event arguments of ERC20Token
+ */
+export declare namespace Erc20Token {
+  export type TransferEvent = [from: string, to: string, value: bigint] & { from: string; to: string; value: bigint }
+  export type ApprovalEvent = [owner: string, spender: string, value: bigint] & { owner: string; spender: string; value: bigint }
+}
+
+/**
+ * ERC20Token as an ethers Contract; view functions resolve to their result, others to the sent transaction
+ * Every method also has staticCall, estimateGas, populateTransaction and send
+ */
+export interface Erc20TokenContract extends Omit<BaseContract, 'connect' | 'filters'> {
+  connect(runner: ContractRunner | null): Erc20TokenContract
+
+  name: TypedContractMethod<[], string, 'view'>
+  symbol: TypedContractMethod<[], string, 'view'>
+  decimals: TypedContractMethod<[], bigint, 'view'>
+  totalSupply: TypedContractMethod<[], bigint, 'view'>
+  balanceOf: TypedContractMethod<[account: AddressLike], bigint, 'view'>
+  transfer: TypedContractMethod<[to: AddressLike, amount: BigNumberish], boolean, 'nonpayable'>
+  allowance: TypedContractMethod<[owner: AddressLike, spender: AddressLike], bigint, 'view'>
+  approve: TypedContractMethod<[spender: AddressLike, amount: BigNumberish], boolean, 'nonpayable'>
+  transferFrom: TypedContractMethod<[from: AddressLike, to: AddressLike, amount: BigNumberish], boolean, 'nonpayable'>
+
+  filters: {
+    Transfer(from?: AddressLike | null, to?: AddressLike | null): DeferredTopicFilter
+    Approval(owner?: AddressLike | null, spender?: AddressLike | null): DeferredTopicFilter
+  }
+}
+
+/**
+ * Typed ethers Contract for ERC20Token; pass a provider to read or a signer to send transactions
+ */
+export function connectErc20Token(runner?: ContractRunner | null, address: string = erc20TokenAddress): Erc20TokenContract {
+  return new Contract(address, erc20TokenAbi, runner) as unknown as Erc20TokenContract
+}
+
+// Connect helpers by network name and chain ID
+const networkConnectors = {
+  mainnet: {
+    ERC20Token: connectErc20Token
+  }
+} as const
+
+export const ethersContracts = {
+  ...networkConnectors,
+  1: networkConnectors.mainnet
+} as const
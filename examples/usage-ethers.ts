@@ -1,20 +1,17 @@
 /**
  * Example: Using generated ABIs with Ethers.js
+ * ./ethers is generated by `npx abiregistry pull --target ethers`
  */
 
 import { ethers } from 'ethers'
-import { erc20TokenAbi, erc20TokenAddress } from './erc20-token'
+import { connectErc20Token } from './ethers'
 
 async function main() {
   // Connect to Ethereum mainnet
   const provider = new ethers.JsonRpcProvider('https://eth.llamarpc.com')
 
-  // Create contract instance
-  const contract = new ethers.Contract(
-    erc20TokenAddress,
-    erc20TokenAbi,
-    provider
-  )
+  // Typed contract instance at the registry address
+  const contract = connectErc20Token(provider)
 
   // Read token name
   const name = await contract.name()
@@ -35,7 +32,14 @@ async function main() {
   // Read total supply
   const totalSupply = await contract.totalSupply()
   console.log('Total supply:', ethers.formatUnits(totalSupply, decimals))
+
+  // Simulate a transfer without sending it
+  const ok = await contract.transfer.staticCall('0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb', 0n)
+  console.log('Transfer would succeed:', ok)
+
+  // Recent transfers from the holder
+  const transfers = await contract.queryFilter(contract.filters.Transfer('0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb'), -1000)
+  console.log('Recent transfers:', transfers.length)
 }
 
 main().catch(console.error)
-
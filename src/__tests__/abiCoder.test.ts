@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest'
+import { decodeParameters, encodeParameters, toChecksumAddress } from '../utils/abiCoder'
+import { AbiCodingError } from '../errors'
+import type { AbiParameter } from '../utils/signature'
+
+const word = (hex: string) => hex.padStart(64, '0')
+
+describe('ABI Coder', () => {
+  // Example from the Solidity ABI specification: f(uint256,uint32[],bytes10,bytes)
+  const specParams: AbiParameter[] = [
+    { name: 'a', type: 'uint256' },
+    { name: 'b', type: 'uint32[]' },
+    { name: 'c', type: 'bytes10' },
+    { name: 'd', type: 'bytes' },
+  ]
+  const specEncoding = '0x' + [
+    word('123'),
+    word('80'),
+    '3132333435363738393000000000000000000000000000000000000000000000',
+    word('e0'),
+    word('2'),
+    word('456'),
+    word('789'),
+    word('d'),
+    '48656c6c6f2c20776f726c642100000000000000000000000000000000000000',
+  ].join('')
+
+  it('should encode the specification example', () => {
+    const encoded = encodeParameters(specParams, [
+      0x123,
+      [0x456, 0x789],
+      '0x31323334353637383930',
+      '0x48656c6c6f2c20776f726c6421',
+    ])
+
+    expect(encoded).toBe(specEncoding)
+  })
+
+  it('should decode the specification example', () => {
+    expect(decodeParameters(specParams, specEncoding)).toEqual([
+      0x123n,
+      [0x456n, 0x789n],
+      '0x31323334353637383930',
+      '0x48656c6c6f2c20776f726c6421',
+    ])
+  })
+
+  it('should round-trip tuples, nested arrays, strings and signed integers', () => {
+    const params: AbiParameter[] = [
+      {
+        name: 'order',
+        type: 'tuple',
+        components: [
+          { name: 'maker', type: 'address' },
+          { name: 'amounts', type: 'uint256[]' },
+          { name: 'memo', type: 'string' },
+        ],
+      },
+      { name: 'deltas', type: 'int8[2]' },
+      { name: 'flag', type: 'bool' },
+    ]
+    const values = [
+      { maker: '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed', amounts: [1n, 2n, 3n], memo: 'gm ☀️' },
+      [-128n, 127n],
+      true,
+    ]
+
+    expect(decodeParameters(params, encodeParameters(params, values))).toEqual(values)
+  })
+
+  it('should decode tuples with unnamed components as arrays', () => {
+    const params: AbiParameter[] = [{ name: '', type: 'tuple', components: [{ type: 'uint8' }, { type: 'bool' }] as AbiParameter[] }]
+
+    expect(decodeParameters(params, encodeParameters(params, [[7, false]]))).toEqual([[7n, false]])
+  })
+
+  it('should checksum addresses', () => {
+    expect(toChecksumAddress('0xfb6916095ca1df60bb79ce92ce3ea74c37c5d359')).toBe('0xfB6916095ca1df60bB79Ce92cE3Ea74c37c5d359')
+  })
+
+  it('should reject values that do not fit their type', () => {
+    expect(() => encodeParameters([{ name: 'x', type: 'uint8' }], [256])).toThrow(AbiCodingError)
+    expect(() => encodeParameters([{ name: 'x', type: 'address' }], ['0x1234'])).toThrow(AbiCodingError)
+    expect(() => encodeParameters([{ name: 'x', type: 'uint256' }], [])).toThrow(AbiCodingError)
+  })
+
+  it('should reject malformed data when decoding', () => {
+    // Truncated: a uint256 needs a full 32-byte word
+    expect(() => decodeParameters([{ name: 'x', type: 'uint256' }], '0x' + '00'.repeat(31))).toThrow(AbiCodingError)
+    // A bool word must be 0 or 1
+    expect(() => decodeParameters([{ name: 'x', type: 'bool' }], '0x' + word('2'))).toThrow(AbiCodingError)
+    // Dirty high bytes in an address
+    expect(() => decodeParameters([{ name: 'x', type: 'address' }], '0x' + 'ff'.repeat(32))).toThrow(AbiCodingError)
+    // Offset pointing past the end of the data
+    expect(() => decodeParameters([{ name: 'x', type: 'string' }], '0x' + word('1000'))).toThrow(AbiCodingError)
+  })
+})
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { AbiCache } from '../cache'
+import { AbiRegistry } from '../client'
+import type { AbiItem } from '../types'
+
+describe('ABI Cache', () => {
+  let cacheDir: string
+
+  const makeAbi = (id: string, abiHash: string): AbiItem => ({
+    id,
+    contractName: 'Vault',
+    contract: 'Vault',
+    network: 'mainnet',
+    address: `0x${id.padStart(40, '0')}`,
+    chainId: 1,
+    abi: [{ type: 'function', name: `fn${id}`, inputs: [], outputs: [], stateMutability: 'view' }],
+    version: 1,
+    deployedAt: '2025-01-01T00:00:00Z',
+    pushedAt: '2025-01-01T00:00:00Z',
+    abiHash,
+    abiHashVersion: 2,
+    isLatest: true,
+  })
+
+  beforeEach(() => {
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'abiregistry-cache-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(cacheDir, { recursive: true, force: true })
+  })
+
+  describe('AbiCache', () => {
+    it('should round-trip items and etag', () => {
+      const cache = new AbiCache(cacheDir)
+      const abis = [makeAbi('1', '0xaaa'), makeAbi('2', '0xbbb')]
+
+      cache.write('key', '"etag-1"', abis)
+      const entry = cache.read('key')
+
+      expect(entry?.etag).toBe('"etag-1"')
+      expect(entry?.abis).toEqual(abis)
+    })
+
+    it('should store identical ABIs once by hash', () => {
+      const cache = new AbiCache(cacheDir)
+
+      cache.write('key', null, [makeAbi('1', '0xaaa'), { ...makeAbi('1', '0xaaa'), id: 'other' }])
+
+      expect(fs.readdirSync(path.join(cacheDir, 'abis'))).toEqual(['0xaaa.json'])
+    })
+
+    it('should not share files between different ABIs with the same legacy hash', () => {
+      const cache = new AbiCache(cacheDir)
+      const legacy = [
+        { ...makeAbi('1', '0xlegacy'), abiHashVersion: undefined },
+        { ...makeAbi('2', '0xlegacy'), abiHashVersion: undefined },
+      ]
+
+      cache.write('key', null, legacy)
+
+      expect(fs.readdirSync(path.join(cacheDir, 'abis'))).toHaveLength(2)
+      expect(cache.read('key')?.abis).toEqual(legacy)
+    })
+
+    it('should miss when an ABI file is missing', () => {
+      const cache = new AbiCache(cacheDir)
+      cache.write('key', null, [makeAbi('1', '0xaaa')])
+      fs.rmSync(path.join(cacheDir, 'abis', '0xaaa.json'))
+
+      expect(cache.read('key')).toBeNull()
+    })
+
+    it('should miss for unknown keys', () => {
+      expect(new AbiCache(cacheDir).read('missing')).toBeNull()
+    })
+  })
+
+  describe('client integration', () => {
+    const abis = [makeAbi('1', '0xaaa')]
+
+    it('should send If-None-Match and reuse the cache on 304', async () => {
+      const customFetch = vi.fn()
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          headers: new Headers({ ETag: '"v1"' }),
+          json: async () => ({ abis }),
+        })
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 304,
+          headers: new Headers({ ETag: '"v1"' }),
+          json: async () => ({}),
+        })
+      const client = new AbiRegistry({ apiKey: 'key', fetch: customFetch, cache: { dir: cacheDir } })
+
+      await client.pull()
+      const second = await client.pull()
+
+      expect(customFetch.mock.calls[1][1].headers['If-None-Match']).toBe('"v1"')
+      expect(second).toEqual(abis)
+    })
+
+    it('should serve offline pulls from the cache', async () => {
+      const customFetch = vi.fn().mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ abis }) })
+      const online = new AbiRegistry({ apiKey: 'key', fetch: customFetch, cache: { dir: cacheDir } })
+      await online.pull()
+
+      const offlineFetch = vi.fn()
+      const offline = new AbiRegistry({ apiKey: 'key', fetch: offlineFetch, cache: { dir: cacheDir } })
+
+      expect(offline.pullFromCache()).toEqual(abis)
+      expect(offlineFetch).not.toHaveBeenCalled()
+    })
+
+    it('should keep caches separate per API key', async () => {
+      const customFetch = vi.fn().mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ abis }) })
+      await new AbiRegistry({ apiKey: 'key-a', fetch: customFetch, cache: { dir: cacheDir } }).pull()
+
+      const other = new AbiRegistry({ apiKey: 'key-b', cache: { dir: cacheDir } })
+
+      expect(() => other.pullFromCache()).toThrow('No cached ABIs found')
+    })
+  })
+})
@@ -1,6 +1,8 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { AbiRegistry } from '../client'
 import type { AbiItem } from '../types'
+import { AuthenticationError, InvalidAbiError, NetworkError, NotFoundError, RateLimitError } from '../errors'
+import { calculateAbiHash } from '../utils/hash'
 
 // Mock fetch globally
 global.fetch = vi.fn()
@@ -29,6 +31,200 @@ describe('AbiRegistry Client', () => {
     })
   })
 
+  describe('transport configuration', () => {
+    it('should send requests to a custom baseUrl', async () => {
+      const customClient = new AbiRegistry({
+        apiKey: mockApiKey,
+        baseUrl: 'https://registry.internal.example/',
+      })
+
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ abis: [] }),
+      })
+
+      await customClient.pull()
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        'https://registry.internal.example/api/abis',
+        expect.anything()
+      )
+    })
+
+    it('should merge custom headers without overriding Authorization', async () => {
+      const customClient = new AbiRegistry({
+        apiKey: mockApiKey,
+        headers: { 'X-Team': 'core', 'Authorization': 'ignored' },
+      })
+
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ abis: [] }),
+      })
+
+      await customClient.pull()
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({
+          headers: {
+            'X-Team': 'core',
+            'Authorization': 'Bearer test-api-key',
+          },
+        })
+      )
+    })
+
+    it('should use an injected fetch instead of the global one', async () => {
+      const customFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({ isDuplicate: true, abiId: 'abi-1' }),
+      })
+      const customClient = new AbiRegistry({ apiKey: mockApiKey, fetch: customFetch })
+
+      const result = await customClient.push({
+        contractName: 'TestContract',
+        address: '0x1234567890123456789012345678901234567890',
+        chainId: 1,
+        abi: [],
+      })
+
+      expect(customFetch).toHaveBeenCalledTimes(1)
+      expect(global.fetch).not.toHaveBeenCalled()
+      expect(result).toEqual({ isDuplicate: true, abiId: 'abi-1' })
+    })
+
+    it('should abort requests that exceed the timeout', async () => {
+      const hangingFetch = vi.fn((_url: string, init?: RequestInit) =>
+        new Promise<Response>((_resolve, reject) => {
+          init?.signal?.addEventListener('abort', () => reject(new Error('aborted')))
+        })
+      )
+      const customClient = new AbiRegistry({ apiKey: mockApiKey, fetch: hangingFetch, timeout: 10, retry: false })
+
+      await expect(customClient.pull()).rejects.toThrow('timed out after 10ms')
+    })
+
+    it('should time out when the response body stalls', async () => {
+      const stallingFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: () => new Promise(() => {}),
+      })
+      const customClient = new AbiRegistry({ apiKey: mockApiKey, fetch: stallingFetch, timeout: 10, retry: false })
+
+      await expect(customClient.pull()).rejects.toThrow('timed out after 10ms')
+    })
+  })
+
+  describe('retries', () => {
+    const retry = { retries: 2, minDelay: 1, maxDelay: 5, jitter: false }
+    const pushInput = {
+      contractName: 'TestContract',
+      address: '0x1234567890123456789012345678901234567890',
+      chainId: 1,
+      abi: [],
+    }
+
+    it('should retry 5xx responses and reuse the idempotency key', async () => {
+      const customFetch = vi.fn()
+        .mockResolvedValueOnce({ ok: false, status: 503, statusText: 'Service Unavailable', json: async () => ({}) })
+        .mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ isDuplicate: false, abiId: 'abi-1' }) })
+      const customClient = new AbiRegistry({ apiKey: mockApiKey, fetch: customFetch, retry })
+
+      const result = await customClient.push(pushInput)
+
+      expect(result.abiId).toBe('abi-1')
+      expect(customFetch).toHaveBeenCalledTimes(2)
+      const firstKey = customFetch.mock.calls[0][1].headers['Idempotency-Key']
+      const secondKey = customFetch.mock.calls[1][1].headers['Idempotency-Key']
+      expect(firstKey).toBeTruthy()
+      expect(secondKey).toBe(firstKey)
+    })
+
+    it('should use a caller-provided idempotency key', async () => {
+      const customFetch = vi.fn().mockResolvedValue({ ok: true, json: async () => ({ abiId: 'abi-1' }) })
+      const customClient = new AbiRegistry({ apiKey: mockApiKey, fetch: customFetch, retry })
+
+      await customClient.push({ ...pushInput, idempotencyKey: 'deploy-42' })
+
+      expect(customFetch.mock.calls[0][1].headers['Idempotency-Key']).toBe('deploy-42')
+      expect(JSON.parse(customFetch.mock.calls[0][1].body)).not.toHaveProperty('idempotencyKey')
+    })
+
+    it('should retry network errors', async () => {
+      const customFetch = vi.fn()
+        .mockRejectedValueOnce(new Error('ECONNRESET'))
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ abis: [] }) })
+      const customClient = new AbiRegistry({ apiKey: mockApiKey, fetch: customFetch, retry })
+
+      await expect(customClient.pull()).resolves.toEqual([])
+      expect(customFetch).toHaveBeenCalledTimes(2)
+    })
+
+    it('should wait for Retry-After on 429 responses', async () => {
+      const customFetch = vi.fn()
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 429,
+          statusText: 'Too Many Requests',
+          headers: new Headers({ 'Retry-After': '0.05' }),
+          json: async () => ({}),
+        })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ abis: [] }) })
+      const customClient = new AbiRegistry({ apiKey: mockApiKey, fetch: customFetch, retry: { ...retry, maxDelay: 100 } })
+
+      const start = Date.now()
+      await customClient.pull()
+
+      expect(customFetch).toHaveBeenCalledTimes(2)
+      expect(Date.now() - start).toBeGreaterThanOrEqual(40)
+    })
+
+    it('should fail right away when Retry-After exceeds maxDelay', async () => {
+      const customFetch = vi.fn().mockResolvedValue({
+        ok: false,
+        status: 429,
+        statusText: 'Too Many Requests',
+        headers: new Headers({ 'Retry-After': '86400' }),
+        json: async () => ({}),
+      })
+      const customClient = new AbiRegistry({ apiKey: mockApiKey, fetch: customFetch, retry })
+
+      const error = await customClient.pull().catch((e) => e)
+      expect(error).toBeInstanceOf(RateLimitError)
+      expect(error.message).toContain('retry after 86400s')
+      expect(error.retryAfter).toBe(86_400_000)
+      expect(customFetch).toHaveBeenCalledTimes(1)
+    })
+
+    it('should give up after the configured number of retries', async () => {
+      const customFetch = vi.fn().mockResolvedValue({
+        ok: false,
+        status: 500,
+        statusText: 'Internal Server Error',
+        json: async () => ({ error: 'Database unavailable' }),
+      })
+      const customClient = new AbiRegistry({ apiKey: mockApiKey, fetch: customFetch, retry })
+
+      await expect(customClient.pull()).rejects.toThrow('Database unavailable')
+      expect(customFetch).toHaveBeenCalledTimes(3)
+    })
+
+    it('should not retry client errors', async () => {
+      const customFetch = vi.fn().mockResolvedValue({
+        ok: false,
+        status: 400,
+        statusText: 'Bad Request',
+        json: async () => ({ error: 'Invalid ABI format' }),
+      })
+      const customClient = new AbiRegistry({ apiKey: mockApiKey, fetch: customFetch, retry })
+
+      await expect(customClient.push(pushInput)).rejects.toThrow('Invalid ABI format')
+      expect(customFetch).toHaveBeenCalledTimes(1)
+    })
+  })
+
   describe('push', () => {
     it('should successfully push an ABI', async () => {
       const mockResponse = { project: {} }
@@ -61,6 +257,7 @@ describe('AbiRegistry Client', () => {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
+            'Idempotency-Key': expect.any(String),
             'Authorization': 'Bearer test-api-key',
           },
         })
@@ -83,6 +280,61 @@ describe('AbiRegistry Client', () => {
         })
       ).rejects.toThrow('Invalid ABI format')
     })
+
+    it('should reject an invalid ABI without contacting the server', async () => {
+      await expect(
+        client.push({
+          contractName: 'TestContract',
+          address: '0x1234567890123456789012345678901234567890',
+          chainId: 1,
+          abi: [{ type: 'function', name: 'transfer', inputs: [{ name: 'to', type: 'addres' }] }],
+        })
+      ).rejects.toBeInstanceOf(InvalidAbiError)
+
+      expect(global.fetch).not.toHaveBeenCalled()
+    })
+
+    it('should push human-readable ABIs as JSON', async () => {
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ abiId: 'abi-1' }),
+      })
+
+      await client.push({
+        contractName: 'TestContract',
+        address: '0x1234567890123456789012345678901234567890',
+        chainId: 1,
+        abi: ['function transfer(address to, uint256 amount) returns (bool)'],
+      })
+
+      const body = JSON.parse((global.fetch as ReturnType<typeof vi.fn>).mock.calls[0][1].body)
+      expect(body.abi).toEqual([
+        {
+          type: 'function',
+          name: 'transfer',
+          inputs: [
+            { name: 'to', type: 'address' },
+            { name: 'amount', type: 'uint256' },
+          ],
+          outputs: [{ name: '', type: 'bool' }],
+          stateMutability: 'nonpayable',
+        },
+      ])
+      expect(body.abiHash).toBe(calculateAbiHash(body.abi))
+    })
+
+    it('should reject an unparseable human-readable ABI without contacting the server', async () => {
+      await expect(
+        client.push({
+          contractName: 'TestContract',
+          address: '0x1234567890123456789012345678901234567890',
+          chainId: 1,
+          abi: ['function transfer(address to'],
+        })
+      ).rejects.toThrow('Invalid human-readable ABI for TestContract')
+
+      expect(global.fetch).not.toHaveBeenCalled()
+    })
   })
 
   describe('pull', () => {
@@ -140,6 +392,345 @@ describe('AbiRegistry Client', () => {
     })
   })
 
+  describe('pushMany', () => {
+    const makeInput = (n: number) => ({
+      contractName: `Contract${n}`,
+      address: `0x${String(n).padStart(40, '0')}`,
+      chainId: 1,
+      abi: [],
+    })
+
+    it('should send chunks to the batch endpoint and return per-item results', async () => {
+      const customFetch = vi.fn(async (_url: string, init?: RequestInit) => {
+        const body = JSON.parse(init!.body as string)
+        return {
+          ok: true,
+          status: 200,
+          json: async () => ({
+            results: body.abis.map((abi: { contractName: string }) =>
+              abi.contractName === 'Contract2'
+                ? { error: 'ABI rejected', status: 422 }
+                : { isDuplicate: abi.contractName === 'Contract3', abiId: `id-${abi.contractName}` }
+            ),
+          }),
+        } as unknown as Response
+      })
+      const customClient = new AbiRegistry({ apiKey: mockApiKey, fetch: customFetch, retry: false })
+
+      const inputs = [1, 2, 3, 4, 5].map(makeInput)
+      const results = await customClient.pushMany(inputs, { chunkSize: 2, concurrency: 2 })
+
+      expect(customFetch).toHaveBeenCalledTimes(3)
+      expect(customFetch.mock.calls[0][0]).toBe('https://abiregistry.com/api/abis/batch')
+      expect(results.map((r) => r.status)).toEqual(['new', 'failed', 'duplicate', 'new', 'new'])
+      expect(results[1].error?.message).toBe('ABI rejected')
+      expect(results[0].abiId).toBe('id-Contract1')
+      expect(results[4].input).toBe(inputs[4])
+
+      const firstBody = JSON.parse(customFetch.mock.calls[0][1]!.body as string)
+      expect(firstBody.abis[0].idempotencyKey).toEqual(expect.any(String))
+    })
+
+    it('should mark the whole chunk failed when the batch request fails', async () => {
+      const customFetch = vi.fn().mockResolvedValue({
+        ok: false,
+        status: 500,
+        statusText: 'Internal Server Error',
+        json: async () => ({ error: 'Database unavailable' }),
+      })
+      const customClient = new AbiRegistry({ apiKey: mockApiKey, fetch: customFetch, retry: false })
+
+      const results = await customClient.pushMany([makeInput(1), makeInput(2)])
+
+      expect(results.every((r) => r.status === 'failed')).toBe(true)
+      expect(results[0].error?.message).toBe('Database unavailable')
+    })
+
+    it('should mark the whole chunk failed when the batch response is not JSON', async () => {
+      const customFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        statusText: 'OK',
+        json: async () => JSON.parse('<html>Bad gateway</html>'),
+      })
+      const customClient = new AbiRegistry({ apiKey: mockApiKey, fetch: customFetch, retry: false })
+
+      const results = await customClient.pushMany([makeInput(1), makeInput(2)])
+
+      expect(results.map((r) => r.status)).toEqual(['failed', 'failed'])
+      expect(results[0].error?.message).toContain('Failed to read batch push response')
+    })
+
+    it('should fall back to single pushes when the server has no batch endpoint', async () => {
+      const customFetch = vi.fn(async (url: string) => {
+        if (url.endsWith('/batch')) {
+          return { ok: false, status: 404, statusText: 'Not Found', json: async () => ({}) } as unknown as Response
+        }
+        return { ok: true, status: 200, json: async () => ({ isDuplicate: false, abiId: 'single' }) } as unknown as Response
+      })
+      const customClient = new AbiRegistry({ apiKey: mockApiKey, fetch: customFetch, retry: false })
+
+      const results = await customClient.pushMany([1, 2, 3].map(makeInput), { chunkSize: 1, concurrency: 1 })
+
+      expect(results.map((r) => r.status)).toEqual(['new', 'new', 'new'])
+      // One batch probe, then single pushes only
+      expect(customFetch.mock.calls.filter(([url]) => url.endsWith('/batch'))).toHaveLength(1)
+      expect(customFetch.mock.calls.filter(([url]) => url.endsWith('/api/abis'))).toHaveLength(3)
+    })
+
+    it('should fail invalid ABIs in place without sending them', async () => {
+      const customFetch = vi.fn(async (_url: string, init?: RequestInit) => {
+        const body = JSON.parse(init!.body as string)
+        return {
+          ok: true,
+          status: 200,
+          json: async () => ({ results: body.abis.map((abi: { contractName: string }) => ({ abiId: `id-${abi.contractName}` })) }),
+        } as unknown as Response
+      })
+      const customClient = new AbiRegistry({ apiKey: mockApiKey, fetch: customFetch, retry: false })
+      const invalid = { ...makeInput(2), abi: [{ type: 'event', name: 'Bad', inputs: [{ name: 'x', type: 'uint7' }] }] }
+
+      const results = await customClient.pushMany([makeInput(1), invalid as never, makeInput(3)])
+
+      expect(results.map((r) => r.status)).toEqual(['new', 'failed', 'new'])
+      expect(results[1].error).toBeInstanceOf(InvalidAbiError)
+      expect(results[1].input).toBe(invalid)
+      expect(results[2].abiId).toBe('id-Contract3')
+      const body = JSON.parse(customFetch.mock.calls[0][1]!.body as string)
+      expect(body.abis.map((abi: { contractName: string }) => abi.contractName)).toEqual(['Contract1', 'Contract3'])
+    })
+  })
+
+  describe('typed errors', () => {
+    it('should throw AuthenticationError on 401', async () => {
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+        ok: false,
+        status: 401,
+        statusText: 'Unauthorized',
+        json: async () => ({ error: 'Invalid API key' }),
+      })
+
+      const error = await client.pull().catch((e) => e)
+      expect(error).toBeInstanceOf(AuthenticationError)
+      expect(error.statusCode).toBe(401)
+      expect(error.message).toBe('Invalid API key')
+    })
+
+    it('should include contract details on failed pushes', async () => {
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        statusText: 'Not Found',
+        json: async () => ({ error: 'Project not found' }),
+      })
+
+      const error = await client.push({
+        contractName: 'Vault',
+        address: '0x1234567890123456789012345678901234567890',
+        chainId: 10,
+        abi: [],
+      }).catch((e) => e)
+
+      expect(error).toBeInstanceOf(NotFoundError)
+      expect(error.url).toBe('https://abiregistry.com/api/abis')
+    })
+
+    it('should wrap transport failures in NetworkError', async () => {
+      const customClient = new AbiRegistry({
+        apiKey: mockApiKey,
+        fetch: vi.fn().mockRejectedValue(new Error('ECONNREFUSED')),
+        retry: false,
+      })
+
+      const error = await customClient.pull().catch((e) => e)
+      expect(error).toBeInstanceOf(NetworkError)
+      expect(error.message).toContain('ECONNREFUSED')
+      expect(error.cause).toBeInstanceOf(Error)
+    })
+  })
+
+  describe('query', () => {
+    const makeAbi = (id: string, overrides: Partial<AbiItem> = {}): AbiItem => ({
+      id,
+      contractName: 'Vault',
+      contract: 'Vault',
+      network: 'mainnet',
+      address: '0x1111111111111111111111111111111111111111',
+      chainId: 1,
+      abi: [],
+      version: 1,
+      deployedAt: '2025-01-01T00:00:00Z',
+      pushedAt: '2025-01-01T00:00:00Z',
+      abiHash: '0xabc',
+      isLatest: true,
+      ...overrides,
+    })
+
+    it('should send filters as query parameters', async () => {
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ abis: [makeAbi('abi-1')], nextCursor: 'page-2' }),
+      })
+
+      const result = await client.query({ chainId: 1, contractName: 'Vault', isLatest: true, limit: 50 })
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        'https://abiregistry.com/api/abis?chainId=1&contractName=Vault&isLatest=true&limit=50',
+        expect.objectContaining({ method: 'GET' })
+      )
+      expect(result.abis).toHaveLength(1)
+      expect(result.nextCursor).toBe('page-2')
+    })
+
+    it('should filter locally when the server ignores filters', async () => {
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          abis: [
+            makeAbi('abi-1', { label: 'Initial', isLatest: false }),
+            makeAbi('abi-2', { label: 'Post-Audit', version: 2 }),
+          ],
+        }),
+      })
+
+      const result = await client.query({ label: 'Post-Audit' })
+
+      expect(result.abis.map((abi) => abi.id)).toEqual(['abi-2'])
+      expect(result.nextCursor).toBeNull()
+    })
+
+    it('should follow cursors when pulling', async () => {
+      ;(global.fetch as ReturnType<typeof vi.fn>)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ abis: [makeAbi('abi-1')], nextCursor: 'cursor-1' }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ abis: [makeAbi('abi-2')], nextCursor: null }),
+        })
+
+      const abis = await client.pull({ chainId: 1 })
+
+      expect(abis.map((abi) => abi.id)).toEqual(['abi-1', 'abi-2'])
+      expect(global.fetch).toHaveBeenLastCalledWith(
+        'https://abiregistry.com/api/abis?chainId=1&cursor=cursor-1',
+        expect.anything()
+      )
+    })
+
+    it('should stop when the server repeats a cursor', async () => {
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValue({
+        ok: true,
+        json: async () => ({ abis: [], nextCursor: 'same' }),
+      })
+
+      await client.pull()
+
+      expect(global.fetch).toHaveBeenCalledTimes(2)
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockReset()
+    })
+
+    it('should request a single ABI by id', async () => {
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ abis: [makeAbi('abi-7')] }),
+      })
+
+      const abi = await client.getAbi('abi-7')
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        'https://abiregistry.com/api/abis?id=abi-7',
+        expect.anything()
+      )
+      expect(abi?.id).toBe('abi-7')
+    })
+  })
+
+  describe('version history', () => {
+    const address = '0x1111111111111111111111111111111111111111'
+    const makeVersion = (version: number, overrides: Partial<AbiItem> = {}): AbiItem => ({
+      id: `abi-v${version}`,
+      contractName: 'Vault',
+      contract: 'Vault',
+      network: 'mainnet',
+      address,
+      chainId: 1,
+      abi: [],
+      version,
+      deployedAt: '2025-01-01T00:00:00Z',
+      pushedAt: `2025-01-0${version}T00:00:00Z`,
+      abiHash: `0x${version}`,
+      isLatest: false,
+      ...overrides,
+    })
+
+    it('should list versions oldest first', async () => {
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ abis: [makeVersion(3, { isLatest: true }), makeVersion(1), makeVersion(2)] }),
+      })
+
+      const versions = await client.getVersions(1, address)
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        `https://abiregistry.com/api/abis?chainId=1&address=${address}`,
+        expect.anything()
+      )
+      expect(versions.map((v) => v.version)).toEqual([1, 2, 3])
+    })
+
+    it('should get a version by number', async () => {
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ abis: [makeVersion(1), makeVersion(2)] }),
+      })
+
+      const abi = await client.getVersion(1, address, 2)
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        `https://abiregistry.com/api/abis?chainId=1&address=${address}&version=2`,
+        expect.anything()
+      )
+      expect(abi?.id).toBe('abi-v2')
+    })
+
+    it('should get a version by label', async () => {
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ abis: [makeVersion(1, { label: 'Initial' }), makeVersion(2, { label: 'Post-Audit' })] }),
+      })
+
+      const abi = await client.getVersion(1, address, 'Post-Audit')
+
+      expect(abi?.version).toBe(2)
+    })
+
+    it('should resolve the "latest" label to the current version', async () => {
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ abis: [makeVersion(1), makeVersion(2, { isLatest: true })] }),
+      })
+
+      const abi = await client.getVersion(1, address, 'latest')
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        `https://abiregistry.com/api/abis?chainId=1&address=${address}&isLatest=true`,
+        expect.anything()
+      )
+      expect(abi?.version).toBe(2)
+    })
+
+    it('should return null when no version matches', async () => {
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ abis: [makeVersion(1)] }),
+      })
+
+      expect(await client.getLatest(1, address)).toBeNull()
+    })
+  })
+
   describe('getAbi', () => {
     it('should return specific ABI by ID', async () => {
       const mockAbis: AbiItem[] = [
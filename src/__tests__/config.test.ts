@@ -12,6 +12,7 @@ describe('Config Management', () => {
     vi.clearAllMocks()
     delete process.env.ABI_REGISTRY_API_KEY
     delete process.env.ABIREGISTRY_API_KEY
+    delete process.env.ABI_REGISTRY_URL
 
     vi.mocked(path.join).mockImplementation((...args) => args.join('/'))
     vi.spyOn(process, 'cwd').mockReturnValue('/test/dir')
@@ -83,6 +84,33 @@ describe('Config Management', () => {
       expect(config.outDir).toBe('override-dir')
     })
 
+    it('should load baseUrl from config file when env is not set', () => {
+      vi.mocked(fs.existsSync).mockReturnValue(true)
+      vi.mocked(fs.readFileSync).mockReturnValue(
+        JSON.stringify({
+          baseUrl: 'https://staging.abiregistry.com',
+        })
+      )
+
+      const config = loadConfig()
+
+      expect(config.baseUrl).toBe('https://staging.abiregistry.com')
+    })
+
+    it('should prefer ABI_REGISTRY_URL over config file baseUrl', () => {
+      process.env.ABI_REGISTRY_URL = 'http://localhost:3000'
+      vi.mocked(fs.existsSync).mockReturnValue(true)
+      vi.mocked(fs.readFileSync).mockReturnValue(
+        JSON.stringify({
+          baseUrl: 'https://staging.abiregistry.com',
+        })
+      )
+
+      const config = loadConfig()
+
+      expect(config.baseUrl).toBe('http://localhost:3000')
+    })
+
     it('should handle missing config file gracefully', () => {
       vi.mocked(fs.existsSync).mockReturnValue(false)
 
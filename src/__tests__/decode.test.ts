@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest'
+import {
+  decodeErrorResult,
+  decodeFunctionData,
+  decodeFunctionResult,
+  decodeWithAbis,
+  encodeErrorResult,
+  encodeFunctionData,
+  encodeFunctionResult,
+} from '../decode'
+import { AbiCodingError } from '../errors'
+import type { AbiEntry, AbiItem } from '../types'
+
+const word = (hex: string) => hex.padStart(64, '0')
+
+const erc20Abi: AbiEntry[] = [
+  {
+    type: 'function',
+    name: 'transfer',
+    inputs: [
+      { name: 'to', type: 'address' },
+      { name: 'amount', type: 'uint256' },
+    ],
+    outputs: [{ name: '', type: 'bool' }],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'balanceOf',
+    inputs: [{ name: 'owner', type: 'address' }],
+    outputs: [{ name: 'balance', type: 'uint256' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'error',
+    name: 'InsufficientBalance',
+    inputs: [
+      { name: 'available', type: 'uint256' },
+      { name: 'required', type: 'uint256' },
+    ],
+  },
+]
+
+const recipient = '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed'
+const transferCalldata = '0xa9059cbb' + word('5aaeb6053f3e94c9b9a09f33669435e7ef1beaed') + word('de0b6b3a7640000')
+
+function createAbiItem(contractName: string, abi: AbiEntry[]): AbiItem {
+  return {
+    id: contractName,
+    contractName,
+    chainId: 1,
+    address: '0x1234567890123456789012345678901234567890',
+    network: 'mainnet',
+    abi,
+    version: 1,
+    createdAt: '2024-01-01T00:00:00Z',
+  } as AbiItem
+}
+
+describe('Decode', () => {
+  describe('calldata', () => {
+    it('should encode and decode ERC-20 transfer calldata', () => {
+      expect(encodeFunctionData(erc20Abi, 'transfer', [recipient, 10n ** 18n])).toBe(transferCalldata)
+
+      const decoded = decodeFunctionData(erc20Abi, transferCalldata)
+      expect(decoded.name).toBe('transfer')
+      expect(decoded.signature).toBe('transfer(address,uint256)')
+      expect(decoded.selector).toBe('0xa9059cbb')
+      expect(decoded.args).toEqual([
+        { name: 'to', type: 'address', value: recipient },
+        { name: 'amount', type: 'uint256', value: 10n ** 18n },
+      ])
+    })
+
+    it('should throw for unknown selectors', () => {
+      expect(() => decodeFunctionData(erc20Abi, '0xdeadbeef')).toThrow(AbiCodingError)
+    })
+
+    it('should require a signature for overloads with the same argument count', () => {
+      const abi: AbiEntry[] = [
+        { type: 'function', name: 'mint', inputs: [{ name: 'to', type: 'address' }] },
+        { type: 'function', name: 'mint', inputs: [{ name: 'amount', type: 'uint256' }] },
+      ]
+
+      expect(() => encodeFunctionData(abi, 'mint', [1n])).toThrow(/overloaded/)
+      expect(encodeFunctionData(abi, 'mint(uint256)', [1n])).toBe('0xa0712d68' + word('1'))
+    })
+  })
+
+  describe('return data', () => {
+    it('should encode and decode function results', () => {
+      const data = encodeFunctionResult(erc20Abi, 'balanceOf', [42n])
+
+      expect(data).toBe('0x' + word('2a'))
+      expect(decodeFunctionResult(erc20Abi, 'balanceOf', data)).toEqual([
+        { name: 'balance', type: 'uint256', value: 42n },
+      ])
+    })
+  })
+
+  describe('revert data', () => {
+    it('should decode Error(string)', () => {
+      const data = '0x08c379a0' + word('20') + word('1a') +
+        '4e6f7420656e6f7567682045746865722070726f76696465642e000000000000'
+
+      const decoded = decodeErrorResult([], data)
+      expect(decoded.kind).toBe('error')
+      expect(decoded.reason).toBe('Not enough Ether provided.')
+      expect(encodeErrorResult([], 'Error', ['Not enough Ether provided.'])).toBe(data)
+    })
+
+    it('should decode Panic(uint256) with a description', () => {
+      const decoded = decodeErrorResult([], '0x4e487b71' + word('11'))
+
+      expect(decoded.kind).toBe('panic')
+      expect(decoded.args[0].value).toBe(0x11n)
+      expect(decoded.reason).toBe('arithmetic overflow or underflow')
+    })
+
+    it('should decode custom errors from the ABI', () => {
+      const data = encodeErrorResult(erc20Abi, 'InsufficientBalance', [1n, 2n])
+      const decoded = decodeErrorResult(erc20Abi, data)
+
+      expect(decoded.kind).toBe('custom')
+      expect(decoded.signature).toBe('InsufficientBalance(uint256,uint256)')
+      expect(decoded.args.map((arg) => arg.value)).toEqual([1n, 2n])
+    })
+  })
+
+  describe('decodeWithAbis', () => {
+    it('should report every ABI that decodes the data', () => {
+      const token = createAbiItem('Token', erc20Abi)
+      const vault = createAbiItem('Vault', [erc20Abi[1]])
+
+      const matches = decodeWithAbis([token, vault], transferCalldata)
+
+      expect(matches).toHaveLength(1)
+      expect(matches[0].abi?.contractName).toBe('Token')
+      expect(matches[0].kind).toBe('function')
+    })
+
+    it('should decode custom errors and fall back to built-in errors', () => {
+      const token = createAbiItem('Token', erc20Abi)
+
+      const custom = decodeWithAbis([token], encodeErrorResult(erc20Abi, 'InsufficientBalance', [1n, 2n]))
+      expect(custom).toHaveLength(1)
+      expect(custom[0].kind).toBe('error')
+
+      const panic = decodeWithAbis([token], '0x4e487b71' + word('1'))
+      expect(panic).toHaveLength(1)
+      expect(panic[0].abi).toBeUndefined()
+      expect(panic[0].decoded.name).toBe('Panic')
+    })
+
+    it('should skip ABIs whose types do not fit the data', () => {
+      // Right selector, but the amount word is missing
+      expect(decodeWithAbis([createAbiItem('Token', erc20Abi)], transferCalldata.slice(0, 74))).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest'
+import { diffAbis } from '../diff'
+import type { AbiEntry } from '../types'
+
+describe('ABI Diff', () => {
+  const balanceOf: AbiEntry = {
+    type: 'function',
+    name: 'balanceOf',
+    inputs: [{ name: 'owner', type: 'address' }],
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+  }
+  const deposit: AbiEntry = { type: 'function', name: 'deposit', inputs: [], outputs: [], stateMutability: 'payable' }
+  const transferEvent: AbiEntry = {
+    type: 'event',
+    name: 'Transfer',
+    inputs: [
+      { name: 'from', type: 'address', indexed: true },
+      { name: 'to', type: 'address', indexed: true },
+      { name: 'value', type: 'uint256', indexed: false },
+    ],
+    anonymous: false,
+  }
+  const base = [balanceOf, deposit, transferEvent]
+
+  it('should report no changes for equivalent ABIs', () => {
+    const reordered = [transferEvent, { ...balanceOf, inputs: [{ type: 'address', name: 'owner', internalType: 'address' }] } as AbiEntry, deposit]
+
+    expect(diffAbis(base, reordered)).toEqual({ changes: [], breaking: false })
+  })
+
+  it('should treat additions as non-breaking', () => {
+    const mint: AbiEntry = { type: 'function', name: 'mint', inputs: [{ name: 'to', type: 'address' }], outputs: [], stateMutability: 'nonpayable' }
+    const diff = diffAbis(base, [...base, mint])
+
+    expect(diff.breaking).toBe(false)
+    expect(diff.changes).toEqual([
+      expect.objectContaining({ kind: 'added', entryType: 'function', signature: 'mint(address)', breaking: false }),
+    ])
+  })
+
+  it('should treat removed selectors and events as breaking', () => {
+    const diff = diffAbis(base, [deposit])
+
+    expect(diff.breaking).toBe(true)
+    expect(diff.changes.map((c) => [c.kind, c.signature, c.breaking])).toEqual([
+      ['removed', 'Transfer(address,address,uint256)', true],
+      ['removed', 'balanceOf(address)', true],
+    ])
+    expect(diff.changes[1].reasons).toEqual(['selector removed'])
+  })
+
+  it('should report changed input types as removal plus addition', () => {
+    const widened = { ...balanceOf, inputs: [{ name: 'owner', type: 'bytes32' }] }
+    const kinds = diffAbis([balanceOf], [widened]).changes.map((c) => `${c.kind} ${c.signature}`)
+
+    expect(kinds).toEqual(['removed balanceOf(address)', 'added balanceOf(bytes32)'])
+  })
+
+  it('should flag changed return types', () => {
+    const diff = diffAbis([balanceOf], [{ ...balanceOf, outputs: [{ name: '', type: 'uint128' }] }])
+
+    expect(diff.changes[0]).toMatchObject({
+      kind: 'changed',
+      breaking: true,
+      reasons: ['return types changed from (uint256) to (uint128)'],
+    })
+  })
+
+  it('should classify mutability changes', () => {
+    const readToWrite = diffAbis([balanceOf], [{ ...balanceOf, stateMutability: 'nonpayable' }])
+    const payableToNonpayable = diffAbis([deposit], [{ ...deposit, stateMutability: 'nonpayable' }])
+    const viewToPure = diffAbis([balanceOf], [{ ...balanceOf, stateMutability: 'pure' }])
+    const writeToPayable = diffAbis([{ ...deposit, stateMutability: 'nonpayable' }], [deposit])
+
+    expect(readToWrite.breaking).toBe(true)
+    expect(payableToNonpayable.breaking).toBe(true)
+    expect(viewToPure.breaking).toBe(false)
+    expect(writeToPayable.breaking).toBe(false)
+    expect(viewToPure.changes[0].reasons).toEqual(['stateMutability changed from view to pure'])
+  })
+
+  it('should flag changed indexed event parameters', () => {
+    const reindexed: AbiEntry = {
+      ...transferEvent,
+      inputs: transferEvent.inputs!.map((input) => (input.name === 'value' ? { ...input, indexed: true } : input)),
+    }
+    const diff = diffAbis([transferEvent], [reindexed])
+
+    expect(diff.changes[0]).toMatchObject({ kind: 'changed', breaking: true, reasons: ['indexed changed for value'] })
+  })
+
+  it('should treat parameter renames as non-breaking', () => {
+    const renamed = { ...balanceOf, inputs: [{ name: 'account', type: 'address' }] }
+    const diff = diffAbis([balanceOf], [renamed])
+
+    expect(diff.changes[0]).toMatchObject({ kind: 'changed', breaking: false, reasons: ['parameter names changed'] })
+  })
+
+  it('should compare constructors and errors', () => {
+    const constructor: AbiEntry = { type: 'constructor', inputs: [{ name: 'owner', type: 'address' }], stateMutability: 'nonpayable' }
+    const error: AbiEntry = { type: 'error', name: 'Unauthorized', inputs: [] }
+
+    const diff = diffAbis([constructor, error], [{ ...constructor, inputs: [] }])
+
+    expect(diff.changes.map((c) => [c.kind, c.signature, c.breaking])).toEqual([
+      ['changed', 'constructor()', true],
+      ['removed', 'Unauthorized()', false],
+    ])
+  })
+})
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest'
+import {
+  AbiRegistryError,
+  ApiError,
+  AuthenticationError,
+  BreakingChangeError,
+  ConfigurationError,
+  DuplicateAbiError,
+  InvalidAbiError,
+  InvalidArtifactError,
+  InvalidBroadcastError,
+  LockfileError,
+  NetworkError,
+  NotFoundError,
+  RateLimitError,
+  UnsupportedChainError,
+  createApiError,
+} from '../errors'
+import { EXIT_CODES, getExitCode } from '../cli/exit'
+
+describe('Errors', () => {
+  describe('createApiError', () => {
+    it('should map status codes to error classes', () => {
+      expect(createApiError('unauthorized', { statusCode: 401 })).toBeInstanceOf(AuthenticationError)
+      expect(createApiError('forbidden', { statusCode: 403 })).toBeInstanceOf(AuthenticationError)
+      expect(createApiError('missing', { statusCode: 404 })).toBeInstanceOf(NotFoundError)
+      expect(createApiError('conflict', { statusCode: 409 })).toBeInstanceOf(DuplicateAbiError)
+      expect(createApiError('slow down', { statusCode: 429 })).toBeInstanceOf(RateLimitError)
+      expect(createApiError('boom', { statusCode: 500 })).toBeInstanceOf(ApiError)
+    })
+
+    it('should carry structured fields', () => {
+      const error = createApiError('conflict', {
+        statusCode: 409,
+        url: 'https://abiregistry.com/api/abis',
+        contractName: 'Vault',
+        chainId: 1,
+      }) as DuplicateAbiError
+
+      expect(error.statusCode).toBe(409)
+      expect(error.url).toBe('https://abiregistry.com/api/abis')
+      expect(error.contractName).toBe('Vault')
+      expect(error.chainId).toBe(1)
+      expect(error.code).toBe('DUPLICATE_ABI')
+      expect(error.name).toBe('DuplicateAbiError')
+    })
+
+    it('should keep the retry delay on rate limit errors', () => {
+      const error = createApiError('slow down', { statusCode: 429, retryAfter: 2000 }) as RateLimitError
+      expect(error.retryAfter).toBe(2000)
+    })
+  })
+
+  describe('hierarchy', () => {
+    it('should make every error an AbiRegistryError and an Error', () => {
+      const errors = [
+        new ApiError('api'),
+        new NetworkError('network'),
+        new InvalidArtifactError('artifact', { contractName: 'Token' }),
+        new InvalidAbiError('abi', { contractName: 'Token' }),
+        new InvalidBroadcastError('broadcast'),
+        new UnsupportedChainError('chain', { chainId: 999 }),
+        new ConfigurationError('config'),
+      ]
+
+      for (const error of errors) {
+        expect(error).toBeInstanceOf(AbiRegistryError)
+        expect(error).toBeInstanceOf(Error)
+      }
+    })
+  })
+
+  describe('getExitCode', () => {
+    it('should give each error type a distinct exit code', () => {
+      expect(getExitCode(new ConfigurationError('x'))).toBe(EXIT_CODES.CONFIGURATION_ERROR)
+      expect(getExitCode(new AuthenticationError('x'))).toBe(EXIT_CODES.AUTHENTICATION_FAILED)
+      expect(getExitCode(new NotFoundError('x'))).toBe(EXIT_CODES.NOT_FOUND)
+      expect(getExitCode(new DuplicateAbiError('x'))).toBe(EXIT_CODES.DUPLICATE_ABI)
+      expect(getExitCode(new RateLimitError('x'))).toBe(EXIT_CODES.RATE_LIMITED)
+      expect(getExitCode(new NetworkError('x'))).toBe(EXIT_CODES.NETWORK_ERROR)
+      expect(getExitCode(new InvalidArtifactError('x', { contractName: 'A' }))).toBe(EXIT_CODES.INVALID_ARTIFACT)
+      expect(getExitCode(new InvalidAbiError('x', { contractName: 'A' }))).toBe(EXIT_CODES.INVALID_ABI)
+      expect(getExitCode(new InvalidBroadcastError('x'))).toBe(EXIT_CODES.INVALID_BROADCAST)
+      expect(getExitCode(new UnsupportedChainError('x', { chainId: 1 }))).toBe(EXIT_CODES.UNSUPPORTED_CHAIN)
+      expect(getExitCode(new LockfileError('x'))).toBe(EXIT_CODES.LOCKFILE_MISMATCH)
+      expect(getExitCode(new BreakingChangeError('x'))).toBe(EXIT_CODES.BREAKING_CHANGES)
+      expect(getExitCode(new ApiError('x'))).toBe(EXIT_CODES.API_ERROR)
+
+      const codes = Object.values(EXIT_CODES)
+      expect(new Set(codes).size).toBe(codes.length)
+    })
+
+    it('should fall back to a general error code', () => {
+      expect(getExitCode(new Error('plain'))).toBe(EXIT_CODES.GENERAL_ERROR)
+      expect(getExitCode('string')).toBe(EXIT_CODES.GENERAL_ERROR)
+    })
+  })
+})
@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { fetchAbiFromEtherscan, getChainName } from '../cli/etherscan'
+import { RateLimitError, UnsupportedChainError } from '../errors'
 
 // Mock fetch globally
 global.fetch = vi.fn()
@@ -131,6 +132,29 @@ describe('Etherscan Integration', () => {
       ).rejects.toThrow('Unsupported chain ID: 999')
     })
 
+    it('should throw UnsupportedChainError with the chain ID', async () => {
+      const error = await fetchAbiFromEtherscan(999, '0x1234567890123456789012345678901234567890').catch((e) => e)
+
+      expect(error).toBeInstanceOf(UnsupportedChainError)
+      expect(error.chainId).toBe(999)
+      expect(error.supportedChainIds).toContain(1)
+    })
+
+    it('should throw RateLimitError when Etherscan reports a rate limit', async () => {
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          status: '0',
+          message: 'NOTOK',
+          result: 'Max rate limit reached',
+        }),
+      })
+
+      await expect(
+        fetchAbiFromEtherscan(1, '0x1234567890123456789012345678901234567890')
+      ).rejects.toBeInstanceOf(RateLimitError)
+    })
+
     it('should throw error when Etherscan returns error status', async () => {
       ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
         ok: true,
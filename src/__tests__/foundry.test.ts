@@ -5,6 +5,8 @@ import type { AbiLoaderService } from '../cli/services/AbiLoaderService'
 import type { BroadcastParserService } from '../cli/services/BroadcastParserService'
 import type { BroadcastDiscoveryService } from '../cli/services/BroadcastDiscoveryService'
 import type { AbiRegistry } from '../client'
+import type { AbiEntry, AbiItem, PushAbiInput } from '../types'
+import { AuthenticationError, BreakingChangeError, InvalidAbiError } from '../errors'
 
 describe('Foundry Service', () => {
     // Sample ERC20 ABI for testing
@@ -43,6 +45,17 @@ describe('Foundry Service', () => {
         mockClient = {
             push: vi.fn().mockResolvedValue({ isDuplicate: false, abiId: 'test-abi-id' })
         }
+        // Batch push delegates to the single push mock so tests can assert per-ABI calls
+        mockClient.pushMany = vi.fn(async (inputs: PushAbiInput[]) =>
+            Promise.all(inputs.map(async (input) => {
+                try {
+                    const result = await mockClient.push!(input)
+                    return { input, status: result.isDuplicate ? 'duplicate' as const : 'new' as const, abiId: result.abiId }
+                } catch (error) {
+                    return { input, status: 'failed' as const, error: error as Error }
+                }
+            }))
+        )
 
         // Mock filesystem
         mockFs = {
@@ -469,6 +482,69 @@ describe('Foundry Service', () => {
         })
     })
 
+    describe('Partial Push Failures', () => {
+        const broadcastData = {
+            transactions: [
+                {
+                    transactionType: 'CREATE' as const,
+                    contractName: 'TokenA',
+                    contractAddress: '0xaaaa',
+                    function: null
+                },
+                {
+                    transactionType: 'CREATE' as const,
+                    contractName: 'TokenB',
+                    contractAddress: '0xbbbb',
+                    function: null
+                },
+                {
+                    transactionType: 'CREATE' as const,
+                    contractName: 'TokenC',
+                    contractAddress: '0xcccc',
+                    function: null
+                }
+            ],
+            chain: 1,
+            timestamp: 1700000000000
+        }
+
+        it('should push every ABI and report failures in the summary', async () => {
+            vi.mocked(mockBroadcastParser.parseBroadcastFile!).mockResolvedValue(broadcastData)
+            vi.mocked(mockClient.push!)
+                .mockResolvedValueOnce({ isDuplicate: false, abiId: 'abi-1' })
+                .mockRejectedValueOnce(new Error('Internal Server Error'))
+                .mockResolvedValueOnce({ isDuplicate: true, abiId: 'abi-3' })
+
+            const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+            const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {})
+
+            await expect(
+                foundryService.push({ apiKey: 'test-key', scriptDir: 'Deploy.s.sol', yes: true }, {})
+            ).rejects.toThrow('Failed to push 1 of 3 ABI(s)')
+
+            expect(mockClient.push).toHaveBeenCalledTimes(3)
+            expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('TokenB (chain 1) - Failed: Internal Server Error'))
+            expect(logSpy).toHaveBeenCalledWith(expect.stringContaining('1 new, 1 duplicates skipped, 1 failed'))
+
+            errorSpy.mockRestore()
+            logSpy.mockRestore()
+        })
+
+        it('should rethrow the typed error when all failures share it', async () => {
+            vi.mocked(mockBroadcastParser.parseBroadcastFile!).mockResolvedValue(broadcastData)
+            vi.mocked(mockClient.push!).mockRejectedValue(new AuthenticationError('Invalid API key', { statusCode: 401 }))
+
+            const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+            await expect(
+                foundryService.push({ apiKey: 'test-key', scriptDir: 'Deploy.s.sol', yes: true }, {})
+            ).rejects.toBeInstanceOf(AuthenticationError)
+
+            expect(mockClient.push).toHaveBeenCalledTimes(3)
+            errorSpy.mockRestore()
+        })
+    })
+
     describe('Labels and Metadata', () => {
         it('should include label when provided', async () => {
             const broadcastData = {
@@ -880,6 +956,63 @@ describe('Foundry Service', () => {
             expect(functionNames).toEqual(['owner', 'uniqueFunction'])
         })
 
+        it('should merge custom errors across facets without duplicates', async () => {
+            const broadcastData = {
+                transactions: [
+                    {
+                        transactionType: 'CREATE' as const,
+                        contractName: 'DiamondProxy',
+                        contractAddress: '0xDIAMOND',
+                        function: null
+                    }
+                ],
+                chain: 1,
+                timestamp: 1700000000000
+            }
+
+            const diamondAbi = [
+                { type: 'error', name: 'NotOwner', inputs: [] }
+            ]
+
+            const facetAbi = [
+                { type: 'error', name: 'NotOwner', inputs: [] },    // Shared library error - should be skipped
+                { type: 'error', name: 'FacetPaused', inputs: [{ name: 'facet', type: 'address' }] }
+            ]
+
+            vi.mocked(mockBroadcastParser.parseBroadcastFile!).mockResolvedValue(broadcastData)
+
+            vi.mocked(mockAbiLoader.loadContractAbi!)
+                .mockResolvedValueOnce(diamondAbi)
+                .mockResolvedValueOnce(facetAbi)
+
+            await foundryService.push(
+                {
+                    apiKey: 'test-key',
+                    scriptDir: 'DeployDiamond.s.sol',
+                    yes: true
+                },
+                {
+                    scripts: [
+                        {
+                            name: 'DeployDiamond.s.sol',
+                            contracts: [
+                                {
+                                    name: 'DiamondProxy',
+                                    proxy: {
+                                        implementation: 'Diamond',
+                                        interfaces: ['IFacet']
+                                    }
+                                }
+                            ]
+                        }
+                    ]
+                }
+            )
+
+            const pushCall = vi.mocked(mockClient.push!).mock.calls[0][0]
+            expect(pushCall.abi.map((item: any) => item.name)).toEqual(['NotOwner', 'FacetPaused'])
+        })
+
         it('should work without interfaces field for regular proxies', async () => {
             const broadcastData = {
                 transactions: [
@@ -991,6 +1124,135 @@ describe('Foundry Service', () => {
         })
     })
 
+    describe('Breaking Change Gate', () => {
+        const broadcastData = {
+            transactions: [
+                {
+                    transactionType: 'CREATE' as const,
+                    contractName: 'Token',
+                    contractAddress: '0xaaaa',
+                    function: null
+                }
+            ],
+            chain: 1,
+            timestamp: 1700000000000
+        }
+
+        // The registry still has balanceOf, which the new build removed
+        const latest = {
+            id: 'token-v1',
+            contractName: 'Token',
+            contract: 'Token',
+            network: 'mainnet',
+            address: '0xaaaa',
+            chainId: 1,
+            abi: sampleAbi,
+            version: 1,
+            deployedAt: '2025-01-01T00:00:00Z',
+            pushedAt: '2025-01-01T00:00:00Z',
+            abiHash: '0x1',
+            isLatest: true
+        } as AbiItem
+
+        beforeEach(() => {
+            vi.mocked(mockBroadcastParser.parseBroadcastFile!).mockResolvedValue(broadcastData)
+            vi.mocked(mockAbiLoader.loadContractAbi!).mockResolvedValue([sampleAbi[0]] as AbiEntry[])
+            mockClient.getLatest = vi.fn().mockResolvedValue(latest)
+            mockClient.query = vi.fn().mockResolvedValue({ abis: [], nextCursor: null })
+        })
+
+        it('should not contact the registry without a policy', async () => {
+            await foundryService.push({ apiKey: 'test-key', scriptDir: 'Deploy.s.sol', yes: true }, {})
+
+            expect(mockClient.getLatest).not.toHaveBeenCalled()
+            expect(vi.mocked(mockDisplayTable).mock.calls[0][0]).toEqual(['Contract', 'Address', 'Label', 'ABI Size'])
+        })
+
+        it('should show breaking changes in the confirmation table and push with warn', async () => {
+            const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {})
+
+            await foundryService.push({ apiKey: 'test-key', scriptDir: 'Deploy.s.sol' }, { onBreakingChange: 'warn' })
+
+            const [headers, rows] = vi.mocked(mockDisplayTable).mock.calls[0]
+            expect(headers).toContain('Breaking Changes')
+            expect(rows[0][4]).toContain('1 breaking')
+            expect(logSpy).toHaveBeenCalledWith(expect.stringContaining('removed function balanceOf(address): selector removed'))
+            expect(mockConfirm).toHaveBeenCalled()
+            expect(mockClient.push).toHaveBeenCalledTimes(1)
+
+            logSpy.mockRestore()
+        })
+
+        it('should refuse to push with fail', async () => {
+            await expect(
+                foundryService.push({ apiKey: 'test-key', scriptDir: 'Deploy.s.sol', yes: true }, { onBreakingChange: 'fail' })
+            ).rejects.toBeInstanceOf(BreakingChangeError)
+
+            expect(mockClient.push).not.toHaveBeenCalled()
+        })
+
+        it('should require a label with require-label', async () => {
+            await expect(
+                foundryService.push({ apiKey: 'test-key', scriptDir: 'Deploy.s.sol', yes: true }, { onBreakingChange: 'require-label' })
+            ).rejects.toThrow('require a label')
+            expect(mockClient.push).not.toHaveBeenCalled()
+
+            await foundryService.push(
+                { apiKey: 'test-key', scriptDir: 'Deploy.s.sol', label: 'v2-breaking', yes: true },
+                { onBreakingChange: 'require-label' }
+            )
+            expect(mockClient.push).toHaveBeenCalledTimes(1)
+        })
+
+        it('should compare new addresses with the latest version of the same contract', async () => {
+            mockClient.getLatest = vi.fn().mockResolvedValue(null)
+            mockClient.query = vi.fn().mockResolvedValue({ abis: [{ ...latest, address: '0xold' }], nextCursor: null })
+
+            await expect(
+                foundryService.push({ apiKey: 'test-key', scriptDir: 'Deploy.s.sol', yes: true }, { onBreakingChange: 'fail' })
+            ).rejects.toBeInstanceOf(BreakingChangeError)
+
+            expect(mockClient.query).toHaveBeenCalledWith({ contractName: 'Token', isLatest: true })
+        })
+
+        it('should allow pushes without breaking changes', async () => {
+            vi.mocked(mockAbiLoader.loadContractAbi!).mockResolvedValue(sampleAbi as AbiEntry[])
+
+            await foundryService.push({ apiKey: 'test-key', scriptDir: 'Deploy.s.sol', yes: true }, { onBreakingChange: 'fail' })
+
+            expect(vi.mocked(mockDisplayTable).mock.calls[0][1][0][4]).toBe('none')
+            expect(mockClient.push).toHaveBeenCalledTimes(1)
+        })
+    })
+
+    describe('ABI Validation', () => {
+        it('should refuse to push an invalid ABI before asking for confirmation', async () => {
+            vi.mocked(mockBroadcastParser.parseBroadcastFile!).mockResolvedValue({
+                transactions: [
+                    {
+                        transactionType: 'CREATE' as const,
+                        contractName: 'Token',
+                        contractAddress: '0xaaaa',
+                        function: null
+                    }
+                ],
+                chain: 1,
+                timestamp: 1700000000000
+            })
+            vi.mocked(mockAbiLoader.loadContractAbi!).mockResolvedValue([
+                { type: 'function', name: 'transfer', inputs: [{ name: 'to', type: 'addres' }] }
+            ] as AbiEntry[])
+
+            const error = await foundryService.push({ apiKey: 'test-key', scriptDir: 'Deploy.s.sol' }, {}).catch((e) => e)
+
+            expect(error).toBeInstanceOf(InvalidAbiError)
+            expect(error.diagnostics[0].path).toBe('[0].inputs[0].type')
+            expect(mockDisplayTable).not.toHaveBeenCalled()
+            expect(mockConfirm).not.toHaveBeenCalled()
+            expect(mockClient.push).not.toHaveBeenCalled()
+        })
+    })
+
     describe('Chain Grouping in Table', () => {
         it('should display separate tables for each chain', async () => {
             vi.mocked(mockBroadcastDiscovery.findBroadcastFiles!).mockResolvedValue([
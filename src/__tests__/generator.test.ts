@@ -1,6 +1,9 @@
 import { describe, it, expect } from 'vitest'
+import * as path from 'path'
+import * as ts from 'typescript'
 import { CodeGenerator } from '../generator'
-import type { AbiItem } from '../types'
+import type { AbiItem, GeneratedFile } from '../types'
+import { parseHumanReadableAbi } from '../humanReadable'
 
 describe('CodeGenerator', () => {
   const mockAbi: AbiItem = {
@@ -264,6 +267,575 @@ describe('CodeGenerator', () => {
       expect(abiFile!.content).toContain('abi: erc20TokenAbi')
       expect(abiFile!.content).toContain('chainId: erc20TokenChainId')
     })
+  
+    it('should include a selectors map', () => {
+      const generator = new CodeGenerator(true)
+      const files = generator.generateFiles([mockAbi])
+
+      const abiFile = files.find((f) => f.path.includes('erc20-token'))
+      expect(abiFile!.content).toContain('export const erc20TokenSelectors = {')
+      expect(abiFile!.content).toContain('"balanceOf(address)": "0x70a08231"')
+      expect(abiFile!.content).toContain(
+        '"Transfer(address,address,uint256)": "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef"'
+      )
+    })
+
+    it('should export custom error names and a typed error union', () => {
+      const abiWithErrors: AbiItem = {
+        ...mockAbi,
+        abi: [
+          ...mockAbi.abi,
+          {
+            type: 'error',
+            name: 'InsufficientBalance',
+            inputs: [
+              { name: 'available', type: 'uint256' },
+              { name: 'required', type: 'uint256' },
+            ],
+          },
+          { type: 'error', name: 'Blocked', inputs: [{ name: '', type: 'address[]' }] },
+        ],
+      }
+
+      const tsFile = new CodeGenerator(true).generateFiles([abiWithErrors]).find((f) => f.path === 'erc20-token.ts')
+      expect(tsFile!.content).toContain('export const erc20TokenErrors = ["InsufficientBalance","Blocked"] as const')
+      expect(tsFile!.content).toContain('export type erc20TokenErrorName = typeof erc20TokenErrors[number]')
+      expect(tsFile!.content).toContain(
+        "| { errorName: 'InsufficientBalance'; args: readonly [available: bigint, required: bigint] }"
+      )
+      expect(tsFile!.content).toContain("| { errorName: 'Blocked'; args: readonly [readonly `0x${string}`[]] }")
+      expect(tsFile!.content).toContain('"InsufficientBalance(uint256,uint256)": "0xcf479181"')
+
+      const jsFile = new CodeGenerator(false).generateFiles([abiWithErrors]).find((f) => f.path === 'erc20-token.js')
+      expect(jsFile!.content).toContain('export const erc20TokenErrors = ["InsufficientBalance","Blocked"]')
+      expect(jsFile!.content).not.toContain('erc20TokenErrorName')
+    })
+
+    it('should type the error union as never without custom errors', () => {
+      const abiFile = new CodeGenerator(true).generateFiles([mockAbi]).find((f) => f.path === 'erc20-token.ts')
+
+      expect(abiFile!.content).toContain('export const erc20TokenErrors = [] as const')
+      expect(abiFile!.content).toContain('export type erc20TokenError = never')
+    })
+  })
+
+  describe('standards', () => {
+    it('should list detected standards in each config', () => {
+      const tsFile = new CodeGenerator(true).generateFiles([mockAbi]).find((f) => f.path === 'erc20-token.ts')
+      expect(tsFile!.content).toContain('    standards: [],\n} as const')
+
+      const annotated = { ...mockAbi, standards: ['ERC20', 'ERC2612'] }
+      const jsFile = new CodeGenerator(false).generateFiles([annotated]).find((f) => f.path === 'erc20-token.js')
+      expect(jsFile!.content).toContain('    standards: ["ERC20","ERC2612"],\n}')
+    })
+  })
+
+  describe('interface IDs', () => {
+    it('should export the ERC-165 interface ID of the ABI and of implemented interfaces', () => {
+      const interfaces = {
+        IBalance: [
+          { type: 'function' as const, name: 'balanceOf', inputs: [{ name: 'owner', type: 'address' }], outputs: [], stateMutability: 'view' as const },
+        ],
+      }
+
+      const tsFile = new CodeGenerator(true, { interfaces }).generateFiles([mockAbi]).find((f) => f.path === 'erc20-token.ts')
+      expect(tsFile!.content).toContain("export const erc20TokenInterfaceId = '0x70a08231' as const")
+      expect(tsFile!.content).toContain('export const erc20TokenInterfaceIds = {\n  "IBalance": "0x70a08231"\n} as const')
+
+      const jsFile = new CodeGenerator(false).generateFiles([mockAbi]).find((f) => f.path === 'erc20-token.js')
+      expect(jsFile!.content).toContain("export const erc20TokenInterfaceId = '0x70a08231'\n")
+      expect(jsFile!.content).toContain('export const erc20TokenInterfaceIds = {}\n')
+    })
+  })
+
+  describe('viem target', () => {
+    const vault: AbiItem = {
+      ...mockAbi,
+      contract: 'Vault',
+      abi: [
+        ...mockAbi.abi,
+        {
+          type: 'function',
+          name: 'deposit',
+          stateMutability: 'payable',
+          inputs: [{ name: 'amount', type: 'uint256' }],
+          outputs: [],
+        },
+      ],
+    }
+
+    it('should only generate viem bindings when selected', () => {
+      const files = new CodeGenerator(true).generateFiles([vault])
+
+      expect(files.find((f) => f.path === 'viem.ts')).toBeUndefined()
+      expect(files.find((f) => f.path === 'index.ts')!.content).not.toContain('viem')
+    })
+
+    it('should generate a typed factory and read/simulate/write helpers per contract', () => {
+      const files = new CodeGenerator(true, { target: 'viem' }).generateFiles([vault])
+      const viem = files.find((f) => f.path === 'viem.ts')!.content
+
+      expect(viem).toContain("import { readContract, simulateContract, writeContract } from 'viem/actions'")
+      expect(viem).toContain("import { mainnet } from 'viem/chains'")
+      expect(viem).toContain("import { vaultAbi, vaultAddress } from './vault'")
+      expect(viem).toContain('export const vaultChain = mainnet')
+      expect(viem).toContain("export function getVaultContract<TClient extends GetContractParameters['client']>(")
+      expect(viem).toContain('  return getContract({ abi: vaultAbi, address, client })')
+      expect(viem).toContain("functionName extends ContractFunctionName<typeof vaultAbi, 'pure' | 'view'>")
+      expect(viem).toContain('export function simulateVault<')
+      expect(viem).toContain('export function writeVault<')
+      expect(files.find((f) => f.path === 'index.ts')!.content).toContain("export * from './viem'")
+    })
+
+    it('should key factories and chains like the registry', () => {
+      const polygon: AbiItem = { ...vault, id: 'abi-2', network: 'polygon', chainId: 137, abiHash: 'other' }
+      const devnet: AbiItem = { ...vault, id: 'abi-3', network: 'devnet', chainId: 999, abiHash: 'another' }
+      const viem = new CodeGenerator(true, { target: 'viem' }).generateFiles([vault, polygon, devnet])
+        .find((f) => f.path === 'viem.ts')!.content
+
+      expect(viem).toContain("import { mainnet, polygon } from 'viem/chains'")
+      expect(viem).toContain('const chain999 = defineChain({\n  id: 999,')
+      expect(viem).toContain('  mainnet: {\n    Vault: getVaultMainnetContract\n  }')
+      expect(viem).toContain('  137: networkFactories.polygon')
+      expect(viem).toContain('  999: chain999')
+    })
+
+    it('should skip helpers for functions the ABI does not have', () => {
+      const viem = new CodeGenerator(true, { target: 'viem' }).generateFiles([mockAbi])
+        .find((f) => f.path === 'viem.ts')!.content
+
+      expect(viem).toContain('export function readErc20Token<')
+      expect(viem).not.toContain('writeContract')
+      expect(viem).toContain("import { readContract } from 'viem/actions'")
+    })
+
+    it('should compile against viem with typed read and write', () => {
+      const files = new CodeGenerator(true, { target: 'viem' }).generateFiles([vault])
+      const usage = `import { createPublicClient, createWalletClient, http } from 'viem'
+import { mainnet } from 'viem/chains'
+import { getVaultContract, readVault, simulateVault, writeVault } from './viem'
+
+const owner = '0x0000000000000000000000000000000000000001'
+const publicClient = createPublicClient({ chain: mainnet, transport: http() })
+const walletClient = createWalletClient({ account: owner, chain: mainnet, transport: http() })
+
+export const balance: Promise<bigint> = getVaultContract(publicClient).read.balanceOf([owner])
+export const hash = getVaultContract({ public: publicClient, wallet: walletClient }).write.deposit([1n], { value: 1n })
+export const read: Promise<bigint> = readVault(publicClient, { functionName: 'balanceOf', args: [owner] })
+export const simulated = simulateVault(publicClient, { functionName: 'deposit', args: [1n], account: owner, value: 1n })
+export const written = writeVault(walletClient, { functionName: 'deposit', args: [1n], value: 1n })
+`
+
+      expect(compileGenerated(files, usage)).toEqual([])
+    }, 60_000)
+
+    it('should generate untyped bindings for JavaScript', () => {
+      const viem = new CodeGenerator(false, { target: 'viem' }).generateFiles([vault])
+        .find((f) => f.path === 'viem.js')!.content
+
+      expect(viem).toContain("import { getContract } from 'viem'")
+      expect(viem).toContain('export function getVaultContract(client, address = vaultAddress) {')
+      expect(viem).toContain('export function writeVault(client, parameters) {')
+      expect(viem).not.toContain('as const')
+    })
+
+    it('should reject unknown targets', () => {
+      expect(() => new CodeGenerator(true, { target: 'web3' as never })).toThrow('Unknown target "web3"')
+    })
+  })
+
+  describe('ethers target', () => {
+    const order = {
+      name: 'order',
+      type: 'tuple',
+      internalType: 'struct IExchange.Order',
+      components: [
+        { name: 'maker', type: 'address', internalType: 'address' },
+        { name: 'amounts', type: 'uint256[]', internalType: 'uint256[]' },
+      ],
+    }
+    const exchange: AbiItem = {
+      ...mockAbi,
+      contract: 'Exchange',
+      abi: [
+        ...parseHumanReadableAbi([
+          'function safeTransferFrom(address from, address to, uint256 id)',
+          'function safeTransferFrom(address from, address to, uint256 id, bytes data)',
+          'function quote(uint256 amount) view returns (uint256 out, address pool)',
+          'function owner() view returns (address)',
+          'function deposit() payable',
+          'function transfer(address to, uint256 amount) returns (bool)',
+          'function connect(address peer)',
+          'event Filled(bytes32 indexed id, uint256 amount, address indexed taker)',
+          'event Named(string indexed name)',
+        ]),
+        { type: 'function', name: 'fill', stateMutability: 'nonpayable', inputs: [{ ...order, type: 'tuple[]', internalType: 'struct IExchange.Order[]', name: 'orders' }], outputs: [] },
+        { type: 'function', name: 'getOrder', stateMutability: 'view', inputs: [{ name: 'id', type: 'uint256' }], outputs: [order] },
+      ],
+    }
+
+    const generateEthers = (abis: AbiItem[], typescript = true) => new CodeGenerator(typescript, { target: 'ethers' })
+      .generateFiles(abis)
+      .find((f) => f.path === (typescript ? 'ethers.ts' : 'ethers.js'))!.content
+
+    it('should type methods with loose inputs, decoded outputs and mutability', () => {
+      const ethers = generateEthers([exchange])
+
+      expect(ethers).toContain("import { exchangeAbi, exchangeAddress } from './exchange'")
+      expect(ethers).toContain("export type TypedContractMethod<A extends unknown[], R, S extends 'view' | 'nonpayable' | 'payable'> =\n  BaseContractMethod<A, R, S extends 'view' ? R : ContractTransactionResponse>")
+      expect(ethers).toContain("export interface ExchangeContract extends Omit<BaseContract, 'connect' | 'filters'> {")
+      expect(ethers).toContain('  connect(runner: ContractRunner | null): ExchangeContract')
+      expect(ethers).toContain("  owner: TypedContractMethod<[], string, 'view'>")
+      expect(ethers).toContain("  quote: TypedContractMethod<[amount: BigNumberish], [out: bigint, pool: string] & { out: bigint; pool: string }, 'view'>")
+      expect(ethers).toContain("  deposit: TypedContractMethod<[], void, 'payable'>")
+      expect(ethers).toContain("  transfer: TypedContractMethod<[to: AddressLike, amount: BigNumberish], boolean, 'nonpayable'>")
+    })
+
+    it('should type overloads both by name and by signature', () => {
+      const ethers = generateEthers([exchange])
+
+      expect(ethers).toContain(
+        "  safeTransferFrom: TypedContractMethod<[from: AddressLike, to: AddressLike, id: BigNumberish], void, 'nonpayable'> & " +
+        "TypedContractMethod<[from: AddressLike, to: AddressLike, id: BigNumberish, data: BytesLike], void, 'nonpayable'>"
+      )
+      expect(ethers).toContain("  \"safeTransferFrom(address,address,uint256,bytes)\": TypedContractMethod<[from: AddressLike, to: AddressLike, id: BigNumberish, data: BytesLike], void, 'nonpayable'>")
+      // BaseContract members are only reachable by signature
+      expect(ethers).toContain("  \"connect(address)\": TypedContractMethod<[peer: AddressLike], void, 'nonpayable'>")
+      expect(ethers).not.toContain('  connect: ')
+    })
+
+    it('should generate struct types from tuple components', () => {
+      const ethers = generateEthers([exchange])
+
+      expect(ethers).toContain('export declare namespace Exchange {')
+      expect(ethers).toContain('  export type OrderStruct = { maker: AddressLike; amounts: BigNumberish[] }')
+      expect(ethers).toContain('  export type OrderStructOutput = [maker: string, amounts: bigint[]] & { maker: string; amounts: bigint[] }')
+      expect(ethers).toContain("  fill: TypedContractMethod<[orders: Exchange.OrderStruct[]], void, 'nonpayable'>")
+      expect(ethers).toContain("  getOrder: TypedContractMethod<[id: BigNumberish], Exchange.OrderStructOutput, 'view'>")
+    })
+
+    it('should rename structs that share a name but not their members', () => {
+      const tuple = (internalType: string, components: Array<{ name: string; type: string }>) =>
+        ({ name: 'order', type: 'tuple', internalType, components })
+      const ethers = generateEthers([{
+        ...exchange,
+        abi: [
+          { type: 'function', name: 'a', stateMutability: 'nonpayable', inputs: [tuple('struct A.Order', [{ name: 'maker', type: 'address' }])], outputs: [] },
+          { type: 'function', name: 'b', stateMutability: 'nonpayable', inputs: [tuple('struct B.Order', [{ name: 'id', type: 'uint256' }])], outputs: [] },
+          { type: 'function', name: 'c', stateMutability: 'nonpayable', inputs: [tuple('struct A.Order', [{ name: 'maker', type: 'address' }])], outputs: [] },
+        ],
+      }])
+
+      expect(ethers).toContain('  export type OrderStruct = { maker: AddressLike }')
+      expect(ethers).toContain('  export type Order2Struct = { id: BigNumberish }')
+      expect(ethers).toContain("  b: TypedContractMethod<[order: Exchange.Order2Struct], void, 'nonpayable'>")
+      expect(ethers).toContain("  c: TypedContractMethod<[order: Exchange.OrderStruct], void, 'nonpayable'>")
+    })
+
+    it('should generate event types and filters on indexed parameters', () => {
+      const ethers = generateEthers([exchange])
+
+      expect(ethers).toContain('  export type FilledEvent = [id: string, amount: bigint, taker: string] & { id: string; amount: bigint; taker: string }')
+      expect(ethers).toContain('  export type NamedEvent = [name: Indexed] & { name: Indexed }')
+      expect(ethers).toContain('    Filled(id?: BytesLike | null, amount?: null, taker?: AddressLike | null): DeferredTopicFilter')
+      expect(ethers).toContain('    Named(name?: string | null): DeferredTopicFilter')
+    })
+
+    it('should generate connect helpers keyed like the registry', () => {
+      const polygon: AbiItem = { ...exchange, id: 'abi-2', network: 'polygon', chainId: 137, abiHash: 'other' }
+      const files = new CodeGenerator(true, { target: 'ethers' }).generateFiles([exchange, polygon])
+      const ethers = files.find((f) => f.path === 'ethers.ts')!.content
+
+      expect(ethers).toContain('export function connectExchangeMainnet(runner?: ContractRunner | null, address: string = exchangeMainnetAddress): ExchangeMainnetContract {')
+      expect(ethers).toContain('  return new Contract(address, exchangeMainnetAbi, runner) as unknown as ExchangeMainnetContract')
+      expect(ethers).toContain('  polygon: {\n    Exchange: connectExchangePolygon\n  }')
+      expect(ethers).toContain('  137: networkConnectors.polygon')
+      expect(files.find((f) => f.path === 'index.ts')!.content).toContain("export * from './ethers'")
+    })
+
+    it('should only import the ethers types it uses', () => {
+      const ethers = generateEthers([mockAbi])
+      const eventsOnly = generateEthers([{ ...mockAbi, abi: mockAbi.abi.filter((entry) => entry.type === 'event') }])
+
+      expect(ethers).not.toContain('Indexed')
+      expect(eventsOnly).not.toContain('ContractTransactionResponse')
+      expect(eventsOnly).not.toContain('TypedContractMethod')
+    })
+
+    it('should compile against ethers with typed calls, staticCall, estimateGas and send', () => {
+      const files = new CodeGenerator(true, { target: 'ethers' }).generateFiles([exchange])
+      const usage = `import { JsonRpcProvider, type ContractTransaction, type ContractTransactionResponse } from 'ethers'
+import { connectExchange, type Exchange } from './ethers'
+
+const maker = '0x0000000000000000000000000000000000000001'
+const exchange = connectExchange(new JsonRpcProvider())
+
+export const out: Promise<bigint> = exchange.quote(1n).then((result) => result.out)
+export const order: Promise<Exchange.OrderStructOutput> = exchange.getOrder(1n, { blockTag: 'latest' })
+export const sent: Promise<ContractTransactionResponse> = exchange.deposit({ value: 1n })
+export const ok: Promise<boolean> = exchange.transfer.staticCall(maker, 1n)
+export const gas: Promise<bigint> = exchange.fill.estimateGas([{ maker, amounts: [1n] }])
+export const populated: Promise<ContractTransaction> = exchange['safeTransferFrom(address,address,uint256,bytes)'].populateTransaction(maker, maker, 1n, '0x')
+export const overload: Promise<ContractTransactionResponse> = exchange.safeTransferFrom(maker, maker, 1n)
+export const viaSend: Promise<ContractTransactionResponse> = exchange.transfer.send(maker, 1n)
+export const filter = exchange.filters.Filled(null, null, maker)
+`
+
+      expect(compileGenerated(files, usage)).toEqual([])
+    }, 60_000)
+
+    it('should generate untyped connect helpers for JavaScript', () => {
+      const ethers = generateEthers([exchange], false)
+
+      expect(ethers).toContain("import { Contract } from 'ethers'")
+      expect(ethers).toContain('export function connectExchange(runner, address = exchangeAddress) {')
+      expect(ethers).not.toContain('interface')
+    })
+  })
+
+  describe('wagmi target', () => {
+    const token: AbiItem = {
+      ...mockAbi,
+      contract: 'Token',
+      abi: parseHumanReadableAbi([
+        'function balanceOf(address owner) view returns (uint256)',
+        'function DOMAIN_SEPARATOR() view returns (bytes32)',
+        'function transfer(address to, uint256 amount) returns (bool)',
+        'function safeTransferFrom(address from, address to, uint256 id)',
+        'function safeTransferFrom(address from, address to, uint256 id, bytes data)',
+        'event Transfer(address indexed from, address indexed to, uint256 value)',
+      ]),
+    }
+
+    const generateWagmi = (abis: AbiItem[], typescript = true) => new CodeGenerator(typescript, { target: 'wagmi' })
+      .generateFiles(abis)
+      .find((f) => f.path === (typescript ? 'wagmi.ts' : 'wagmi.js'))!.content
+
+    it('should generate read, write, simulate and watch hooks per function and event', () => {
+      const wagmi = generateWagmi([token])
+
+      expect(wagmi).toContain("import {\n  createUseReadContract,\n  createUseSimulateContract,\n  createUseWatchContractEvent,\n  createUseWriteContract,\n} from 'wagmi/codegen'")
+      expect(wagmi).toContain('export const useReadToken = /*#__PURE__*/ createUseReadContract({ abi: tokenAbi, address: tokenChainAddresses })')
+      expect(wagmi).toContain("export const useReadTokenBalanceOf = /*#__PURE__*/ createUseReadContract({ abi: tokenAbi, address: tokenChainAddresses, functionName: 'balanceOf' })")
+      expect(wagmi).toContain("export const useReadTokenDomainSeparator = /*#__PURE__*/ createUseReadContract({ abi: tokenAbi, address: tokenChainAddresses, functionName: 'DOMAIN_SEPARATOR' })")
+      expect(wagmi).toContain("export const useWriteTokenTransfer = /*#__PURE__*/ createUseWriteContract({ abi: tokenAbi, address: tokenChainAddresses, functionName: 'transfer' })")
+      expect(wagmi).toContain("export const useSimulateTokenTransfer = /*#__PURE__*/ createUseSimulateContract({ abi: tokenAbi, address: tokenChainAddresses, functionName: 'transfer' })")
+      expect(wagmi).toContain("export const useWatchTokenTransfer = /*#__PURE__*/ createUseWatchContractEvent({ abi: tokenAbi, address: tokenChainAddresses, eventName: 'Transfer' })")
+      expect(wagmi.match(/export const useWriteTokenSafeTransferFrom /g)).toHaveLength(1)
+      const index = new CodeGenerator(true, { target: 'wagmi' }).generateFiles([token]).find((f) => f.path === 'index.ts')!
+      expect(index.content).toContain("export * from './wagmi'")
+    })
+
+    it('should key addresses by chain ID and share hooks across networks with the same ABI', () => {
+      const polygon: AbiItem = { ...token, id: 'abi-2', network: 'polygon', chainId: 137, address: '0x0000000000000000000000000000000000000002', abiHash: 'other' }
+      const wagmi = generateWagmi([token, polygon])
+
+      expect(wagmi).toContain("import { tokenMainnetAbi, tokenMainnetAddress } from './token-mainnet'")
+      expect(wagmi).toContain("import { tokenPolygonAddress } from './token-polygon'")
+      expect(wagmi).toContain('export const tokenChainAddresses = {\n  1: tokenMainnetAddress,\n  137: tokenPolygonAddress,\n} as const')
+      expect(wagmi).toContain('export const tokenWagmiConfig = { abi: tokenMainnetAbi, address: tokenChainAddresses } as const')
+      expect(wagmi.match(/export const useReadTokenBalanceOf /g)).toHaveLength(1)
+    })
+
+    it('should generate hooks per network when the ABI differs', () => {
+      const upgraded: AbiItem = {
+        ...token,
+        id: 'abi-2',
+        network: 'polygon',
+        chainId: 137,
+        abiHash: 'other',
+        abi: parseHumanReadableAbi(['function version() view returns (string)']),
+      }
+      const wagmi = generateWagmi([token, upgraded])
+
+      expect(wagmi).toContain('export const tokenMainnetChainAddresses = {\n  1: tokenMainnetAddress,\n} as const')
+      expect(wagmi).toContain('export const useReadTokenMainnetBalanceOf =')
+      expect(wagmi).toContain("export const useReadTokenPolygonVersion = /*#__PURE__*/ createUseReadContract({ abi: tokenPolygonAbi, address: tokenPolygonChainAddresses, functionName: 'version' })")
+      expect(wagmi).not.toContain('useWriteTokenPolygon')
+    })
+
+    it('should only import the factories it uses', () => {
+      const wagmi = generateWagmi([{ ...token, abi: parseHumanReadableAbi(['function version() view returns (string)']) }])
+
+      expect(wagmi).toContain("import { createUseReadContract } from 'wagmi/codegen'")
+    })
+
+    it('should generate the same hooks for JavaScript', () => {
+      const wagmi = generateWagmi([token], false)
+
+      expect(wagmi).toContain("export const useReadTokenBalanceOf = /*#__PURE__*/ createUseReadContract({ abi: tokenAbi, address: tokenChainAddresses, functionName: 'balanceOf' })")
+      expect(wagmi).not.toContain('as const')
+    })
+  })
+
+  describe('solidity target', () => {
+    const vault: AbiItem = {
+      ...mockAbi,
+      contract: 'Vault',
+      version: 3,
+      abi: [
+        ...parseHumanReadableAbi([
+          'constructor(address owner)',
+          'function deposit(uint256 assets, address receiver) returns (uint256 shares)',
+          'function name() view returns (string)',
+          'function setData(bytes data, string memo) payable',
+          'function fill((address maker, uint256 amount)[] orders, bytes32 salt) returns (bool)',
+          'event Deposit(address indexed sender, uint256 assets)',
+          'event Memo(string indexed memo) anonymous',
+          'error Unauthorized(address caller)',
+          'receive() external payable',
+        ]),
+        {
+          type: 'function',
+          name: 'getOrder',
+          stateMutability: 'view',
+          inputs: [{ name: 'address', type: 'uint256' }],
+          outputs: [{
+            name: 'order',
+            type: 'tuple',
+            internalType: 'struct IVault.Order',
+            components: [{ name: 'maker', type: 'address' }, { name: 'amounts', type: 'uint256[]' }],
+          }],
+        },
+      ],
+    }
+
+    const generateSolidity = (abis: AbiItem[], path = 'IVault.sol') => new CodeGenerator(true, { target: 'solidity' })
+      .generateFiles(abis)
+      .find((f) => f.path === path)!.content
+
+    it('should generate an interface with external functions and data locations', () => {
+      const solidity = generateSolidity([vault])
+
+      expect(solidity).toContain('// SPDX-License-Identifier: MIT\npragma solidity ^0.8.4;')
+      expect(solidity).toContain('interface IVault {')
+      expect(solidity).toContain('    function deposit(uint256 assets, address receiver) external returns (uint256 shares);')
+      expect(solidity).toContain('    function name() external view returns (string memory);')
+      expect(solidity).toContain('    function setData(bytes calldata data, string calldata memo) external payable;')
+      expect(solidity).toContain('    receive() external payable;')
+      expect(solidity).not.toContain('constructor')
+    })
+
+    it('should declare structs from tuple components', () => {
+      const solidity = generateSolidity([vault])
+
+      expect(solidity).toContain('    struct Order {\n        address maker;\n        uint256[] amounts;\n    }')
+      expect(solidity).toContain('    struct OrdersStruct {\n        address maker;\n        uint256 amount;\n    }')
+      expect(solidity).toContain('    function fill(OrdersStruct[] calldata orders, bytes32 salt) external returns (bool);')
+      expect(solidity).toContain('    function getOrder(uint256 address_) external view returns (Order memory order);')
+    })
+
+    it('should declare events and custom errors', () => {
+      const solidity = generateSolidity([vault])
+
+      expect(solidity).toContain('    error Unauthorized(address caller);')
+      expect(solidity).toContain('    event Deposit(address indexed sender, uint256 assets);')
+      expect(solidity).toContain('    event Memo(string indexed memo) anonymous;')
+    })
+
+    it('should skip entries it cannot declare with their selector', () => {
+      const solidity = generateSolidity([{
+        ...vault,
+        abi: [
+          ...parseHumanReadableAbi(['function delete(uint256 id)', 'event emit(address to)', 'error error()', 'function ok()']),
+          {
+            type: 'function',
+            name: 'setHook',
+            stateMutability: 'nonpayable',
+            inputs: [{ name: 'hook', type: 'tuple', components: [{ name: 'callback', type: 'function' }] }],
+            outputs: [],
+          },
+        ],
+      }])
+
+      expect(solidity).toContain('    // Skipped function delete: "delete" is reserved in Solidity')
+      expect(solidity).toContain('    // Skipped event emit: "emit" is reserved in Solidity')
+      expect(solidity).toContain('    // Skipped error error: "error" is reserved in Solidity')
+      expect(solidity).toContain("    // Skipped function setHook: the ABI doesn't record the signature of its function-typed parameters")
+      expect(solidity).toContain('    function ok() external;')
+      expect(solidity).not.toContain('struct')
+      expect(solidity).not.toContain('bytes24')
+    })
+
+    it('should suffix the network when a contract is on several', () => {
+      const polygon: AbiItem = { ...vault, id: 'abi-2', network: 'polygon', chainId: 137, abiHash: 'other' }
+      const paths = new CodeGenerator(true, { target: 'solidity' }).generateFiles([vault, polygon]).map((f) => f.path)
+
+      expect(paths).toContain('IVaultMainnet.sol')
+      expect(paths).toContain('IVaultPolygon.sol')
+    })
+
+    it('should keep interface names that already start with I', () => {
+      const solidity = generateSolidity([{ ...mockAbi, contract: 'IERC20' }], 'IERC20.sol')
+
+      expect(solidity).toContain('interface IERC20 {')
+      expect(solidity).toContain('    function balanceOf(address account) external view returns (uint256);')
+    })
+
+    it('should write only interfaces when used as the only plugin', () => {
+      const files = new CodeGenerator(true, { plugins: ['solidity'] }).generateFiles([vault])
+
+      expect(files.map((f) => f.path)).toEqual(['IVault.sol'])
+    })
+
+    it('should not re-export interfaces from the index', () => {
+      const index = new CodeGenerator(true, { target: 'solidity' }).generateFiles([vault]).find((f) => f.path === 'index.ts')!
+
+      expect(index.content).not.toContain('solidity bindings')
+    })
+  })
+
+  describe('human-readable ABI', () => {
+    it('should not export a human-readable ABI by default', () => {
+      const abiFile = new CodeGenerator(true).generateFiles([mockAbi]).find((f) => f.path === 'erc20-token.ts')
+
+      expect(abiFile!.content).not.toContain('HumanReadableAbi')
+    })
+
+    it('should export Solidity-style signatures alongside the JSON ABI when enabled', () => {
+      const signatures = `[
+  "function balanceOf(address account) view returns (uint256)",
+  "event Transfer(address indexed from, address indexed to, uint256 value)"
+]`
+
+      const tsFile = new CodeGenerator(true, { humanReadableAbi: true }).generateFiles([mockAbi]).find((f) => f.path === 'erc20-token.ts')
+      expect(tsFile!.content).toContain(`export const erc20TokenHumanReadableAbi = ${signatures} as const`)
+      expect(tsFile!.content.indexOf('erc20TokenHumanReadableAbi')).toBeGreaterThan(tsFile!.content.indexOf('erc20TokenAbi'))
+
+      const jsFile = new CodeGenerator(false, { humanReadableAbi: true }).generateFiles([mockAbi]).find((f) => f.path === 'erc20-token.js')
+      expect(jsFile!.content).toContain(`export const erc20TokenHumanReadableAbi = ${signatures}\n`)
+    })
   })
 })
 
+/**
+ * Type-check generated .ts files plus a usage module with the repo's TypeScript, resolving packages from node_modules
+ * Returns the diagnostics as messages
+ */
+function compileGenerated(files: GeneratedFile[], usage: string): string[] {
+  const root = path.join(process.cwd(), 'generated')
+  const sources = new Map(files.filter((f) => f.path.endsWith('.ts')).map((f) => [path.join(root, f.path), f.content]))
+  sources.set(path.join(root, 'usage.ts'), usage)
+
+  const options: ts.CompilerOptions = {
+    strict: true,
+    noEmit: true,
+    skipLibCheck: true,
+    target: ts.ScriptTarget.ES2020,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+  }
+  const host = ts.createCompilerHost(options)
+  const { fileExists, directoryExists, readFile, getSourceFile } = host
+  host.fileExists = (fileName) => sources.has(fileName) || fileExists(fileName)
+  host.directoryExists = (directoryName) => directoryName === root || directoryExists!(directoryName)
+  host.readFile = (fileName) => sources.get(fileName) ?? readFile(fileName)
+  host.getSourceFile = (fileName, languageVersion, ...rest) => sources.has(fileName)
+    ? ts.createSourceFile(fileName, sources.get(fileName)!, languageVersion)
+    : getSourceFile(fileName, languageVersion, ...rest)
+
+  const program = ts.createProgram([...sources.keys()], options, host)
+  return ts.getPreEmitDiagnostics(program).map((diagnostic) =>
+    `${diagnostic.file ? `${path.basename(diagnostic.file.fileName)}: ` : ''}${ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')}`
+  )
+}
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest'
+import {
+  ABI_HASH_VERSION,
+  areAbisEqual,
+  calculateAbiHash,
+  calculateLegacyAbiHash,
+  canonicalizeAbi,
+  getAbiHash,
+} from '../utils/hash'
+import type { AbiEntry } from '../types'
+
+describe('ABI Hashing', () => {
+  const transfer: AbiEntry = {
+    type: 'function',
+    name: 'transfer',
+    inputs: [
+      { name: 'to', type: 'address' },
+      { name: 'amount', type: 'uint256' },
+    ],
+    outputs: [{ name: '', type: 'bool' }],
+    stateMutability: 'nonpayable',
+  }
+  const approve: AbiEntry = { ...transfer, name: 'approve' }
+
+  describe('calculateAbiHash', () => {
+    it('should distinguish ABIs with the same number of entries', () => {
+      // The legacy algorithm hashed these identically
+      expect(calculateLegacyAbiHash([transfer])).toBe(calculateLegacyAbiHash([approve]))
+      expect(calculateAbiHash([transfer])).not.toBe(calculateAbiHash([approve]))
+    })
+
+    it('should ignore entry order and key order', () => {
+      const reordered = JSON.parse(
+        '{"stateMutability":"nonpayable","outputs":[{"type":"bool","name":""}],"name":"transfer","inputs":[{"type":"address","name":"to"},{"type":"uint256","name":"amount"}],"type":"function"}'
+      ) as AbiEntry
+
+      expect(calculateAbiHash([transfer, approve])).toBe(calculateAbiHash([approve, reordered]))
+    })
+
+    it('should order overloads deterministically', () => {
+      const single: AbiEntry = { type: 'function', name: 'mint', inputs: [{ name: 'to', type: 'address' }], outputs: [], stateMutability: 'nonpayable' }
+      const double: AbiEntry = { ...single, inputs: [...single.inputs!, { name: 'id', type: 'uint256' }] }
+
+      expect(calculateAbiHash([single, double])).toBe(calculateAbiHash([double, single]))
+      expect(canonicalizeAbi([double, single]).map((entry) => (entry.inputs as unknown[]).length)).toEqual([1, 2])
+    })
+
+    it('should hash nested tuple components', () => {
+      const withTuple = (innerType: string): AbiEntry => ({
+        type: 'function',
+        name: 'execute',
+        inputs: [{ name: 'order', type: 'tuple[]', components: [{ name: 'amount', type: innerType }] }],
+        outputs: [],
+        stateMutability: 'nonpayable',
+      })
+
+      expect(calculateAbiHash([withTuple('uint256')])).not.toBe(calculateAbiHash([withTuple('uint128')]))
+    })
+
+    it('should strip internalType unless asked to keep it', () => {
+      const typed = {
+        ...transfer,
+        inputs: [{ name: 'to', type: 'address', internalType: 'address' }, { name: 'amount', type: 'uint256', internalType: 'uint256' }],
+      } as AbiEntry
+
+      expect(calculateAbiHash([typed])).toBe(calculateAbiHash([transfer]))
+      expect(calculateAbiHash([typed], { keepInternalTypes: true })).not.toBe(calculateAbiHash([transfer]))
+    })
+
+    it('should fill in defaults and legacy mutability flags', () => {
+      const legacy = { type: 'function', name: 'balance', inputs: [], outputs: [], constant: true } as unknown as AbiEntry
+      const modern: AbiEntry = { type: 'function', name: 'balance', stateMutability: 'view' }
+      const event: AbiEntry = { type: 'event', name: 'Ping' }
+
+      expect(calculateAbiHash([legacy])).toBe(calculateAbiHash([modern]))
+      expect(canonicalizeAbi([event])).toEqual([{ type: 'event', name: 'Ping', inputs: [], anonymous: false }])
+    })
+
+    it('should treat duplicate entries as one', () => {
+      expect(areAbisEqual([transfer, transfer], [transfer])).toBe(true)
+    })
+  })
+
+  describe('getAbiHash', () => {
+    it('should trust current-version hashes and recompute legacy ones', () => {
+      expect(getAbiHash({ abi: [transfer], abiHash: '0xserver', abiHashVersion: ABI_HASH_VERSION })).toBe('0xserver')
+      expect(getAbiHash({ abi: [transfer], abiHash: '0xserver' })).toBe(calculateAbiHash([transfer]))
+    })
+  })
+})
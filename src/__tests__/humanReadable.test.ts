@@ -0,0 +1,200 @@
+import { describe, it, expect } from 'vitest'
+import { formatHumanReadableAbi, isHumanReadableAbi, normalizeAbi, parseHumanReadableAbi } from '../humanReadable'
+import { validateAbi } from '../validation'
+import { InvalidAbiError } from '../errors'
+import type { AbiEntry } from '../types'
+
+describe('Human-readable ABIs', () => {
+  const erc20: AbiEntry[] = [
+    {
+      type: 'function',
+      name: 'transfer',
+      inputs: [
+        { name: 'to', type: 'address' },
+        { name: 'amount', type: 'uint256' },
+      ],
+      outputs: [{ name: '', type: 'bool' }],
+      stateMutability: 'nonpayable',
+    },
+    {
+      type: 'function',
+      name: 'balanceOf',
+      inputs: [{ name: 'owner', type: 'address' }],
+      outputs: [{ name: '', type: 'uint256' }],
+      stateMutability: 'view',
+    },
+    {
+      type: 'event',
+      name: 'Transfer',
+      inputs: [
+        { name: 'from', type: 'address', indexed: true },
+        { name: 'to', type: 'address', indexed: true },
+        { name: 'value', type: 'uint256', indexed: false },
+      ],
+      anonymous: false,
+    },
+    { type: 'error', name: 'InsufficientBalance', inputs: [{ name: 'available', type: 'uint256' }, { name: 'required', type: 'uint256' }] },
+    { type: 'constructor', inputs: [{ name: 'owner', type: 'address' }], stateMutability: 'payable' },
+    { type: 'fallback', stateMutability: 'nonpayable' },
+    { type: 'receive', stateMutability: 'payable' },
+  ]
+
+  const erc20Signatures = [
+    'function transfer(address to, uint256 amount) returns (bool)',
+    'function balanceOf(address owner) view returns (uint256)',
+    'event Transfer(address indexed from, address indexed to, uint256 value)',
+    'error InsufficientBalance(uint256 available, uint256 required)',
+    'constructor(address owner) payable',
+    'fallback() external',
+    'receive() external payable',
+  ]
+
+  describe('parseHumanReadableAbi', () => {
+    it('should parse every entry type into JSON ABI entries', () => {
+      expect(parseHumanReadableAbi(erc20Signatures)).toEqual(erc20)
+    })
+
+    it('should ignore visibility, data locations and trailing semicolons', () => {
+      const [entry] = parseHumanReadableAbi([
+        'function setName(string calldata name, bytes memory data) external payable returns (string memory);',
+      ])
+
+      expect(entry).toEqual({
+        type: 'function',
+        name: 'setName',
+        inputs: [
+          { name: 'name', type: 'string' },
+          { name: 'data', type: 'bytes' },
+        ],
+        outputs: [{ name: '', type: 'string' }],
+        stateMutability: 'payable',
+      })
+    })
+
+    it('should normalize uint, int and address payable', () => {
+      const [entry] = parseHumanReadableAbi(['function f(uint a, int b, address payable c, uint[2][] d) pure'])
+
+      expect(entry.inputs!.map((input) => input.type)).toEqual(['uint256', 'int256', 'address', 'uint256[2][]'])
+      expect(entry.stateMutability).toBe('pure')
+    })
+
+    it('should parse inline tuples with and without the tuple keyword', () => {
+      const [entry] = parseHumanReadableAbi([
+        'function fill((address maker, uint256 amount)[] orders, tuple(bool, bytes32) flags)',
+      ])
+
+      expect(entry.inputs).toEqual([
+        {
+          name: 'orders',
+          type: 'tuple[]',
+          components: [
+            { name: 'maker', type: 'address' },
+            { name: 'amount', type: 'uint256' },
+          ],
+        },
+        {
+          name: 'flags',
+          type: 'tuple',
+          components: [
+            { name: '', type: 'bool' },
+            { name: '', type: 'bytes32' },
+          ],
+        },
+      ])
+    })
+
+    it('should resolve struct references declared anywhere in the list', () => {
+      const abi = parseHumanReadableAbi([
+        'function submit(Order[] calldata orders) returns (Receipt memory)',
+        'struct Receipt { Order order; bool filled; }',
+        'struct Order { address maker; uint256 amount; }',
+      ])
+
+      const order = { type: 'tuple', components: [{ name: 'maker', type: 'address' }, { name: 'amount', type: 'uint256' }] }
+      expect(abi).toEqual([
+        {
+          type: 'function',
+          name: 'submit',
+          inputs: [{ name: 'orders', ...order, type: 'tuple[]' }],
+          outputs: [{ name: '', type: 'tuple', components: [{ name: 'order', ...order }, { name: 'filled', type: 'bool' }] }],
+          stateMutability: 'nonpayable',
+        },
+      ])
+    })
+
+    it('should parse anonymous events and legacy constant functions', () => {
+      const abi = parseHumanReadableAbi([
+        'event Log(bytes32 indexed topic, bytes data) anonymous',
+        'function name() constant returns (string)',
+      ])
+
+      expect(abi[0]).toMatchObject({ type: 'event', anonymous: true })
+      expect(abi[0].inputs![0]).toEqual({ name: 'topic', type: 'bytes32', indexed: true })
+      expect(abi[1].stateMutability).toBe('view')
+    })
+
+    it('should produce ABIs that pass validation', () => {
+      expect(validateAbi(parseHumanReadableAbi(erc20Signatures))).toEqual({ valid: true, diagnostics: [] })
+    })
+
+    it('should report every unparseable line with its index', () => {
+      let error: unknown
+      try {
+        parseHumanReadableAbi([
+          'function transfer(address to, uint256 amount) returns (bool)',
+          'function broken(address to',
+          'modifier onlyOwner()',
+          'function f(Unknown value)',
+          'struct Node { Node next; }',
+        ], 'MyToken')
+      } catch (e) {
+        error = e
+      }
+
+      expect(error).toBeInstanceOf(InvalidAbiError)
+      const invalid = error as InvalidAbiError
+      expect(invalid.contractName).toBe('MyToken')
+      expect(invalid.message).toContain('Invalid human-readable ABI for MyToken: 4 unparseable signature(s)')
+      expect(invalid.diagnostics.map((diagnostic) => diagnostic.path)).toEqual(['[1]', '[2]', '[3]', '[4]'])
+      expect(invalid.diagnostics[0].message).toBe('unexpected end of signature')
+      expect(invalid.diagnostics[1].message).toContain('found "modifier"')
+      expect(invalid.diagnostics[2].message).toBe('unknown type "Unknown"')
+      expect(invalid.diagnostics[3].message).toContain('recursive')
+    })
+
+    it('should reject receive functions that are not payable', () => {
+      expect(() => parseHumanReadableAbi(['receive() external'])).toThrow('receive must be payable')
+    })
+  })
+
+  describe('formatHumanReadableAbi', () => {
+    it('should format every entry type as Solidity-style signatures', () => {
+      expect(formatHumanReadableAbi(erc20)).toEqual(erc20Signatures)
+    })
+
+    it('should format tuples inline and round-trip through the parser', () => {
+      const abi = parseHumanReadableAbi([
+        'function submit(Order[] orders) returns (Order)',
+        'event Anon(uint256 indexed id) anonymous',
+        'struct Order { address maker; uint256[2] amounts; }',
+      ])
+      const formatted = formatHumanReadableAbi(abi)
+
+      expect(formatted).toEqual([
+        'function submit((address maker, uint256[2] amounts)[] orders) returns ((address maker, uint256[2] amounts))',
+        'event Anon(uint256 indexed id) anonymous',
+      ])
+      expect(parseHumanReadableAbi(formatted)).toEqual(abi)
+    })
+  })
+
+  describe('normalizeAbi', () => {
+    it('should parse human-readable ABIs and pass JSON ABIs through', () => {
+      expect(normalizeAbi(erc20Signatures)).toEqual(erc20)
+      expect(normalizeAbi(erc20)).toBe(erc20)
+      expect(isHumanReadableAbi(erc20Signatures)).toBe(true)
+      expect(isHumanReadableAbi(erc20)).toBe(false)
+      expect(isHumanReadableAbi([])).toBe(false)
+    })
+  })
+})
@@ -134,11 +134,18 @@ describe('Integration Tests', () => {
 
   describe('Error handling', () => {
     it('should handle network errors gracefully', async () => {
-      ;(global.fetch as ReturnType<typeof vi.fn>).mockRejectedValueOnce(
+      // Network errors are retried, so fail every attempt
+      const fastRetryClient = new AbiRegistry({
+        apiKey: 'test-key',
+        retry: { retries: 2, minDelay: 1, jitter: false },
+      })
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockRejectedValue(
         new Error('Network error')
       )
 
-      await expect(client.pull()).rejects.toThrow('Network error')
+      await expect(fastRetryClient.pull()).rejects.toThrow('Network error')
+      expect(global.fetch).toHaveBeenCalledTimes(3)
+      ;(global.fetch as ReturnType<typeof vi.fn>).mockReset()
     })
 
     it('should handle malformed JSON responses', async () => {
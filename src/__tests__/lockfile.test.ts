@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { createLockfile, readLockfile, resolveLockfile, selectLatest } from '../lockfile'
+import { AbiRegistry } from '../client'
+import { LockfileError } from '../errors'
+import type { AbiItem } from '../types'
+
+describe('Lockfile', () => {
+  const vaultAddress = '0x1111111111111111111111111111111111111111'
+
+  const makeAbi = (version: number, overrides: Partial<AbiItem> = {}): AbiItem => ({
+    id: `vault-v${version}`,
+    contractName: 'Vault',
+    contract: 'Vault',
+    network: 'mainnet',
+    address: vaultAddress,
+    chainId: 1,
+    abi: [{ type: 'function', name: `v${version}`, inputs: [], outputs: [], stateMutability: 'view' }],
+    version,
+    deployedAt: '2025-01-01T00:00:00Z',
+    pushedAt: '2025-01-01T00:00:00Z',
+    abiHash: `0xhash${version}`,
+    abiHashVersion: 2,
+    isLatest: false,
+    ...overrides,
+  })
+
+  describe('selectLatest', () => {
+    it('should keep one version per deployment', () => {
+      const latest = selectLatest([makeAbi(1), makeAbi(3, { isLatest: true }), makeAbi(2)])
+      expect(latest.map((abi) => abi.version)).toEqual([3])
+    })
+
+    it('should fall back to the highest version without isLatest', () => {
+      const latest = selectLatest([makeAbi(1), makeAbi(2)])
+      expect(latest.map((abi) => abi.version)).toEqual([2])
+    })
+  })
+
+  describe('createLockfile', () => {
+    it('should record version and hash sorted by contract', () => {
+      const lock = createLockfile([
+        makeAbi(2, { contractName: 'Zap', contract: 'Zap', label: 'Post-Audit' }),
+        makeAbi(1),
+      ])
+
+      expect(lock.lockfileVersion).toBe(1)
+      expect(lock.entries).toEqual([
+        { contractName: 'Vault', chainId: 1, address: vaultAddress, version: 1, abiHash: '0xhash1' },
+        { contractName: 'Zap', chainId: 1, address: vaultAddress, version: 2, abiHash: '0xhash2', label: 'Post-Audit' },
+      ])
+    })
+  })
+
+  describe('resolveLockfile', () => {
+    it('should resolve locked versions even when newer ones exist', async () => {
+      const lock = createLockfile([makeAbi(1)])
+      const resolution = await resolveLockfile(lock, [makeAbi(1), makeAbi(2, { isLatest: true })])
+
+      expect(resolution.abis.map((abi) => abi.version)).toEqual([1])
+      expect(resolution.unlocked).toEqual([])
+    })
+
+    it('should fetch locked versions missing from the pull', async () => {
+      const lock = createLockfile([makeAbi(1)])
+      const fetchMissing = vi.fn().mockResolvedValue(makeAbi(1))
+
+      const resolution = await resolveLockfile(lock, [makeAbi(2, { isLatest: true })], fetchMissing)
+
+      expect(fetchMissing).toHaveBeenCalledWith(expect.objectContaining({ version: 1 }))
+      expect(resolution.abis[0].version).toBe(1)
+    })
+
+    it('should report changed hashes and missing versions', async () => {
+      const lock = createLockfile([makeAbi(1), makeAbi(5, { address: '0x2222222222222222222222222222222222222222' })])
+      const resolution = await resolveLockfile(lock, [makeAbi(1, { abiHash: '0xtampered' })])
+
+      expect(resolution.changed).toHaveLength(1)
+      expect(resolution.missing).toHaveLength(1)
+      expect(resolution.missing[0].version).toBe(5)
+    })
+
+    it('should list deployments that are not locked yet', async () => {
+      const lock = createLockfile([makeAbi(1)])
+      const other = makeAbi(1, { address: '0x3333333333333333333333333333333333333333', isLatest: true })
+
+      const resolution = await resolveLockfile(lock, [makeAbi(1), other])
+
+      expect(resolution.unlocked).toEqual([other])
+    })
+  })
+
+  describe('pullAndGenerate', () => {
+    let dir: string
+    let lockPath: string
+    let outDir: string
+
+    const createClient = (abis: AbiItem[]) => new AbiRegistry({
+      apiKey: 'key',
+      fetch: vi.fn(async (url: string) => {
+        const version = new URL(url).searchParams.get('version')
+        const matching = version ? abis.filter((abi) => abi.version === Number(version)) : abis
+        return { ok: true, status: 200, json: async () => ({ abis: matching }) } as unknown as Response
+      }),
+    })
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'abiregistry-lock-'))
+      lockPath = path.join(dir, 'abiregistry.lock.json')
+      outDir = path.join(dir, 'out')
+    })
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true })
+    })
+
+    it('should create the lockfile from the latest versions', async () => {
+      await createClient([makeAbi(1), makeAbi(2, { isLatest: true })])
+        .pullAndGenerate({ outDir, lockfile: lockPath })
+
+      const lock = readLockfile(lockPath)
+      expect(lock?.entries.map((e) => e.version)).toEqual([2])
+    })
+
+    it('should regenerate locked versions with frozen', async () => {
+      await createClient([makeAbi(1, { isLatest: true })]).pullAndGenerate({ outDir, lockfile: lockPath })
+
+      const files = await createClient([makeAbi(1), makeAbi(2, { isLatest: true })])
+        .pullAndGenerate({ outDir, lockfile: lockPath, frozen: true })
+
+      const vaultFile = files.find((f) => f.path === 'vault.ts')
+      expect(vaultFile?.content).toContain('Version: v1')
+      expect(readLockfile(lockPath)?.entries.map((e) => e.version)).toEqual([1])
+    })
+
+    it('should refresh the lockfile with update', async () => {
+      await createClient([makeAbi(1, { isLatest: true })]).pullAndGenerate({ outDir, lockfile: lockPath })
+
+      await createClient([makeAbi(1), makeAbi(2, { isLatest: true })])
+        .pullAndGenerate({ outDir, lockfile: lockPath, update: true })
+
+      expect(readLockfile(lockPath)?.entries.map((e) => e.version)).toEqual([2])
+    })
+
+    it('should fail frozen pulls without a lockfile', async () => {
+      await expect(
+        createClient([makeAbi(1)]).pullAndGenerate({ outDir, lockfile: lockPath, frozen: true })
+      ).rejects.toBeInstanceOf(LockfileError)
+    })
+
+    it('should fail when a locked ABI changed on the registry', async () => {
+      await createClient([makeAbi(1, { isLatest: true })]).pullAndGenerate({ outDir, lockfile: lockPath })
+
+      await expect(
+        createClient([makeAbi(1, { isLatest: true, abiHash: '0xdifferent' })])
+          .pullAndGenerate({ outDir, lockfile: lockPath, frozen: true })
+      ).rejects.toThrow('ABI hash changed')
+    })
+  })
+})
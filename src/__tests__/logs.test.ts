@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest'
+import { LogDecoder, decodeEventLog } from '../logs'
+import { encodeParameters } from '../utils/abiCoder'
+import { keccak256Hex } from '../utils/keccak'
+import { AbiCodingError } from '../errors'
+import type { AbiEntry, AbiItem } from '../types'
+
+const word = (hex: string) => '0x' + hex.padStart(64, '0')
+
+const TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef'
+
+const transferEvent: AbiEntry = {
+  type: 'event',
+  name: 'Transfer',
+  inputs: [
+    { name: 'from', type: 'address', indexed: true },
+    { name: 'to', type: 'address', indexed: true },
+    { name: 'value', type: 'uint256', indexed: false },
+  ],
+  anonymous: false,
+}
+
+const transferLog = {
+  address: '0x1111111111111111111111111111111111111111',
+  topics: [
+    TRANSFER_TOPIC,
+    word('5aaeb6053f3e94c9b9a09f33669435e7ef1beaed'),
+    word('fb6916095ca1df60bb79ce92ce3ea74c37c5d359'),
+  ],
+  data: word('de0b6b3a7640000'),
+  blockNumber: '0x10',
+}
+
+function createAbiItem(contractName: string, address: string, chainId: number, abi: AbiEntry[]): AbiItem {
+  return {
+    id: `${contractName}-${chainId}`,
+    contractName,
+    chainId,
+    address,
+    network: 'mainnet',
+    abi,
+    version: 1,
+    createdAt: '2024-01-01T00:00:00Z',
+  } as AbiItem
+}
+
+describe('Log Decoding', () => {
+  describe('decodeEventLog', () => {
+    it('should decode indexed and non-indexed arguments', () => {
+      const decoded = decodeEventLog([transferEvent], transferLog)
+
+      expect(decoded.name).toBe('Transfer')
+      expect(decoded.topic).toBe(TRANSFER_TOPIC)
+      expect(decoded.args).toEqual([
+        { name: 'from', type: 'address', indexed: true, value: '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed' },
+        { name: 'to', type: 'address', indexed: true, value: '0xfB6916095ca1df60bB79Ce92cE3Ea74c37c5d359' },
+        { name: 'value', type: 'uint256', indexed: false, value: 10n ** 18n },
+      ])
+    })
+
+    it('should return the hash for indexed dynamic types', () => {
+      const event: AbiEntry = {
+        type: 'event',
+        name: 'Registered',
+        inputs: [
+          { name: 'name', type: 'string', indexed: true },
+          { name: 'tags', type: 'string[]', indexed: false },
+        ],
+      }
+      const nameHash = keccak256Hex('alice')
+      const log = {
+        topics: [keccak256Hex('Registered(string,string[])'), nameHash],
+        data: encodeParameters([{ name: 'tags', type: 'string[]' }], [['a', 'b']]),
+      }
+
+      const decoded = decodeEventLog([event], log)
+
+      expect(decoded.args[0]).toEqual({ name: 'name', type: 'string', indexed: true, value: nameHash, hashed: true })
+      expect(decoded.args[1].value).toEqual(['a', 'b'])
+    })
+
+    it('should decode anonymous events without topic0', () => {
+      const event: AbiEntry = {
+        type: 'event',
+        name: 'Ping',
+        inputs: [
+          { name: 'id', type: 'uint256', indexed: true },
+          { name: 'ok', type: 'bool', indexed: false },
+        ],
+        anonymous: true,
+      }
+
+      const decoded = decodeEventLog([event], { topics: [word('7')], data: word('1') })
+
+      expect(decoded.anonymous).toBe(true)
+      expect(decoded.args.map((arg) => arg.value)).toEqual([7n, true])
+    })
+
+    it('should throw when no event matches', () => {
+      expect(() => decodeEventLog([transferEvent], { topics: [word('1')], data: '0x' })).toThrow(AbiCodingError)
+      // Right topic but ERC-721 style (value indexed): topic count doesn't fit
+      expect(() => decodeEventLog([transferEvent], { ...transferLog, topics: [...transferLog.topics, word('1')] }))
+        .toThrow(AbiCodingError)
+    })
+  })
+
+  describe('LogDecoder', () => {
+    const token = createAbiItem('Token', '0x1111111111111111111111111111111111111111', 1, [transferEvent])
+    const otherToken = createAbiItem('OtherToken', '0x2222222222222222222222222222222222222222', 1, [transferEvent])
+    const bridgedToken = createAbiItem('Token', '0x1111111111111111111111111111111111111111', 10, [transferEvent])
+
+    it('should prefer the ABI deployed at the log address', () => {
+      const decoder = new LogDecoder([otherToken, token])
+
+      expect(decoder.decode(transferLog)?.abi.contractName).toBe('Token')
+      expect(decoder.decode({ ...transferLog, address: '0x3333333333333333333333333333333333333333' })?.abi.contractName)
+        .toBe('OtherToken')
+    })
+
+    it('should prefer the ABI on the log chain', () => {
+      const decoder = new LogDecoder([token, bridgedToken])
+
+      expect(decoder.decode(transferLog, 10)?.abi.chainId).toBe(10)
+      expect(decoder.decode({ ...transferLog, chainId: 1 }, 10)?.abi.chainId).toBe(1)
+    })
+
+    it('should fall back to another ABI when the preferred one does not fit', () => {
+      const nft = createAbiItem('Nft', transferLog.address, 1, [{
+        type: 'event',
+        name: 'Transfer',
+        inputs: [
+          { name: 'from', type: 'address', indexed: true },
+          { name: 'to', type: 'address', indexed: true },
+          { name: 'tokenId', type: 'uint256', indexed: true },
+        ],
+      }])
+
+      expect(new LogDecoder([nft, otherToken]).decode(transferLog)?.abi.contractName).toBe('OtherToken')
+    })
+
+    it('should return null for logs no ABI decodes', () => {
+      const results = new LogDecoder([token]).decodeAll([transferLog, { topics: [word('1')], data: '0x' }])
+
+      expect(results[0]?.name).toBe('Transfer')
+      expect(results[0]?.log).toBe(transferLog)
+      expect(results[1]).toBeNull()
+    })
+  })
+})
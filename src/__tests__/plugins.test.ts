@@ -0,0 +1,145 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { CodeGenerator } from '../generator'
+import { loadPlugins } from '../cli/plugins'
+import { ConfigurationError } from '../errors'
+import type { AbiItem, GeneratorPlugin } from '../types'
+
+describe('Generator plugins', () => {
+  const token: AbiItem = {
+    id: 'abi-1',
+    contractName: 'MyToken',
+    contract: 'MyToken',
+    network: 'mainnet',
+    address: '0x0000000000000000000000000000000000000001',
+    chainId: 1,
+    abi: [{ type: 'function', name: 'totalSupply', inputs: [], outputs: [{ name: '', type: 'uint256' }], stateMutability: 'view' }],
+    deployedAt: '2025-01-01T00:00:00Z',
+    pushedAt: '2025-01-01T00:00:00Z',
+    abiHash: 'hash-1',
+    isLatest: true,
+  }
+
+  const docsPlugin: GeneratorPlugin = {
+    name: 'docs',
+    generate: (groups) => groups.map(({ item, fileName }) => ({
+      path: `docs/${fileName}.md`,
+      content: `# ${item.contract}\n\n${item.addresses.join(', ')}\n`,
+    })),
+  }
+
+  describe('CodeGenerator', () => {
+    it('should run the default plugin when none are configured', () => {
+      const paths = new CodeGenerator(true).generateFiles([token]).map((f) => f.path)
+
+      expect(paths).toEqual(['my-token.ts', 'index.ts', 'types.ts', 'registry.ts'])
+    })
+
+    it('should combine built-in and custom plugins in order', () => {
+      const files = new CodeGenerator(true, { plugins: ['default', 'viem', docsPlugin] }).generateFiles([token])
+
+      expect(files.map((f) => f.path)).toEqual(['my-token.ts', 'index.ts', 'types.ts', 'registry.ts', 'viem.ts', 'docs/my-token.md'])
+      expect(files.find((f) => f.path === 'docs/my-token.md')!.content).toBe('# MyToken\n\n0x0000000000000000000000000000000000000001\n')
+    })
+
+    it('should hand plugins grouped ABIs and the generator context', () => {
+      const calls: unknown[] = []
+      const spy: GeneratorPlugin = {
+        name: 'spy',
+        generate: (groups, context) => {
+          calls.push({ groups, context })
+          return []
+        },
+      }
+      const mirror = { ...token, id: 'abi-2', address: '0x0000000000000000000000000000000000000002' }
+
+      new CodeGenerator(false, { plugins: [spy], humanReadableAbi: true }).generateFiles([token, mirror])
+
+      expect(calls).toEqual([{
+        groups: [{
+          item: expect.objectContaining({ contract: 'MyToken', addresses: [token.address, mirror.address] }),
+          varName: 'myToken',
+          baseName: 'myToken',
+          fileName: 'my-token',
+        }],
+        context: { typescript: false, options: expect.objectContaining({ humanReadableAbi: true }) },
+      }])
+    })
+
+    it('should re-export only the modules plugins declare from the default index', () => {
+      const helpers: GeneratorPlugin = {
+        name: 'helpers',
+        exports: ['helpers', 'missing'],
+        generate: () => [
+          { path: 'helpers.ts', content: 'export const answer = 42\n' },
+          { path: 'internal.ts', content: 'export const secret = 1\n' },
+        ],
+      }
+      const files = new CodeGenerator(true, { plugins: ['default', 'viem', helpers, docsPlugin] }).generateFiles([token])
+      const index = files.find((f) => f.path === 'index.ts')!.content
+
+      expect(index).toContain("// viem bindings\nexport * from './viem'\n\n// helpers bindings\nexport * from './helpers'")
+      expect(index).not.toContain('internal')
+      expect(index).not.toContain('missing')
+      expect(index).not.toContain('docs')
+    })
+
+    it('should add the target to the configured plugins once', () => {
+      const paths = new CodeGenerator(true, { plugins: ['default', 'viem'], target: 'viem' }).generateFiles([token]).map((f) => f.path)
+
+      expect(paths.filter((p) => p === 'viem.ts')).toHaveLength(1)
+    })
+
+    it('should generate without the default plugin', () => {
+      const paths = new CodeGenerator(true, { plugins: [docsPlugin] }).generateFiles([token]).map((f) => f.path)
+
+      expect(paths).toEqual(['docs/my-token.md'])
+    })
+
+    it('should reject unknown plugins and conflicting files', () => {
+      expect(() => new CodeGenerator(true, { plugins: ['docs' as never] })).toThrow('Unknown plugin "docs"')
+
+      const clash: GeneratorPlugin = { name: 'clash', generate: () => [{ path: 'index.ts', content: '' }] }
+      expect(() => new CodeGenerator(true, { plugins: ['default', clash] }).generateFiles([token]))
+        .toThrow('Plugins "default" and "clash" both generate index.ts')
+    })
+  })
+
+  describe('loadPlugins', () => {
+    let dir: string | undefined
+
+    afterEach(() => {
+      if (dir) {
+        fs.rmSync(dir, { recursive: true, force: true })
+        dir = undefined
+      }
+    })
+
+    const writePlugin = (name: string, source: string) => {
+      dir = dir || fs.mkdtempSync(path.join(os.tmpdir(), 'abiregistry-plugins-'))
+      fs.writeFileSync(path.join(dir, name), source)
+      return dir
+    }
+
+    it('should keep built-in names and import plugin modules relative to the project', async () => {
+      const cwd = writePlugin('docs.mjs', "export default { name: 'docs', generate: () => [] }\n")
+      writePlugin('named.mjs', "export const plugin = { name: 'named', generate: () => [] }\n")
+
+      const plugins = await loadPlugins(['default', './docs.mjs', './named.mjs'], cwd)
+
+      expect(plugins[0]).toBe('default')
+      expect((plugins[1] as GeneratorPlugin).name).toBe('docs')
+      expect((plugins[2] as GeneratorPlugin).name).toBe('named')
+    })
+
+    it('should reject modules that fail to load or export no plugin', async () => {
+      const cwd = writePlugin('empty.mjs', 'export const answer = 42\n')
+
+      await expect(loadPlugins(['./missing.mjs'], cwd)).rejects.toThrow('Failed to load plugin "./missing.mjs"')
+      await expect(loadPlugins(['./empty.mjs'], cwd)).rejects.toThrow(ConfigurationError)
+      await expect(loadPlugins(['./empty.mjs'], cwd)).rejects.toThrow('must export a generator plugin')
+    })
+  })
+})
@@ -69,6 +69,21 @@ describe('pullAndGenerate', () => {
     expect(fs.writeFileSync).toHaveBeenCalledTimes(4)
   })
 
+  it('should only generate ABIs implementing the requested standards', async () => {
+    ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ abis: mockAbis }),
+    })
+
+    const files = await client.pullAndGenerate({
+      outDir: './test-output',
+      standards: ['ERC20'],
+    })
+
+    expect(files).toEqual([])
+    expect(fs.writeFileSync).not.toHaveBeenCalled()
+  })
+
   it('should create output directory if it does not exist', async () => {
     vi.mocked(fs.existsSync).mockReturnValue(false)
 
@@ -104,6 +119,26 @@ describe('pullAndGenerate', () => {
     expect(fs.mkdirSync).not.toHaveBeenCalled()
   })
 
+  it('should run configured plugins and create their subdirectories', async () => {
+    vi.mocked(fs.existsSync).mockReturnValue(true)
+    vi.mocked(path.dirname).mockImplementation((p) => p.slice(0, p.lastIndexOf('/')))
+
+    ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ abis: mockAbis }),
+    })
+
+    const files = await client.pullAndGenerate({
+      outDir: './test-output',
+      typescript: true,
+      plugins: ['default', { name: 'docs', generate: () => [{ path: 'docs/contracts.md', content: '# Contracts\n' }] }],
+    })
+
+    expect(files.map((file) => file.path)).toContain('docs/contracts.md')
+    expect(fs.mkdirSync).toHaveBeenCalledTimes(1)
+    expect(fs.mkdirSync).toHaveBeenCalledWith(expect.stringContaining('test-output/docs'), { recursive: true })
+  })
+
   it('should use default outDir if not provided', async () => {
     ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
       ok: true,
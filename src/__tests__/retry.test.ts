@@ -0,0 +1,69 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { getBackoffDelay, isRetryableStatus, parseRetryAfter, resolveRetryOptions } from '../utils/retry'
+
+describe('Retry Utilities', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe('isRetryableStatus', () => {
+    it('should retry 429 and 5xx', () => {
+      expect(isRetryableStatus(429)).toBe(true)
+      expect(isRetryableStatus(500)).toBe(true)
+      expect(isRetryableStatus(503)).toBe(true)
+    })
+
+    it('should not retry other statuses', () => {
+      expect(isRetryableStatus(400)).toBe(false)
+      expect(isRetryableStatus(401)).toBe(false)
+      expect(isRetryableStatus(404)).toBe(false)
+      expect(isRetryableStatus(undefined)).toBe(false)
+    })
+  })
+
+  describe('getBackoffDelay', () => {
+    const options = resolveRetryOptions({ minDelay: 100, maxDelay: 1000, jitter: false })
+
+    it('should grow exponentially', () => {
+      expect(getBackoffDelay(0, options)).toBe(100)
+      expect(getBackoffDelay(1, options)).toBe(200)
+      expect(getBackoffDelay(2, options)).toBe(400)
+    })
+
+    it('should cap at maxDelay', () => {
+      expect(getBackoffDelay(10, options)).toBe(1000)
+    })
+
+    it('should apply full jitter when enabled', () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0.5)
+      const delay = getBackoffDelay(2, { ...options, jitter: true })
+      expect(delay).toBe(200)
+    })
+  })
+
+  describe('parseRetryAfter', () => {
+    it('should parse delta-seconds', () => {
+      expect(parseRetryAfter('2')).toBe(2000)
+    })
+
+    it('should parse HTTP dates relative to now', () => {
+      const now = Date.parse('Wed, 21 Oct 2026 07:28:00 GMT')
+      expect(parseRetryAfter('Wed, 21 Oct 2026 07:28:05 GMT', now)).toBe(5000)
+    })
+
+    it('should return null for missing or invalid values', () => {
+      expect(parseRetryAfter(null)).toBeNull()
+      expect(parseRetryAfter('soon')).toBeNull()
+    })
+  })
+
+  describe('resolveRetryOptions', () => {
+    it('should disable retries when set to false', () => {
+      expect(resolveRetryOptions(false).retries).toBe(0)
+    })
+
+    it('should fill in defaults', () => {
+      expect(resolveRetryOptions({ retries: 5 })).toMatchObject({ retries: 5, minDelay: 500 })
+    })
+  })
+})
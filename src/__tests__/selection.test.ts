@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { selectAbis } from '../selection'
+import { readLockfile } from '../lockfile'
+import { AbiRegistry } from '../client'
+import { ConfigurationError, LockfileError } from '../errors'
+import type { AbiItem } from '../types'
+
+describe('Selection', () => {
+  const vaultAddress = '0x1111111111111111111111111111111111111111'
+  const routerAddress = '0x2222222222222222222222222222222222222222'
+
+  const makeAbi = (version: number, overrides: Partial<AbiItem> = {}): AbiItem => ({
+    id: `vault-v${version}`,
+    contractName: 'Vault',
+    contract: 'Vault',
+    network: 'mainnet',
+    address: vaultAddress,
+    chainId: 1,
+    abi: [{ type: 'function', name: `v${version}`, inputs: [], outputs: [], stateMutability: 'view' }],
+    version,
+    deployedAt: '2025-01-01T00:00:00Z',
+    pushedAt: '2025-01-01T00:00:00Z',
+    abiHash: `0xhash${version}`,
+    abiHashVersion: 2,
+    isLatest: false,
+    ...overrides,
+  })
+
+  const router = makeAbi(1, { id: 'router-v1', contractName: 'Router', contract: 'Router', address: routerAddress, isLatest: true })
+  const vaultVersions = [
+    makeAbi(1, { label: 'Initial' }),
+    makeAbi(2, { label: 'Post-Audit' }),
+    makeAbi(3, { isLatest: true }),
+  ]
+
+  describe('selectAbis', () => {
+    it('should pick the latest version when nothing is pinned', async () => {
+      const { abis, pinned } = await selectAbis([...vaultVersions, router], [{ contractName: 'Vault' }])
+
+      expect(abis.map((abi) => abi.id)).toEqual(['vault-v3'])
+      expect(pinned).toEqual([])
+    })
+
+    it('should pin by version or label', async () => {
+      const { abis, pinned } = await selectAbis([...vaultVersions, router], [
+        { contractName: 'Vault', chainId: 1, label: 'Post-Audit' },
+        { address: routerAddress.toUpperCase().replace('0X', '0x'), version: 1 },
+      ])
+
+      expect(abis.map((abi) => abi.id)).toEqual(['vault-v2', 'router-v1'])
+      expect(pinned).toHaveLength(2)
+    })
+
+    it('should fetch pinned versions missing from the pull', async () => {
+      const fetchVersion = vi.fn().mockResolvedValue(makeAbi(1))
+
+      const { abis } = await selectAbis([makeAbi(3, { isLatest: true })], [
+        { chainId: 1, address: vaultAddress, version: 1 },
+      ], fetchVersion)
+
+      expect(fetchVersion).toHaveBeenCalledWith(1, vaultAddress, 1)
+      expect(abis[0].version).toBe(1)
+    })
+
+    it('should query the registry for pinned labels without an address', async () => {
+      const queryAbis = vi.fn().mockResolvedValue([makeAbi(2, { label: 'Post-Audit' })])
+
+      const { abis, pinned } = await selectAbis([makeAbi(3, { isLatest: true })], [
+        { contractName: 'Vault', chainId: 1, label: 'Post-Audit' },
+      ], undefined, queryAbis)
+
+      expect(queryAbis).toHaveBeenCalledWith(expect.objectContaining({ contractName: 'Vault', chainId: 1, label: 'Post-Audit' }))
+      expect(abis.map((abi) => abi.id)).toEqual(['vault-v2'])
+      expect(pinned).toHaveLength(1)
+    })
+
+    it('should reject selections that match nothing', async () => {
+      await expect(selectAbis(vaultVersions, [{ contractName: 'Vault', label: 'Missing' }]))
+        .rejects.toThrow('No ABI in the registry matches selection (Vault, label "Missing")')
+    })
+
+    it('should reject invalid selections', async () => {
+      await expect(selectAbis(vaultVersions, [{ version: 1 }])).rejects.toBeInstanceOf(ConfigurationError)
+      await expect(selectAbis(vaultVersions, [{ contractName: 'Vault', version: 1, label: 'Initial' }]))
+        .rejects.toThrow('sets both version and label')
+    })
+
+    it('should reject conflicting versions of one deployment', async () => {
+      await expect(selectAbis(vaultVersions, [
+        { contractName: 'Vault', version: 1 },
+        { contractName: 'Vault', version: 2 },
+      ])).rejects.toThrow('Selections resolve to different versions of Vault')
+    })
+  })
+
+  describe('pullAndGenerate', () => {
+    let dir: string
+    let lockPath: string
+    let outDir: string
+
+    const client = new AbiRegistry({
+      apiKey: 'key',
+      fetch: vi.fn(async () => ({
+        ok: true,
+        status: 200,
+        json: async () => ({ abis: [...vaultVersions, router] }),
+      }) as unknown as Response),
+    })
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'abiregistry-select-'))
+      lockPath = path.join(dir, 'abiregistry.lock.json')
+      outDir = path.join(dir, 'out')
+    })
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true })
+    })
+
+    it('should generate only selected deployments', async () => {
+      const files = await client.pullAndGenerate({ outDir, select: [{ contractName: 'Vault', label: 'Post-Audit' }] })
+
+      expect(files.find((f) => f.path === 'vault.ts')?.content).toContain('Version: v2')
+      expect(files.find((f) => f.path === 'router.ts')).toBeUndefined()
+    })
+
+    it('should look up non-latest pins by contract, chain and label', async () => {
+      // Registry that only lists latest versions unless asked for a label
+      const latestOnly = new AbiRegistry({
+        apiKey: 'key',
+        fetch: vi.fn(async (url: string) => ({
+          ok: true,
+          status: 200,
+          json: async () => ({ abis: url.includes('label=') ? vaultVersions : [vaultVersions[2], router] }),
+        }) as unknown as Response),
+      })
+
+      const files = await latestOnly.pullAndGenerate({ outDir, select: [{ contractName: 'Vault', chainId: 1, label: 'Post-Audit' }] })
+
+      expect(files.find((f) => f.path === 'vault.ts')?.content).toContain('Version: v2')
+    })
+
+    it('should let config pins override the lockfile', async () => {
+      await client.pullAndGenerate({ outDir, lockfile: lockPath })
+      expect(readLockfile(lockPath)?.entries.map((e) => e.version)).toEqual([1, 3])
+
+      await client.pullAndGenerate({ outDir, lockfile: lockPath, select: [{ contractName: 'Vault', version: 2 }] })
+
+      expect(readLockfile(lockPath)?.entries).toEqual([
+        expect.objectContaining({ contractName: 'Vault', version: 2 }),
+      ])
+    })
+
+    it('should fail frozen pulls when a pin disagrees with the lockfile', async () => {
+      await client.pullAndGenerate({ outDir, lockfile: lockPath })
+
+      await expect(
+        client.pullAndGenerate({ outDir, lockfile: lockPath, frozen: true, select: [{ contractName: 'Vault', version: 2 }] })
+      ).rejects.toBeInstanceOf(LockfileError)
+    })
+  })
+})
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest'
+import { keccak256, keccak256Hex } from '../utils/keccak'
+import { formatSignature, getInterfaceId, getSelector, getSelectors, getTopic } from '../utils/signature'
+import type { AbiEntry } from '../types'
+
+describe('Signatures', () => {
+  describe('keccak256', () => {
+    it('should match known digests', () => {
+      expect(keccak256Hex('')).toBe('0xc5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470')
+      expect(keccak256Hex('abc')).toBe('0x4e03657aea45a94fc7d47ba826c8d667c0d1e6e33a64a036ec44f58fa12d6c45')
+    })
+
+    it('should hash inputs spanning several blocks', () => {
+      // 200 bytes crosses the 136-byte rate boundary
+      const bytes = new Uint8Array(200).fill(0x61)
+      expect(keccak256(bytes)).toEqual(keccak256('a'.repeat(200)))
+      expect(keccak256Hex(bytes)).not.toBe(keccak256Hex('a'.repeat(199)))
+    })
+  })
+
+  describe('formatSignature', () => {
+    it('should expand tuples recursively', () => {
+      const entry: AbiEntry = {
+        type: 'function',
+        name: 'execute',
+        inputs: [
+          {
+            name: 'orders',
+            type: 'tuple[]',
+            components: [
+              { name: 'maker', type: 'address' },
+              { name: 'legs', type: 'tuple[2]', components: [{ name: 'amount', type: 'uint256' }] },
+            ],
+          },
+          { name: 'deadline', type: 'uint64' },
+        ],
+      }
+
+      expect(formatSignature(entry)).toBe('execute((address,(uint256)[2])[],uint64)')
+    })
+  })
+
+  describe('selectors and topics', () => {
+    const transfer: AbiEntry = {
+      type: 'function',
+      name: 'transfer',
+      inputs: [{ name: 'to', type: 'address' }, { name: 'amount', type: 'uint256' }],
+      outputs: [{ name: '', type: 'bool' }],
+      stateMutability: 'nonpayable',
+    }
+    const transferEvent: AbiEntry = {
+      type: 'event',
+      name: 'Transfer',
+      inputs: [
+        { name: 'from', type: 'address', indexed: true },
+        { name: 'to', type: 'address', indexed: true },
+        { name: 'value', type: 'uint256' },
+      ],
+    }
+    const insufficientBalance: AbiEntry = {
+      type: 'error',
+      name: 'InsufficientBalance',
+      inputs: [{ name: 'available', type: 'uint256' }, { name: 'required', type: 'uint256' }],
+    }
+
+    it('should compute selectors from entries or signatures', () => {
+      expect(getSelector(transfer)).toBe('0xa9059cbb')
+      expect(getSelector('approve(address,uint256)')).toBe('0x095ea7b3')
+    })
+
+    it('should compute event topics', () => {
+      expect(getTopic(transferEvent)).toBe('0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef')
+    })
+
+    it('should map every function, event and error in an ABI', () => {
+      const overload: AbiEntry = { ...transfer, inputs: [...transfer.inputs!, { name: 'data', type: 'bytes' }] }
+      const constructor: AbiEntry = { type: 'constructor', inputs: [], stateMutability: 'nonpayable' }
+
+      expect(getSelectors([transfer, overload, transferEvent, insufficientBalance, constructor])).toEqual({
+        functions: {
+          'transfer(address,uint256)': '0xa9059cbb',
+          'transfer(address,uint256,bytes)': '0xbe45fd62',
+        },
+        events: {
+          'Transfer(address,address,uint256)': '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef',
+        },
+        errors: {
+          'InsufficientBalance(uint256,uint256)': '0xcf479181',
+        },
+      })
+    })
+  })
+
+  describe('getInterfaceId', () => {
+    it('should XOR the selectors of canonical signatures', () => {
+      expect(getInterfaceId(['supportsInterface(bytes4)'])).toBe('0x01ffc9a7')
+      expect(getInterfaceId([
+        'balanceOf(address)',
+        'ownerOf(uint256)',
+        'safeTransferFrom(address,address,uint256,bytes)',
+        'safeTransferFrom(address,address,uint256)',
+        'transferFrom(address,address,uint256)',
+        'approve(address,uint256)',
+        'setApprovalForAll(address,bool)',
+        'getApproved(uint256)',
+        'isApprovedForAll(address,address)',
+      ])).toBe('0x80ac58cd')
+    })
+
+    it('should only count functions of an ABI, each signature once', () => {
+      const transfer: AbiEntry = { type: 'function', name: 'transfer', inputs: [{ type: 'address' }, { type: 'uint256' }] }
+      const abi: AbiEntry[] = [
+        transfer,
+        transfer,
+        { type: 'event', name: 'Transfer', inputs: [] },
+        { type: 'error', name: 'Unauthorized', inputs: [] },
+        { type: 'receive', stateMutability: 'payable' },
+      ]
+
+      expect(getInterfaceId(abi)).toBe('0xa9059cbb')
+      expect(getInterfaceId([])).toBe('0x00000000')
+    })
+  })
+})
@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest'
+import { annotateStandards, detectStandards, filterByStandards, getInterfaceIds, STANDARD_INTERFACES } from '../standards'
+import { parseHumanReadableAbi } from '../humanReadable'
+import { ConfigurationError } from '../errors'
+import type { AbiItem } from '../types'
+
+describe('Standard interface detection', () => {
+  const erc20 = parseHumanReadableAbi([
+    'function totalSupply() view returns (uint256)',
+    'function balanceOf(address owner) view returns (uint256)',
+    'function transfer(address to, uint256 amount) returns (bool)',
+    'function transferFrom(address from, address to, uint256 amount) returns (bool)',
+    'function approve(address spender, uint256 amount) returns (bool)',
+    'function allowance(address owner, address spender) view returns (uint256)',
+    'function name() view returns (string)',
+    'function symbol() view returns (string)',
+    'function decimals() view returns (uint8)',
+    'event Transfer(address indexed from, address indexed to, uint256 value)',
+    'event Approval(address indexed owner, address indexed spender, uint256 value)',
+  ])
+
+  const permit = parseHumanReadableAbi([
+    'function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s)',
+    'function nonces(address owner) view returns (uint256)',
+    'function DOMAIN_SEPARATOR() view returns (bytes32)',
+  ])
+
+  const erc721 = parseHumanReadableAbi([
+    'function balanceOf(address owner) view returns (uint256)',
+    'function ownerOf(uint256 tokenId) view returns (address)',
+    'function safeTransferFrom(address from, address to, uint256 tokenId, bytes data)',
+    'function safeTransferFrom(address from, address to, uint256 tokenId)',
+    'function transferFrom(address from, address to, uint256 tokenId)',
+    'function approve(address to, uint256 tokenId)',
+    'function setApprovalForAll(address operator, bool approved)',
+    'function getApproved(uint256 tokenId) view returns (address)',
+    'function isApprovedForAll(address owner, address operator) view returns (bool)',
+    'function supportsInterface(bytes4 interfaceId) view returns (bool)',
+    'event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)',
+    'event Approval(address indexed owner, address indexed approved, uint256 indexed tokenId)',
+    'event ApprovalForAll(address indexed owner, address indexed operator, bool approved)',
+  ])
+
+  const abiItem = (contract: string, abi: AbiItem['abi']): AbiItem => ({
+    id: contract,
+    contractName: contract,
+    contract,
+    network: 'mainnet',
+    address: '0x0000000000000000000000000000000000000001',
+    chainId: 1,
+    abi,
+    deployedAt: '2025-01-01T00:00:00Z',
+    pushedAt: '2025-01-01T00:00:00Z',
+    abiHash: '',
+    isLatest: true,
+  })
+
+  describe('detectStandards', () => {
+    it('should detect ERC-20 and its extensions', () => {
+      expect(detectStandards(erc20)).toEqual(['ERC20', 'ERC20Metadata'])
+      expect(detectStandards([...erc20, ...permit])).toEqual(['ERC20', 'ERC20Metadata', 'ERC2612'])
+    })
+
+    it('should not detect an extension without the standard it extends', () => {
+      expect(detectStandards(permit)).toEqual([])
+    })
+
+    it('should tell ERC-721 apart from ERC-20 despite shared signatures', () => {
+      expect(detectStandards(erc721)).toEqual(['ERC721', 'ERC165'])
+    })
+
+    it('should require every function and event of a standard', () => {
+      const withoutApprovalEvent = erc20.filter((entry) => entry.name !== 'Approval')
+
+      expect(detectStandards(withoutApprovalEvent)).toEqual([])
+    })
+
+    it('should accept a custom catalog', () => {
+      const catalog = [{ id: 'Pausable', name: 'Pausable', functions: ['paused()'], events: [] }]
+      const abi = parseHumanReadableAbi(['function paused() view returns (bool)'])
+
+      expect(detectStandards(abi, catalog)).toEqual(['Pausable'])
+      expect(detectStandards(abi)).toEqual([])
+    })
+
+    it('should only extend standards present in the catalog', () => {
+      const ids = new Set(STANDARD_INTERFACES.map((standard) => standard.id))
+      for (const standard of STANDARD_INTERFACES) {
+        for (const id of standard.extends || []) {
+          expect(ids.has(id), `${standard.id} extends ${id}`).toBe(true)
+        }
+      }
+    })
+  })
+
+  describe('getInterfaceIds', () => {
+    it('should match the published ERC-165 ids of the catalog', () => {
+      const ids = getInterfaceIds([], {}, STANDARD_INTERFACES.map((standard) => standard.id))
+
+      expect(ids).toMatchObject({
+        ERC20: '0x36372b07',
+        ERC721: '0x80ac58cd',
+        ERC721Metadata: '0x5b5e139f',
+        ERC721Enumerable: '0x780e9d63',
+        ERC1155: '0xd9b67a26',
+        ERC1155MetadataURI: '0x0e89341c',
+        ERC165: '0x01ffc9a7',
+        ERC173: '0x7f5828d0',
+        ERC2981: '0x2a55205a',
+      })
+    })
+
+    it('should include configured interfaces the ABI fully implements', () => {
+      const interfaces = {
+        IOwnerOf: parseHumanReadableAbi(['function ownerOf(uint256 tokenId) view returns (address)']),
+        IPaused: parseHumanReadableAbi(['function paused() view returns (bool)']),
+        IEvents: parseHumanReadableAbi(['event Paused(address account)']),
+      }
+
+      expect(getInterfaceIds(erc721, interfaces)).toEqual({
+        ERC721: '0x80ac58cd',
+        ERC165: '0x01ffc9a7',
+        IOwnerOf: '0x6352211e',
+      })
+    })
+  })
+
+  describe('filterByStandards', () => {
+    const abis = annotateStandards([abiItem('Token', erc20), abiItem('Nft', erc721), abiItem('Permit', permit)])
+
+    it('should attach detected standards to each ABI item', () => {
+      expect(abis.map((abi) => abi.standards)).toEqual([['ERC20', 'ERC20Metadata'], ['ERC721', 'ERC165'], []])
+    })
+
+    it('should keep ABIs implementing any of the standards, matching ids loosely', () => {
+      expect(filterByStandards(abis, ['erc-20']).map((abi) => abi.contract)).toEqual(['Token'])
+      expect(filterByStandards(abis, ['EIP721', 'ERC20']).map((abi) => abi.contract)).toEqual(['Token', 'Nft'])
+    })
+
+    it('should detect standards on items that were not annotated', () => {
+      expect(filterByStandards([abiItem('Nft', erc721)], ['ERC165'])).toHaveLength(1)
+    })
+
+    it('should reject unknown standards', () => {
+      expect(() => filterByStandards(abis, ['ERC9999'])).toThrow(ConfigurationError)
+      expect(() => filterByStandards(abis, ['ERC9999'])).toThrow('Unknown standard "ERC9999"')
+    })
+  })
+})
@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest'
+import { assertValidAbi, formatDiagnostics, isValidAbiType, validateAbi } from '../validation'
+import { InvalidAbiError } from '../errors'
+
+describe('ABI Validation', () => {
+  const erc20 = [
+    {
+      type: 'function',
+      name: 'transfer',
+      inputs: [
+        { name: 'to', type: 'address' },
+        { name: 'amount', type: 'uint256' },
+      ],
+      outputs: [{ name: '', type: 'bool' }],
+      stateMutability: 'nonpayable',
+    },
+    {
+      type: 'event',
+      name: 'Transfer',
+      inputs: [
+        { name: 'from', type: 'address', indexed: true },
+        { name: 'to', type: 'address', indexed: true },
+        { name: 'value', type: 'uint256', indexed: false },
+      ],
+      anonymous: false,
+    },
+    { type: 'error', name: 'InsufficientBalance', inputs: [{ name: 'needed', type: 'uint256' }] },
+    { type: 'constructor', inputs: [], stateMutability: 'nonpayable' },
+    { type: 'receive', stateMutability: 'payable' },
+  ]
+
+  it('should accept a valid ABI without diagnostics', () => {
+    expect(validateAbi(erc20)).toEqual({ valid: true, diagnostics: [] })
+  })
+
+  describe('isValidAbiType', () => {
+    it('should accept valid Solidity types', () => {
+      for (const type of ['uint', 'int8', 'uint256', 'bytes1', 'bytes32', 'bytes', 'string', 'address', 'bool',
+        'function', 'tuple', 'tuple[]', 'uint256[2][]', 'fixed128x18', 'ufixed']) {
+        expect(isValidAbiType(type), type).toBe(true)
+      }
+    })
+
+    it('should reject invalid Solidity types', () => {
+      for (const type of ['uint7', 'uint264', 'int0', 'bytes0', 'bytes33', 'addres', 'uint256[0]', 'string[', 'fixed128x81', 'uint08']) {
+        expect(isValidAbiType(type), type).toBe(false)
+      }
+    })
+  })
+
+  it('should report errors with their location and entry', () => {
+    const { valid, diagnostics } = validateAbi([
+      { type: 'function', name: 'transfer', inputs: [{ name: 'to', type: 'addres' }], stateMutability: 'mutable' },
+      { type: 'method', name: 'x' },
+      { type: 'function', inputs: [] },
+      { type: 'function', name: 'swap', inputs: [{ name: 'order', type: 'tuple' }] },
+    ])
+
+    expect(valid).toBe(false)
+    expect(diagnostics).toEqual([
+      { severity: 'error', path: '[0].inputs[0].type', message: 'invalid Solidity type "addres"', entry: 'transfer' },
+      {
+        severity: 'error',
+        path: '[0].stateMutability',
+        message: 'invalid stateMutability "mutable" (expected pure, view, nonpayable, payable)',
+        entry: 'transfer',
+      },
+      {
+        severity: 'error',
+        path: '[1].type',
+        message: 'unknown entry type "method" (expected function, event, error, constructor, fallback, receive)',
+      },
+      { severity: 'error', path: '[2].name', message: 'function has no name', entry: 'function' },
+      { severity: 'error', path: '[3].inputs[0].components', message: 'tuple requires a non-empty components array', entry: 'swap' },
+    ])
+  })
+
+  it('should treat entries without a type as functions', () => {
+    const legacy = [{ name: 'owner', inputs: [], outputs: [{ name: '', type: 'address' }], constant: true }]
+
+    expect(validateAbi(legacy)).toEqual({ valid: true, diagnostics: [] })
+    expect(validateAbi([{ inputs: [] }]).diagnostics).toEqual([
+      { severity: 'error', path: '[0].name', message: 'function has no name', entry: 'function' },
+    ])
+  })
+
+  it('should limit indexed event parameters', () => {
+    const indexed = (n: number) => Array.from({ length: n }, (_, i) => ({ name: `p${i}`, type: 'uint256', indexed: true }))
+
+    expect(validateAbi([{ type: 'event', name: 'E', inputs: indexed(4) }]).diagnostics[0].message)
+      .toBe('events can have at most 3 indexed parameters (found 4)')
+    expect(validateAbi([{ type: 'event', name: 'E', inputs: indexed(4), anonymous: true }]).valid).toBe(true)
+    expect(validateAbi([{ type: 'event', name: 'E', inputs: indexed(5), anonymous: true }]).valid).toBe(false)
+  })
+
+  it('should reject conflicting signatures and warn on exact duplicates', () => {
+    const view = { type: 'function', name: 'owner', inputs: [], outputs: [{ name: '', type: 'address' }], stateMutability: 'view' }
+
+    const conflict = validateAbi([view, { ...view, stateMutability: 'nonpayable' }])
+    expect(conflict.valid).toBe(false)
+    expect(conflict.diagnostics[0].message).toBe('function conflicts with entry [0], which has the same signature')
+
+    const duplicate = validateAbi([view, { ...view }])
+    expect(duplicate.valid).toBe(true)
+    expect(duplicate.diagnostics).toEqual([
+      { severity: 'warning', path: '[1]', entry: 'owner()', message: 'duplicate of entry [0]' },
+    ])
+
+    expect(validateAbi([{ type: 'receive', stateMutability: 'payable' }, { type: 'receive', stateMutability: 'payable', inputs: [] }]).valid)
+      .toBe(false)
+  })
+
+  it('should check stateMutability per entry type', () => {
+    expect(validateAbi([{ type: 'receive', stateMutability: 'nonpayable' }]).diagnostics[0].message).toBe('receive must be payable')
+    expect(validateAbi([{ type: 'constructor', inputs: [], stateMutability: 'view' }]).diagnostics[0].message)
+      .toBe('constructor cannot be view')
+  })
+
+  it('should warn about ignored fields without failing', () => {
+    const { valid, diagnostics } = validateAbi([
+      { type: 'function', name: 'f', inputs: [{ name: 'x', type: 'uint256', indexed: true, components: [] }] },
+      { type: 'event', name: 'E', inputs: [], outputs: [] },
+    ])
+
+    expect(valid).toBe(true)
+    expect(diagnostics.map((d) => [d.severity, d.path])).toEqual([
+      ['warning', '[0].inputs[0].indexed'],
+      ['warning', '[0].inputs[0].components'],
+      ['warning', '[1].outputs'],
+    ])
+  })
+
+  it('should reject non-array ABIs and non-object entries', () => {
+    expect(validateAbi({ abi: [] }).diagnostics[0].message).toBe('ABI must be an array of entries')
+    expect(validateAbi(['function transfer(address,uint256)']).diagnostics[0]).toEqual({
+      severity: 'error',
+      path: '[0]',
+      message: 'entry must be an object',
+    })
+  })
+
+  it('should throw InvalidAbiError with a readable report', () => {
+    const abi = [{ type: 'function', name: 'transfer', inputs: [{ name: 'to', type: 'addres' }] }]
+
+    const error = (() => {
+      try {
+        assertValidAbi(abi, 'Token')
+      } catch (e) {
+        return e as InvalidAbiError
+      }
+    })()
+
+    expect(error).toBeInstanceOf(InvalidAbiError)
+    expect(error!.contractName).toBe('Token')
+    expect(error!.diagnostics).toHaveLength(1)
+    expect(error!.message).toBe(`Invalid ABI for Token: 1 error(s)\n${formatDiagnostics(error!.diagnostics)}`)
+    expect(formatDiagnostics(error!.diagnostics)).toBe('  ❌ [0].inputs[0].type transfer: invalid Solidity type "addres"')
+  })
+})
@@ -0,0 +1,120 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { createHash } from 'crypto'
+import type { AbiEntry, AbiItem } from './types'
+import { getAbiHash } from './utils/hash'
+
+export const DEFAULT_CACHE_DIR = path.join('node_modules', '.cache', 'abiregistry')
+
+const CACHE_FORMAT_VERSION = 2
+
+type CachedAbiItem = Omit<AbiItem, 'abi'> & {
+    abiFile: string     // Canonical hash naming the shared ABI file (server hashes may be legacy)
+}
+
+type CacheIndex = {
+    version: number
+    etag: string | null
+    updatedAt: string
+    items: CachedAbiItem[]
+}
+
+export type CacheEntry = {
+    etag: string | null
+    updatedAt: string
+    abis: AbiItem[]
+}
+
+/**
+ * Persistent on-disk cache for pulled ABIs
+ *
+ * Layout:
+ *   <dir>/abis/<hash>.json      ABI entries, shared by every deployment with the same canonical hash
+ *   <dir>/index-<key>.json      Item metadata + ETag for one registry/query
+ */
+export class AbiCache {
+    readonly dir: string
+
+    constructor(dir: string = DEFAULT_CACHE_DIR) {
+        this.dir = path.resolve(process.cwd(), dir)
+    }
+
+    /**
+     * Build a cache key for a registry endpoint, API key and query
+     * The API key is hashed so it never lands on disk
+     */
+    static createKey(...parts: string[]): string {
+        return createHash('sha256').update(parts.join('|')).digest('hex').slice(0, 16)
+    }
+
+    /**
+     * Read a cached pull result
+     * Returns null on a miss or when any referenced ABI file is missing or unreadable
+     */
+    read(key: string): CacheEntry | null {
+        const index = this.readJson<CacheIndex>(this.indexPath(key))
+        if (!index || index.version !== CACHE_FORMAT_VERSION || !Array.isArray(index.items)) {
+            return null
+        }
+
+        const abis: AbiItem[] = []
+        for (const { abiFile, ...item } of index.items) {
+            const abi = this.readJson<AbiEntry[]>(this.abiPath(abiFile))
+            if (!abi) {
+                return null
+            }
+            abis.push({ ...item, abi })
+        }
+
+        return { etag: index.etag, updatedAt: index.updatedAt, abis }
+    }
+
+    /**
+     * Store a pull result, writing each distinct ABI once
+     */
+    write(key: string, etag: string | null, abis: AbiItem[]): void {
+        fs.mkdirSync(path.join(this.dir, 'abis'), { recursive: true })
+
+        const items: CachedAbiItem[] = []
+        for (const { abi, ...item } of abis) {
+            const abiFile = getAbiHash({ ...item, abi })
+            const abiPath = this.abiPath(abiFile)
+            if (!fs.existsSync(abiPath)) {
+                fs.writeFileSync(abiPath, JSON.stringify(abi), 'utf-8')
+            }
+            items.push({ ...item, abiFile })
+        }
+
+        const index: CacheIndex = {
+            version: CACHE_FORMAT_VERSION,
+            etag,
+            updatedAt: new Date().toISOString(),
+            items,
+        }
+        fs.writeFileSync(this.indexPath(key), JSON.stringify(index, null, 2), 'utf-8')
+    }
+
+    /**
+     * Delete everything in the cache directory
+     */
+    clear(): void {
+        fs.rmSync(this.dir, { recursive: true, force: true })
+    }
+
+    private indexPath(key: string): string {
+        return path.join(this.dir, `index-${key}.json`)
+    }
+
+    private abiPath(abiFile: string): string {
+        // Hashes are hex, but never trust them as path segments
+        return path.join(this.dir, 'abis', `${abiFile.replace(/[^a-zA-Z0-9]/g, '')}.json`)
+    }
+
+    private readJson<T>(filePath: string): T | null {
+        try {
+            return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as T
+        } catch {
+            return null
+        }
+    }
+}
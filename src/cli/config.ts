@@ -1,6 +1,7 @@
 import * as fs from 'fs'
 import * as path from 'path'
 import { config as loadDotenv } from 'dotenv'
+import type { AbiSelection } from '../types'
 
 export type ContractConfig = {
     chain: number
@@ -22,6 +23,8 @@ export type FoundryDeployScript = {
     contracts?: FoundryContractConfig[]  // Specific contracts to push from this script (if empty, push all)
 }
 
+export type BreakingChangePolicy = 'warn' | 'fail' | 'require-label'
+
 export type FoundryConfig = {
     // Single script (legacy support)
     scriptDir?: string  // DEPRECATED: Use 'scripts' array instead
@@ -32,13 +35,25 @@ export type FoundryConfig = {
     // Contract filtering (applies to all scripts if scripts don't specify their own)
     // DEPRECATED: Use contracts array in scripts instead
     contracts?: string[]  // Specific contract names to push (if empty, push all)
+
+    // Compare each ABI with the registry's latest version before pushing (off by default)
+    // warn: show breaking changes; fail: refuse to push them; require-label: push only with --label
+    onBreakingChange?: BreakingChangePolicy
+}
+
+export type RegistryConfig = {
+    contracts?: AbiSelection[]  // Deployments to generate on pull (if empty, generate all)
+    interfaces?: string[]  // Foundry interface artifacts in out/ (e.g. "IVault") whose ERC-165 ids are exported on pull
+    plugins?: string[]  // Generators to run on pull: built-in names ("default", "viem", ...) or plugin module paths
 }
 
 export type AbiRegistryCliConfig = {
     apiKey?: string
+    baseUrl?: string  // Self-hosted or staging registry endpoint (default: https://abiregistry.com)
     outDir?: string
     contracts?: ContractConfig[]
     foundry?: FoundryConfig
+    registry?: RegistryConfig
 }
 
 const CONFIG_FILE_NAME = 'abiregistry.config.json'
@@ -60,11 +75,20 @@ export function loadConfig(overrides: Partial<AbiRegistryCliConfig> = {}): AbiRe
 
     return {
         ...fileConfig,
-        ...envConfig,
-        ...overrides,
+        ...withoutUndefined(envConfig),
+        ...withoutUndefined(overrides),
     }
 }
 
+/**
+ * Drop unset keys so they don't shadow values from lower-priority sources
+ */
+function withoutUndefined<T extends object>(config: T): Partial<T> {
+    return Object.fromEntries(
+        Object.entries(config).filter(([, value]) => value !== undefined)
+    ) as Partial<T>
+}
+
 /**
  * Load configuration from abiregistry.config.json
  */
@@ -116,6 +140,11 @@ function loadEnvConfig(): Partial<AbiRegistryCliConfig> {
             process.env.ABIREGISTRY_API_KEY ||
             process.env.API_KEY,
 
+        // Registry endpoint
+        baseUrl: process.env.ABI_REGISTRY_URL ||
+            process.env.ABI_REGISTRY_BASE_URL ||
+            process.env.ABIREGISTRY_URL,
+
         // Output directory
         outDir: process.env.ABI_REGISTRY_OUT_DIR ||
             process.env.ABIREGISTRY_OUT_DIR,
@@ -0,0 +1,111 @@
+import { AbiRegistry } from '../client'
+import { decodeFunctionResult, decodeWithAbis, type DecodedArgument, type DecodedError } from '../decode'
+import { AbiCodingError, ConfigurationError, NotFoundError } from '../errors'
+import { getExitCode } from './exit'
+import type { AbiItem } from '../types'
+
+type DecodeOptions = {
+  apiKey: string
+  baseUrl?: string
+  data?: string         // Calldata, return data or revert data (0x hex)
+  contract?: string     // Only decode against ABIs of this contract
+  chain?: number
+  address?: string
+  function?: string     // Decode as the return data of this function instead of calldata/revert data
+  offline?: boolean     // Use the ABIs from the last pull (local cache)
+  cache?: boolean
+}
+
+/**
+ * Decode calldata, return data or revert data against the ABIs in the registry
+ * Reports every contract whose ABI decodes the data, with its decoded arguments
+ */
+export async function decodeCommand(options: DecodeOptions): Promise<void> {
+  try {
+    const data = options.data
+    if (!data || !/^0x[0-9a-fA-F]*$/.test(data)) {
+      throw new ConfigurationError('decode requires hex data, e.g. abiregistry decode 0xa9059cbb...')
+    }
+
+    const client = new AbiRegistry({ apiKey: options.apiKey, baseUrl: options.baseUrl, cache: options.cache !== false })
+
+    // Always pull the full set so the cache written by `pull` serves offline decoding too
+    const abis = filterAbis(options.offline ? client.pullFromCache() : await client.pull(), options)
+    if (abis.length === 0) {
+      throw new NotFoundError('No ABIs in the registry match the given --contract, --chain and --address')
+    }
+
+    console.log(`🔍 Decoding against ${abis.length} ABI(s)\n`)
+
+    if (options.function) {
+      printReturnData(abis, options.function, data)
+      return
+    }
+
+    const matches = decodeWithAbis(abis, data)
+    if (matches.length === 0) {
+      throw new NotFoundError(`No ABI matches selector ${data.slice(0, 10).toLowerCase()}`)
+    }
+
+    for (const { abi, kind, decoded } of matches) {
+      const revert = decoded as DecodedError
+      const source = abi ? describeDeployment(abi) : 'Solidity built-in'
+      console.log(`✅ ${source}: ${kind === 'function' ? 'function' : 'revert'} ${decoded.signature}`)
+      if (revert.reason) {
+        console.log(`   reason: ${revert.reason}`)
+      }
+      printArguments(decoded.args)
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    console.error(`❌ Failed to decode: ${message}`)
+    process.exit(getExitCode(error))
+  }
+}
+
+function filterAbis(abis: AbiItem[], options: DecodeOptions): AbiItem[] {
+  return abis.filter((abi) =>
+    (!options.contract || abi.contractName === options.contract) &&
+    (!options.chain || abi.chainId === options.chain) &&
+    (!options.address || abi.address.toLowerCase() === options.address.toLowerCase())
+  )
+}
+
+function printReturnData(abis: AbiItem[], functionName: string, data: string): void {
+  let decodedCount = 0
+
+  for (const abi of abis) {
+    try {
+      const args = decodeFunctionResult(abi.abi, functionName, data)
+      console.log(`✅ ${describeDeployment(abi)}: ${functionName} returned`)
+      printArguments(args)
+      decodedCount++
+    } catch (error) {
+      if (!(error instanceof AbiCodingError)) {
+        throw error
+      }
+    }
+  }
+
+  if (decodedCount === 0) {
+    throw new NotFoundError(`No ABI has a function "${functionName}" whose return types fit the data`)
+  }
+}
+
+function describeDeployment(abi: AbiItem): string {
+  return `${abi.contractName} v${abi.version ?? '?'} (chain ${abi.chainId}, ${abi.address})`
+}
+
+function printArguments(args: DecodedArgument[]): void {
+  args.forEach((arg, i) => {
+    console.log(`   ${arg.name || `#${i}`} (${arg.type}): ${formatValue(arg.value)}`)
+  })
+}
+
+export function formatValue(value: unknown): string {
+  if (typeof value === 'string' || typeof value === 'bigint' || typeof value === 'boolean') {
+    return String(value)
+  }
+  // bigint isn't JSON-serializable, so print it as a decimal string
+  return JSON.stringify(value, (_key, item) => (typeof item === 'bigint' ? item.toString() : item)) ?? String(value)
+}
@@ -0,0 +1,95 @@
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import { AbiRegistry } from '../client'
+import { LogDecoder, type EventLog } from '../logs'
+import { ConfigurationError, NotFoundError } from '../errors'
+import { formatValue } from './decode'
+import { getExitCode } from './exit'
+
+type DecodeLogsOptions = {
+  apiKey: string
+  baseUrl?: string
+  file?: string         // JSON file with eth_getLogs output
+  chain?: number        // Chain the logs came from (prefers ABIs deployed there)
+  offline?: boolean     // Use the ABIs from the last pull (local cache)
+  cache?: boolean
+}
+
+/**
+ * Decode raw event logs from a JSON file against the ABIs in the registry
+ */
+export async function decodeLogsCommand(options: DecodeLogsOptions): Promise<void> {
+  try {
+    if (!options.file) {
+      throw new ConfigurationError('decode-logs requires a JSON file of logs, e.g. abiregistry decode-logs logs.json')
+    }
+
+    const logs = await loadLogs(options.file)
+    const client = new AbiRegistry({ apiKey: options.apiKey, baseUrl: options.baseUrl, cache: options.cache !== false })
+    const abis = options.offline ? client.pullFromCache() : await client.pull()
+
+    console.log(`🔍 Decoding ${logs.length} log(s) against ${abis.length} ABI(s)\n`)
+
+    const decoded = new LogDecoder(abis).decodeAll(logs, options.chain)
+
+    decoded.forEach((result, i) => {
+      const log = logs[i]
+      const location = [
+        log.address,
+        log.blockNumber !== undefined ? `block ${Number(log.blockNumber)}` : null,
+        log.logIndex !== undefined ? `log ${Number(log.logIndex)}` : null,
+      ].filter(Boolean).join(', ')
+
+      if (!result) {
+        console.log(`⚠️  #${i} ${log.topics[0] ?? '(no topics)'} (${location}): no matching event`)
+        return
+      }
+
+      console.log(`✅ #${i} ${result.abi.contractName}.${result.signature} (${location})`)
+      result.args.forEach((arg, j) => {
+        const marker = arg.indexed ? ' indexed' : ''
+        const value = arg.hashed ? `${arg.value} (hash)` : formatValue(arg.value)
+        console.log(`   ${arg.name || `#${j}`} (${arg.type}${marker}): ${value}`)
+      })
+    })
+
+    const decodedCount = decoded.filter(Boolean).length
+    console.log(`\n${decodedCount} of ${logs.length} log(s) decoded`)
+
+    if (logs.length > 0 && decodedCount === 0) {
+      throw new NotFoundError('No log matched an event in the registry ABIs')
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    console.error(`❌ Failed to decode logs: ${message}`)
+    process.exit(getExitCode(error))
+  }
+}
+
+async function loadLogs(filePath: string): Promise<EventLog[]> {
+  const fullPath = path.resolve(process.cwd(), filePath)
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(await fs.readFile(fullPath, 'utf-8'))
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    throw new ConfigurationError(`Failed to read logs from ${filePath}: ${message}`)
+  }
+
+  // Accept a log array, a JSON-RPC response ({ result: [...] }), a receipt ({ logs: [...] }) or a single log
+  const container = parsed as { result?: unknown; logs?: unknown }
+  const logs = Array.isArray(parsed)
+    ? parsed
+    : Array.isArray(container?.result) ? container.result
+    : Array.isArray(container?.logs) ? container.logs
+    : [parsed]
+
+  for (const log of logs as EventLog[]) {
+    if (!log || !Array.isArray(log.topics) || typeof log.data !== 'string') {
+      throw new ConfigurationError(`${filePath} must contain logs with "topics" and "data" fields`)
+    }
+  }
+
+  return logs as EventLog[]
+}
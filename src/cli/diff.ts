@@ -0,0 +1,136 @@
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import { AbiRegistry } from '../client'
+import { diffAbis } from '../diff'
+import { ConfigurationError, InvalidArtifactError, NotFoundError } from '../errors'
+import { displayTable } from './prompt'
+import { EXIT_CODES, getExitCode } from './exit'
+import { FileSystemService } from './services/FileSystemService'
+import { AbiLoaderService } from './services/AbiLoaderService'
+import type { AbiEntry, AbiItem } from '../types'
+
+type DiffOptions = {
+  apiKey: string
+  baseUrl?: string
+  contract?: string     // Foundry artifact name in out/ (also used to find the registry entry)
+  abi?: string          // Local ABI file instead of a Foundry artifact (raw ABI array or artifact JSON)
+  chain?: number
+  address?: string
+  against?: string      // Registry version or label to compare with (default: latest)
+}
+
+/**
+ * Compare a local ABI with a registry version and report breaking changes
+ * Exits with BREAKING_CHANGES when any change would break existing callers
+ */
+export async function diffCommand(options: DiffOptions): Promise<void> {
+  try {
+    if (!options.contract && !options.abi) {
+      throw new ConfigurationError('diff requires --contract <name> or --abi <path>')
+    }
+    if (!options.contract && !(options.chain && options.address)) {
+      throw new ConfigurationError('diff with --abi requires --contract or both --chain and --address to find the registry ABI')
+    }
+
+    const localAbi = options.abi
+      ? await loadAbiFile(options.abi)
+      : await new AbiLoaderService(new FileSystemService()).loadContractAbi(options.contract!)
+
+    const client = new AbiRegistry({ apiKey: options.apiKey, baseUrl: options.baseUrl })
+    const remote = await findRegistryAbi(client, options)
+
+    console.log(`🔍 Comparing local ABI with ${remote.contractName} v${remote.version ?? '?'}${remote.label ? ` (${remote.label})` : ''} on chain ${remote.chainId}\n`)
+
+    const { changes, breaking } = diffAbis(remote.abi, localAbi)
+
+    if (changes.length === 0) {
+      console.log('✅ No ABI changes')
+      return
+    }
+
+    displayTable(
+      ['', 'Change', 'Type', 'Signature', 'Details'],
+      changes.map((change) => [
+        change.breaking ? '⚠️' : ' ',
+        change.kind,
+        change.entryType,
+        change.signature,
+        change.reasons.join('; '),
+      ])
+    )
+
+    const breakingCount = changes.filter((change) => change.breaking).length
+    if (breaking) {
+      console.log(`\n⚠️  ${breakingCount} breaking change(s), ${changes.length - breakingCount} non-breaking`)
+      process.exit(EXIT_CODES.BREAKING_CHANGES)
+    }
+
+    console.log(`\n✅ ${changes.length} non-breaking change(s)`)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    console.error(`❌ Failed to diff ABIs: ${message}`)
+    process.exit(getExitCode(error))
+  }
+}
+
+async function loadAbiFile(filePath: string): Promise<AbiEntry[]> {
+  const fullPath = path.resolve(process.cwd(), filePath)
+  const contractName = path.basename(filePath, '.json')
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(await fs.readFile(fullPath, 'utf-8'))
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    throw new InvalidArtifactError(`Failed to read ABI from ${filePath}: ${message}`, { contractName, path: fullPath })
+  }
+
+  // Accept a raw ABI array or any artifact with an `abi` field (Foundry, Hardhat)
+  const abi = Array.isArray(parsed) ? parsed : (parsed as { abi?: unknown })?.abi
+  if (!Array.isArray(abi)) {
+    throw new InvalidArtifactError(`${filePath} is neither an ABI array nor an artifact with an "abi" field`, {
+      contractName,
+      path: fullPath,
+    })
+  }
+
+  return abi as AbiEntry[]
+}
+
+async function findRegistryAbi(client: AbiRegistry, options: DiffOptions): Promise<AbiItem> {
+  const against = parseVersionOrLabel(options.against)
+  let remote: AbiItem | null
+
+  if (options.chain && options.address) {
+    remote = await client.getVersion(options.chain, options.address, against)
+  } else {
+    const filter = against === 'latest'
+      ? { isLatest: true }
+      : typeof against === 'number' ? { version: against } : { label: against }
+    const { abis } = await client.query({ contractName: options.contract, chainId: options.chain, ...filter })
+
+    const deployments = new Set(abis.map((abi) => `${abi.chainId}:${abi.address.toLowerCase()}`))
+    if (deployments.size > 1) {
+      throw new ConfigurationError(
+        `${options.contract} has ${deployments.size} deployments in the registry; pass --chain and --address to pick one`
+      )
+    }
+    remote = abis[0] || null
+  }
+
+  if (!remote) {
+    const target = options.address ? `${options.address} on chain ${options.chain}` : options.contract
+    throw new NotFoundError(`No ${against === 'latest' ? 'latest version' : `version "${against}"`} of ${target} in the registry`)
+  }
+
+  return remote
+}
+
+function parseVersionOrLabel(value: string | undefined): number | string {
+  if (!value) {
+    return 'latest'
+  }
+  // "3" and "v3" are version numbers; anything else is a label
+  const match = /^v?(\d+)$/.exec(value)
+  return match ? parseInt(match[1], 10) : value
+}
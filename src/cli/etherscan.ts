@@ -1,3 +1,5 @@
+import { ApiError, NetworkError, NotFoundError, RateLimitError, UnsupportedChainError, createApiError } from '../errors'
+
 type EtherscanConfig = {
   chainId: number
   name: string
@@ -49,10 +51,11 @@ export async function fetchAbiFromEtherscan(chainId: number, address: string): P
   const config = SUPPORTED_CHAINS[chainId]
 
   if (!config) {
-    const supportedChainIds = Object.keys(SUPPORTED_CHAINS).join(', ')
-    throw new Error(
-      `Unsupported chain ID: ${chainId}. Supported chains: ${supportedChainIds}\n` +
-      `See https://docs.etherscan.io/getting-started/supported-chains for all available chains.`
+    const supportedChainIds = Object.keys(SUPPORTED_CHAINS).map(Number)
+    throw new UnsupportedChainError(
+      `Unsupported chain ID: ${chainId}. Supported chains: ${supportedChainIds.join(', ')}\n` +
+      `See https://docs.etherscan.io/getting-started/supported-chains for all available chains.`,
+      { chainId, supportedChainIds }
     )
   }
 
@@ -73,44 +76,59 @@ export async function fetchAbiFromEtherscan(chainId: number, address: string): P
 
   const url = `${ETHERSCAN_V2_BASE_URL}?${params.toString()}`
 
+  console.log(`Fetching ABI from Etherscan V2 (${config.name})...`)
+
+  let response: Response
   try {
-    console.log(`Fetching ABI from Etherscan V2 (${config.name})...`)
-    const response = await fetch(url)
+    response = await fetch(url)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    throw new NetworkError(`Etherscan request failed: ${message}`, { url: ETHERSCAN_V2_BASE_URL, cause: error })
+  }
 
-    if (!response.ok) {
-      throw new Error(`Etherscan API request failed: ${response.statusText}`)
-    }
+  if (!response.ok) {
+    throw createApiError(`Etherscan API request failed: ${response.statusText}`, {
+      statusCode: response.status,
+      url: ETHERSCAN_V2_BASE_URL,
+    })
+  }
 
-    const data = (await response.json()) as EtherscanAbiResponse
-
-    if (data.status !== '1') {
-      // Check for V1 deprecation error
-      if (data.message?.includes('deprecated V1 endpoint')) {
-        throw new Error(
-          'Etherscan API V1 is deprecated. Please update to V2.\n' +
-          'See https://docs.etherscan.io/v2-migration for details.'
-        )
-      }
-      throw new Error(data.message || 'Failed to fetch ABI from Etherscan')
-    }
+  const data = (await response.json()) as EtherscanAbiResponse
 
-    // Etherscan returns ABI as a JSON string
-    if (typeof data.result === 'string') {
-      return JSON.parse(data.result) as unknown[]
+  if (data.status !== '1') {
+    // Check for V1 deprecation error
+    if (data.message?.includes('deprecated V1 endpoint')) {
+      throw new ApiError(
+        'Etherscan API V1 is deprecated. Please update to V2.\n' +
+        'See https://docs.etherscan.io/v2-migration for details.',
+        { url: ETHERSCAN_V2_BASE_URL }
+      )
     }
 
-    // Sometimes it's already parsed
-    if (Array.isArray(data.result)) {
-      return data.result
+    // Etherscan reports rate limiting in the body with HTTP 200
+    const detail = typeof data.result === 'string' ? data.result : ''
+    if (/rate limit/i.test(`${data.message} ${detail}`)) {
+      throw new RateLimitError(detail || data.message, { url: ETHERSCAN_V2_BASE_URL })
     }
 
-    throw new Error('Unexpected ABI format from Etherscan')
-  } catch (error) {
-    if (error instanceof Error) {
-      throw error
+    throw new ApiError(data.message || 'Failed to fetch ABI from Etherscan', { url: ETHERSCAN_V2_BASE_URL })
+  }
+
+  // Etherscan returns ABI as a JSON string
+  if (typeof data.result === 'string') {
+    try {
+      return JSON.parse(data.result) as unknown[]
+    } catch {
+      throw new ApiError('Etherscan returned an ABI that is not valid JSON', { url: ETHERSCAN_V2_BASE_URL })
     }
-    throw new Error('Failed to fetch ABI from Etherscan')
   }
+
+  // Sometimes it's already parsed
+  if (Array.isArray(data.result)) {
+    return data.result
+  }
+
+  throw new ApiError('Unexpected ABI format from Etherscan', { url: ETHERSCAN_V2_BASE_URL })
 }
 
 export function getChainName(chainId: number): string {
@@ -126,7 +144,10 @@ export async function getProxyImplementation(chainId: number, proxyAddress: stri
   const config = SUPPORTED_CHAINS[chainId]
 
   if (!config) {
-    throw new Error(`Unsupported chain ID: ${chainId}`)
+    throw new UnsupportedChainError(`Unsupported chain ID: ${chainId}`, {
+      chainId,
+      supportedChainIds: Object.keys(SUPPORTED_CHAINS).map(Number),
+    })
   }
 
   // EIP-1967 implementation slot: keccak256("eip1967.proxy.implementation") - 1
@@ -195,7 +216,7 @@ export async function fetchAbiWithProxyDetection(
     const implementation = await getProxyImplementation(chainId, address)
 
     if (!implementation) {
-      throw new Error(`Failed to get implementation address for proxy ${address}`)
+      throw new NotFoundError(`Failed to get implementation address for proxy ${address}`)
     }
 
     targetAddress = implementation
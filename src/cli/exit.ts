@@ -0,0 +1,58 @@
+import {
+    AuthenticationError,
+    BreakingChangeError,
+    ConfigurationError,
+    DuplicateAbiError,
+    InvalidAbiError,
+    InvalidArtifactError,
+    InvalidBroadcastError,
+    LockfileError,
+    NetworkError,
+    NotFoundError,
+    RateLimitError,
+    UnsupportedChainError,
+    ApiError,
+} from '../errors'
+
+/**
+ * Process exit codes used by the CLI
+ * Scripts can branch on these instead of parsing error output
+ */
+export const EXIT_CODES = {
+    SUCCESS: 0,
+    GENERAL_ERROR: 1,
+    CONFIGURATION_ERROR: 2,
+    AUTHENTICATION_FAILED: 3,
+    NOT_FOUND: 4,
+    DUPLICATE_ABI: 5,
+    RATE_LIMITED: 6,
+    NETWORK_ERROR: 7,
+    INVALID_ARTIFACT: 8,
+    INVALID_BROADCAST: 9,
+    UNSUPPORTED_CHAIN: 10,
+    API_ERROR: 11,
+    LOCKFILE_MISMATCH: 12,
+    BREAKING_CHANGES: 13,
+    INVALID_ABI: 14,
+} as const
+
+/**
+ * Map an error to the CLI exit code for its type
+ * Subclasses are checked before ApiError, which they all extend
+ */
+export function getExitCode(error: unknown): number {
+    if (error instanceof ConfigurationError) return EXIT_CODES.CONFIGURATION_ERROR
+    if (error instanceof AuthenticationError) return EXIT_CODES.AUTHENTICATION_FAILED
+    if (error instanceof NotFoundError) return EXIT_CODES.NOT_FOUND
+    if (error instanceof DuplicateAbiError) return EXIT_CODES.DUPLICATE_ABI
+    if (error instanceof RateLimitError) return EXIT_CODES.RATE_LIMITED
+    if (error instanceof NetworkError) return EXIT_CODES.NETWORK_ERROR
+    if (error instanceof InvalidArtifactError) return EXIT_CODES.INVALID_ARTIFACT
+    if (error instanceof InvalidAbiError) return EXIT_CODES.INVALID_ABI
+    if (error instanceof InvalidBroadcastError) return EXIT_CODES.INVALID_BROADCAST
+    if (error instanceof UnsupportedChainError) return EXIT_CODES.UNSUPPORTED_CHAIN
+    if (error instanceof LockfileError) return EXIT_CODES.LOCKFILE_MISMATCH
+    if (error instanceof BreakingChangeError) return EXIT_CODES.BREAKING_CHANGES
+    if (error instanceof ApiError) return EXIT_CODES.API_ERROR
+    return EXIT_CODES.GENERAL_ERROR
+}
@@ -2,12 +2,21 @@ import * as path from 'path'
 import * as fs from 'fs/promises'
 import { fetchAbiWithProxyDetection, getChainName } from './etherscan'
 import { CodeGenerator } from '../generator'
+import { getExitCode } from './exit'
+import { loadPlugins } from './plugins'
+import { formatDiagnostics, validateAbi } from '../validation'
+import { InvalidAbiError } from '../errors'
+import { annotateStandards, filterByStandards } from '../standards'
 import type { ContractConfig } from './config'
-import type { AbiEntry, AbiItem } from '../types'
+import type { AbiEntry, AbiItem, GeneratorTarget } from '../types'
 
 type FetchOptions = {
   outDir?: string
   js?: boolean
+  target?: GeneratorTarget
+  plugins?: string[]
+  humanReadableAbi?: boolean
+  standards?: string[]
   contracts?: ContractConfig[]
   chain?: number
   address?: string
@@ -16,7 +25,7 @@ type FetchOptions = {
 }
 
 export async function fetchCommand(options: FetchOptions): Promise<void> {
-  const { outDir = 'abiregistry', js = false, contracts, chain, address, name, isProxy } = options
+  const { outDir = 'abiregistry', js = false, target, plugins, humanReadableAbi = false, standards, contracts, chain, address, name, isProxy } = options
 
   let contractsToFetch: ContractConfig[] = []
 
@@ -34,11 +43,19 @@ export async function fetchCommand(options: FetchOptions): Promise<void> {
     process.exit(1)
   }
 
+  // Fails fast on an unknown target or plugin, before anything is fetched
+  const generator = new CodeGenerator(!js, {
+    target,
+    plugins: plugins ? await loadPlugins(plugins) : undefined,
+    humanReadableAbi,
+  }) // Pass boolean for typescript
+
   console.log(`📦 Fetching ${contractsToFetch.length} contract(s) from Etherscan...`)
 
   const abiItems: AbiItem[] = []
   let successCount = 0
   let errorCount = 0
+  let firstError: unknown
 
   for (const contract of contractsToFetch) {
     try {
@@ -53,7 +70,7 @@ export async function fetchCommand(options: FetchOptions): Promise<void> {
         contract.chain,
         contract.address,
         contract.isProxy
-      ) as AbiEntry[]
+      )
 
       if (!Array.isArray(abi) || abi.length === 0) {
         console.warn(`⚠️  Warning: No ABI found for ${contract.name}`)
@@ -61,6 +78,18 @@ export async function fetchCommand(options: FetchOptions): Promise<void> {
         continue
       }
 
+      // Etherscan returns whatever was verified; don't generate code from a malformed ABI
+      const { valid, diagnostics } = validateAbi(abi)
+      if (diagnostics.length > 0) {
+        console.log(`${valid ? '⚠️  ABI warnings' : '❌ Invalid ABI'} for ${contract.name}:`)
+        console.log(formatDiagnostics(diagnostics))
+      }
+      if (!valid) {
+        firstError = firstError ?? new InvalidAbiError(`Invalid ABI for ${contract.name}`, { contractName: contract.name, diagnostics })
+        errorCount++
+        continue
+      }
+
       // Create ABI item for generation
       const now = new Date().toISOString()
       abiItems.push({
@@ -71,7 +100,7 @@ export async function fetchCommand(options: FetchOptions): Promise<void> {
         version: 1,  // Default version for fetched contracts
         chainId: contract.chain,
         address: contract.address,
-        abi,
+        abi: abi as AbiEntry[],  // Validated above
         deployedAt: now,
         pushedAt: now,
         abiHash: '',  // Not calculated for fetch
@@ -83,16 +112,22 @@ export async function fetchCommand(options: FetchOptions): Promise<void> {
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown error'
       console.error(`❌ Failed to fetch ${contract.name}: ${message}`)
+      firstError = firstError ?? error
       errorCount++
     }
   }
 
+  let selected = annotateStandards(abiItems)
+  if (standards && standards.length > 0) {
+    selected = filterByStandards(selected, standards)
+    console.log(`\n🔎 ${selected.length} of ${abiItems.length} contract(s) implement ${standards.join(' or ')}`)
+  }
+
   // Generate files locally
-  if (abiItems.length > 0) {
+  if (selected.length > 0) {
     console.log(`\n📝 Generating ${js ? 'JavaScript' : 'TypeScript'} files in ./${outDir}...`)
 
-    const generator = new CodeGenerator(!js) // Pass boolean for typescript
-    const generatedFiles = generator.generateFiles(abiItems)
+    const generatedFiles = generator.generateFiles(selected)
 
     // Create output directory
     await fs.mkdir(outDir, { recursive: true })
@@ -100,6 +135,7 @@ export async function fetchCommand(options: FetchOptions): Promise<void> {
     // Write all generated files
     for (const file of generatedFiles) {
       const filePath = path.join(outDir, file.path)
+      await fs.mkdir(path.dirname(filePath), { recursive: true })
       await fs.writeFile(filePath, file.content, 'utf-8')
       console.log(`  ✓ ${file.path}`)
     }
@@ -109,7 +145,8 @@ export async function fetchCommand(options: FetchOptions): Promise<void> {
   console.log(`💡 Files generated in ./${outDir}/ - ready to use!`)
 
   if (errorCount > 0) {
-    process.exit(1)
+    // Exit code reflects the first failure so scripts can tell e.g. rate limiting from bad input
+    process.exit(getExitCode(firstError))
   }
 }
 
@@ -52,7 +52,7 @@ export async function foundryPushCommand(options: FoundryPushOptions): Promise<v
     const abiLoader = new AbiLoaderService(fs)
     const broadcastParser = new BroadcastParserService(fs)
     const broadcastDiscovery = new BroadcastDiscoveryService(fs)
-    const client = new AbiRegistry({ apiKey: options.apiKey })
+    const client = new AbiRegistry({ apiKey: options.apiKey, baseUrl: options.baseUrl })
 
     const foundryService = new FoundryService({
         client,
@@ -4,6 +4,11 @@ import { loadConfig, validateConfig, createConfigFile, createFoundryConfigFile,
 import { pullCommand } from './pull'
 import { fetchCommand } from './fetch'
 import { foundryPushCommand } from './foundry'
+import { diffCommand } from './diff'
+import { decodeCommand } from './decode'
+import { decodeLogsCommand } from './decodeLogs'
+import { EXIT_CODES, getExitCode } from './exit'
+import type { GeneratorTarget } from '../types'
 
 const args = process.argv.slice(2)
 
@@ -19,9 +24,18 @@ Commands:
   pull                Pull ABIs from registry and generate files (API key required)
   foundry             Push Foundry deployment artifacts from broadcast folder (API key required)
   foundry init        Create Foundry-specific config file (abiregistry.config.json)
+  diff                Compare a local ABI with the registry and report breaking changes (API key required)
+  decode <hex>        Decode calldata, return data or revert data against registry ABIs (API key required)
+  decode-logs <file>  Decode event logs (eth_getLogs JSON) against registry ABIs (API key required)
   init                Create a general config file (abiregistry.config.json)
   help                Show this help message
 
+Exit Codes:
+  0 success, 1 unexpected error, 2 configuration error, 3 authentication failed,
+  4 not found, 5 duplicate ABI, 6 rate limited, 7 network error, 8 invalid artifact,
+  9 invalid broadcast, 10 unsupported chain, 11 other API error, 12 lockfile mismatch,
+  13 breaking ABI changes (diff, foundry with onBreakingChange), 14 invalid ABI
+
 Fetch Options (Etherscan → Local files):
   --chain <id>        Chain ID (1=mainnet, 11155111=sepolia, 137=polygon, etc.)
   --address <addr>    Contract address (proxy or implementation)
@@ -29,12 +43,24 @@ Fetch Options (Etherscan → Local files):
   --proxy             If set, fetch implementation ABI for proxy contracts
   --out <dir>         Output directory (default: abiregistry)
   --js                Generate JavaScript instead of TypeScript
+  --target <name>     Also generate viem, ethers or wagmi bindings, or solidity interfaces (default: none)
+  --plugins <names>   Generators to run instead of the default, e.g. solidity or default,viem
+  --human-readable    Also export each ABI as Solidity-style signatures (<Name>HumanReadableAbi)
+  --standard <ids>    Only generate contracts implementing one of these standards (e.g. ERC20,ERC4626)
   
   Or use contracts array in abiregistry.config.json with isProxy: true
 
 Pull Options (Registry → Local files):
   --out <dir>         Output directory (default: abiregistry)
   --js                Generate JavaScript instead of TypeScript
+  --target <name>     Also generate viem, ethers or wagmi bindings, or solidity interfaces (default: none)
+  --plugins <names>   Generators to run instead of the default, e.g. solidity or default,viem
+  --human-readable    Also export each ABI as Solidity-style signatures (<Name>HumanReadableAbi)
+  --standard <ids>    Only generate contracts implementing one of these standards (e.g. ERC20,ERC4626)
+  --offline           Generate from the local cache without contacting the registry
+  --no-cache          Don't read or update the local cache (node_modules/.cache/abiregistry)
+  --frozen            Generate exactly the versions in abiregistry.lock.json (fails if out of date)
+  --update            Ignore abiregistry.lock.json and lock the latest versions
 
 Foundry Options (Broadcast → Registry):
   --script <dir>      Script directory name in broadcast/ (required unless set in config)
@@ -42,6 +68,24 @@ Foundry Options (Broadcast → Registry):
   --label <text>      Optional label for this deployment (e.g., "Initial", "Post-Audit")
   --yes, -y           Skip confirmation prompt
 
+Diff Options (Local ABI ↔ Registry):
+  --contract <name>   Foundry contract in out/ (also used to find the registry ABI)
+  --abi <path>        Local ABI or artifact JSON file instead of out/
+  --chain <id>        Chain ID of the deployment to compare with
+  --address <addr>    Address of the deployment to compare with
+  --against <ver>     Registry version number or label (default: latest)
+
+Decode Options (Hex → Arguments):
+  --contract <name>   Only decode against this contract's ABIs
+  --chain <id>        Only decode against deployments on this chain
+  --address <addr>    Only decode against this deployment
+  --function <name>   Decode the data as this function's return values
+  --offline           Use the ABIs from the last pull (local cache)
+
+Decode Logs Options (eth_getLogs JSON → Events):
+  --chain <id>        Chain the logs came from (prefers ABIs deployed there)
+  --offline           Use the ABIs from the last pull (local cache)
+
 Configuration:
   You can create a config file to avoid passing options every time:
   
@@ -51,8 +95,9 @@ Configuration:
   
   Environment variables:
     ABI_REGISTRY_API_KEY      Your API key (required for push/pull, NOT needed for fetch)
+    ABI_REGISTRY_URL          Registry endpoint for self-hosted/staging servers (optional)
 
-  Optional settings (outDir, contracts) can be in abiregistry.config.json
+  Optional settings (outDir, contracts, registry) can be in abiregistry.config.json
 
 Examples:
   # Fetch ABI from Etherscan and generate local files (NO API key needed)
@@ -67,9 +112,36 @@ Examples:
   # Pull ABIs from registry and generate TypeScript files (API key required)
   npx abiregistry pull
 
+  # Also export human-readable ABIs for audit reviews
+  npx abiregistry pull --human-readable
+
+  # Generate only the vaults and tokens among the registry ABIs
+  npx abiregistry pull --standard ERC4626,ERC20
+
+  # Generate typed viem contract factories alongside the ABIs
+  npx abiregistry pull --target viem
+
+  # Generate typed ethers v6 contracts alongside the ABIs
+  npx abiregistry pull --target ethers
+
+  # Generate wagmi React hooks for each contract
+  npx abiregistry pull --target wagmi
+
+  # Generate only Solidity interfaces (IVault.sol, ...) into your contracts tree
+  npx abiregistry pull --plugins solidity --out src/interfaces
+
   # Setup Foundry integration (REQUIRED before using foundry command)
   npx abiregistry foundry init  # Creates abiregistry.config.json
 
+  # Check a rebuilt contract for breaking changes against the registry
+  npx abiregistry diff --contract MyToken --chain 1
+
+  # Find which contract a transaction called and decode its arguments
+  npx abiregistry decode 0xa9059cbb000000000000000000000000...
+
+  # Decode logs saved from eth_getLogs
+  npx abiregistry decode-logs logs.json --chain 1
+
   # Push Foundry deployment artifacts (API key required, config file required)
   npx abiregistry foundry                # Pushes all scripts from config
   npx abiregistry foundry --label "v1.0" # With custom label
@@ -136,6 +208,10 @@ async function main() {
             await fetchCommand({
                 outDir,
                 js: options.js === true,
+                target: typeof options.target === 'string' ? options.target as GeneratorTarget : undefined,
+                plugins: typeof options.plugins === 'string' ? options.plugins.split(',') : undefined,
+                humanReadableAbi: options['human-readable'] === true,
+                standards: typeof options.standard === 'string' ? options.standard.split(',') : undefined,
                 contracts: config.contracts,
                 chain,
                 address,
@@ -149,7 +225,7 @@ async function main() {
                 console.error('❌ Configuration errors:')
                 validation.errors.forEach((error) => console.error(`  - ${error}`))
                 console.error('\nRun "npx abiregistry help" for usage information')
-                process.exit(1)
+                process.exit(EXIT_CODES.CONFIGURATION_ERROR)
             }
 
             if (command === 'foundry') {
@@ -160,7 +236,7 @@ async function main() {
                     console.error('Create one with:')
                     console.error('  npx abiregistry foundry init\n')
                     console.error('Then edit abiregistry.config.json with your deploy script names.')
-                    process.exit(1)
+                    process.exit(EXIT_CODES.CONFIGURATION_ERROR)
                 }
 
                 const scriptDir = typeof options.script === 'string' ? options.script : undefined
@@ -170,16 +246,59 @@ async function main() {
 
                 await foundryPushCommand({
                     apiKey: config.apiKey!,
+                    baseUrl: config.baseUrl,
                     scriptDir,
                     filename,
                     label,
                     yes,
                 })
+            } else if (command === 'diff') {
+                await diffCommand({
+                    apiKey: config.apiKey!,
+                    baseUrl: config.baseUrl,
+                    contract: typeof options.contract === 'string' ? options.contract : undefined,
+                    abi: typeof options.abi === 'string' ? options.abi : undefined,
+                    chain: typeof options.chain === 'string' ? parseInt(options.chain, 10) : undefined,
+                    address: typeof options.address === 'string' ? options.address : undefined,
+                    against: typeof options.against === 'string' ? options.against : undefined,
+                })
+            } else if (command === 'decode') {
+                await decodeCommand({
+                    apiKey: config.apiKey!,
+                    baseUrl: config.baseUrl,
+                    data: args[1] && !args[1].startsWith('--') ? args[1] : undefined,
+                    contract: typeof options.contract === 'string' ? options.contract : undefined,
+                    chain: typeof options.chain === 'string' ? parseInt(options.chain, 10) : undefined,
+                    address: typeof options.address === 'string' ? options.address : undefined,
+                    function: typeof options.function === 'string' ? options.function : undefined,
+                    offline: options.offline === true,
+                    cache: options['no-cache'] !== true,
+                })
+            } else if (command === 'decode-logs') {
+                await decodeLogsCommand({
+                    apiKey: config.apiKey!,
+                    baseUrl: config.baseUrl,
+                    file: args[1] && !args[1].startsWith('--') ? args[1] : undefined,
+                    chain: typeof options.chain === 'string' ? parseInt(options.chain, 10) : undefined,
+                    offline: options.offline === true,
+                    cache: options['no-cache'] !== true,
+                })
             } else if (command === 'pull') {
                 await pullCommand({
                     apiKey: config.apiKey!,
+                    baseUrl: config.baseUrl,
                     outDir: config.outDir,
                     typescript: options.js !== true, // --js flag disables TypeScript
+                    target: typeof options.target === 'string' ? options.target as GeneratorTarget : undefined,
+                    cache: options['no-cache'] !== true,
+                    offline: options.offline === true,
+                    frozen: options.frozen === true,
+                    update: options.update === true,
+                    humanReadableAbi: options['human-readable'] === true,
+                    standards: typeof options.standard === 'string' ? options.standard.split(',') : undefined,
+                    interfaces: config.registry?.interfaces,
+                    plugins: typeof options.plugins === 'string' ? options.plugins.split(',') : config.registry?.plugins,
+                    select: config.registry?.contracts,
                 })
             } else {
                 console.error(`❌ Unknown command: ${command}`)
@@ -190,7 +309,7 @@ async function main() {
     } catch (error) {
         const message = error instanceof Error ? error.message : 'Unknown error'
         console.error(`❌ Error: ${message}`)
-        process.exit(1)
+        process.exit(getExitCode(error))
     }
 }
 
@@ -0,0 +1,47 @@
+import * as path from 'path'
+import { pathToFileURL } from 'url'
+import { GENERATOR_TARGETS } from '../generator'
+import { ConfigurationError } from '../errors'
+import type { GeneratorPlugin, GeneratorTarget } from '../types'
+
+/**
+ * Resolve `registry.plugins` from abiregistry.config.json
+ * Built-in plugins are listed by name; anything else is a module path (relative to cwd) or package name
+ * whose default or `plugin` export is a GeneratorPlugin
+ */
+export async function loadPlugins(specs: string[], cwd = process.cwd()): Promise<Array<GeneratorTarget | GeneratorPlugin>> {
+  const plugins: Array<GeneratorTarget | GeneratorPlugin> = []
+
+  for (const spec of specs) {
+    if (GENERATOR_TARGETS.includes(spec as GeneratorTarget)) {
+      plugins.push(spec as GeneratorTarget)
+      continue
+    }
+
+    const specifier = spec.startsWith('.') || path.isAbsolute(spec) ? pathToFileURL(path.resolve(cwd, spec)).href : spec
+    let loaded: Record<string, unknown>
+    try {
+      loaded = await import(specifier)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      throw new ConfigurationError(`Failed to load plugin "${spec}": ${message}`)
+    }
+
+    // CommonJS modules arrive wrapped in `default`
+    const wrapped = loaded.default as Record<string, unknown> | undefined
+    const plugin = [loaded.default, loaded.plugin, wrapped?.default, wrapped?.plugin].find(isGeneratorPlugin)
+    if (!plugin) {
+      throw new ConfigurationError(`Plugin "${spec}" must export a generator plugin ({ name, generate }) as default or as "plugin"`)
+    }
+    plugins.push(plugin)
+  }
+
+  return plugins
+}
+
+function isGeneratorPlugin(value: unknown): value is GeneratorPlugin {
+  return typeof value === 'object' && value !== null &&
+    typeof (value as GeneratorPlugin).name === 'string' &&
+    typeof (value as GeneratorPlugin).generate === 'function' &&
+    ((value as GeneratorPlugin).exports === undefined || Array.isArray((value as GeneratorPlugin).exports))
+}
@@ -1,26 +1,64 @@
 import { AbiRegistry } from '../client'
+import type { AbiEntry, AbiSelection, GeneratorTarget } from '../types'
+import { getExitCode } from './exit'
+import { FileSystemService } from './services/FileSystemService'
+import { AbiLoaderService } from './services/AbiLoaderService'
+import { loadPlugins } from './plugins'
 
 type PullOptions = {
   apiKey: string
+  baseUrl?: string
   outDir?: string
   typescript?: boolean
+  target?: GeneratorTarget
+  cache?: boolean
+  offline?: boolean
+  frozen?: boolean
+  update?: boolean
+  humanReadableAbi?: boolean
+  standards?: string[]
+  interfaces?: string[]
+  plugins?: string[]
+  select?: AbiSelection[]
 }
 
 export async function pullCommand(options: PullOptions): Promise<void> {
-  const { apiKey, outDir = 'abiregistry', typescript = true } = options
+  const { apiKey, baseUrl, outDir = 'abiregistry', typescript = true, target, cache = true, offline = false, frozen = false, update = false, humanReadableAbi = false, standards, interfaces = [], plugins, select } = options
 
-  console.log(`📦 Pulling ABIs from registry...`)
+  console.log(offline ? `📦 Generating ABIs from local cache (offline)...` : `📦 Pulling ABIs from registry...`)
 
   // Initialize client
   const client = new AbiRegistry({
     apiKey,
+    baseUrl,
+    cache,
   })
 
   try {
+    // Interface artifacts from out/, for ERC-165 interface IDs
+    const abiLoader = new AbiLoaderService(new FileSystemService())
+    const interfaceAbis: Record<string, AbiEntry[]> = {}
+    for (const name of interfaces) {
+      interfaceAbis[name] = await abiLoader.loadContractAbi(name)
+    }
+
+    // Plugins from abiregistry.config.json, loaded before contacting the registry so a bad path fails fast
+    const generatorPlugins = plugins ? await loadPlugins(plugins) : undefined
+
     // Pull and generate files
     const files = await client.pullAndGenerate({
       outDir,
       typescript,
+      target,
+      plugins: generatorPlugins,
+      offline,
+      select,
+      lockfile: true,
+      frozen,
+      update,
+      humanReadableAbi,
+      standards,
+      interfaces: interfaceAbis,
     })
 
     if (files.length === 0) {
@@ -36,7 +74,7 @@ export async function pullCommand(options: PullOptions): Promise<void> {
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error'
     console.error(`❌ Failed to pull ABIs: ${message}`)
-    process.exit(1)
+    process.exit(getExitCode(error))
   }
 }
 
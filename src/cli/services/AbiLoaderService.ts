@@ -1,5 +1,6 @@
 import type { FileSystemService } from './FileSystemService'
 import type { AbiEntry } from '../../types'
+import { InvalidArtifactError } from '../../errors'
 
 /**
  * Service for loading ABIs from Foundry artifacts
@@ -21,25 +22,36 @@ export class AbiLoaderService {
             const artifact = JSON.parse(content)
 
             if (!artifact.abi || !Array.isArray(artifact.abi)) {
-                throw new Error('Invalid artifact format: missing or invalid ABI field')
+                throw new InvalidArtifactError(
+                    `Failed to load ABI for ${contractName}: Invalid artifact format: missing or invalid ABI field`,
+                    { contractName, path: abiPath }
+                )
             }
 
             return artifact.abi as AbiEntry[]
         } catch (error) {
+            if (error instanceof InvalidArtifactError) {
+                throw error
+            }
+
             if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-                throw new Error(
+                throw new InvalidArtifactError(
                     `Could not find ABI file for contract ${contractName}.\n` +
                     `Expected location: ${abiPath}\n\n` +
                     `Make sure:\n` +
                     `  1. Contracts are compiled: run 'forge build'\n` +
                     `  2. You're in the Foundry project root directory\n` +
                     `  3. The out/ folder exists with compiled artifacts\n\n` +
-                    `Foundry creates: out/${contractName}.sol/${contractName}.json`
+                    `Foundry creates: out/${contractName}.sol/${contractName}.json`,
+                    { contractName, path: abiPath }
                 )
             }
 
             const message = error instanceof Error ? error.message : 'Unknown error'
-            throw new Error(`Failed to load ABI for ${contractName}: ${message}`)
+            throw new InvalidArtifactError(`Failed to load ABI for ${contractName}: ${message}`, {
+                contractName,
+                path: abiPath,
+            })
         }
     }
 }
@@ -1,4 +1,5 @@
 import type { FileSystemService } from './FileSystemService'
+import { InvalidBroadcastError } from '../../errors'
 
 export interface FoundryTransaction {
     transactionType: 'CREATE' | 'CALL'
@@ -35,14 +36,21 @@ export class BroadcastParserService {
 
     async parseBroadcastFile(filePath: string): Promise<FoundryBroadcast> {
         const content = await this.fs.readFile(filePath)
-        const broadcast = JSON.parse(content) as FoundryBroadcast
+
+        let broadcast: FoundryBroadcast
+        try {
+            broadcast = JSON.parse(content) as FoundryBroadcast
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error'
+            throw new InvalidBroadcastError(`Invalid broadcast file: ${message}`, { path: filePath })
+        }
 
         if (!broadcast.transactions || !Array.isArray(broadcast.transactions)) {
-            throw new Error('Invalid broadcast file: missing transactions array')
+            throw new InvalidBroadcastError('Invalid broadcast file: missing transactions array', { path: filePath })
         }
 
         if (!broadcast.chain) {
-            throw new Error('Invalid broadcast file: missing chain ID')
+            throw new InvalidBroadcastError('Invalid broadcast file: missing chain ID', { path: filePath })
         }
 
         return broadcast
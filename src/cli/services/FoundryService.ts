@@ -1,6 +1,11 @@
 import type { AbiRegistry } from '../../client'
-import type { PushAbiInput } from '../../types'
+import type { AbiItem, PushAbiInput, PushManyResult } from '../../types'
 import { calculateAbiHash } from '../../utils/hash'
+import { formatSignature, getInterfaceId } from '../../utils/signature'
+import { diffAbis, type AbiChange } from '../../diff'
+import { normalizeAbi } from '../../humanReadable'
+import { formatDiagnostics, validateAbi } from '../../validation'
+import { AbiRegistryError, BreakingChangeError, ConfigurationError, InvalidAbiError } from '../../errors'
 import type { FileSystemService } from './FileSystemService'
 import type { AbiLoaderService } from './AbiLoaderService'
 import type { BroadcastParserService, FoundryTransaction, ProxyMapping } from './BroadcastParserService'
@@ -18,10 +23,12 @@ export interface FoundryConfig {
         }>
     }>
     scriptDir?: string  // Legacy
+    onBreakingChange?: 'warn' | 'fail' | 'require-label'
 }
 
 export interface FoundryPushOptions {
     apiKey: string
+    baseUrl?: string
     scriptDir?: string
     filename?: string
     label?: string
@@ -72,8 +79,20 @@ export class FoundryService {
             return
         }
 
+        // Nothing is compared, confirmed or uploaded unless every ABI is valid
+        this.validateAbis(allAbis)
+
+        // Compare with the registry's latest versions when a breaking-change policy is configured
+        const breakingChanges = foundryConfig.onBreakingChange
+            ? await this.findBreakingChanges(allAbis)
+            : null
+
         // Show confirmation table
-        this.showConfirmationTable(allAbis)
+        this.showConfirmationTable(allAbis, breakingChanges)
+
+        if (breakingChanges && breakingChanges.size > 0) {
+            this.enforceBreakingChangePolicy(foundryConfig.onBreakingChange!, breakingChanges, label)
+        }
 
         // Ask for confirmation unless --yes flag is provided
         if (!options.yes) {
@@ -101,7 +120,7 @@ export class FoundryService {
             // Fallback to legacy scriptDir
             return [foundryConfig.scriptDir]
         } else {
-            throw new Error(
+            throw new ConfigurationError(
                 'Script directory is required.\n' +
                 'Provide it via --script flag or set "foundry.scripts" in abiregistry.config.json'
             )
@@ -128,7 +147,7 @@ export class FoundryService {
             return []
         }
 
-        this.logBroadcastPaths(broadcastPaths, scriptDir)
+        this.logBroadcastPaths(broadcastPaths)
 
         const allAbis: PushAbiInput[] = []
 
@@ -141,7 +160,7 @@ export class FoundryService {
         return allAbis
     }
 
-    private logBroadcastPaths(broadcastPaths: string[], scriptDir: string): void {
+    private logBroadcastPaths(broadcastPaths: string[]): void {
         if (broadcastPaths.length > 1) {
             console.log(`   📂 Found ${broadcastPaths.length} deployment(s):`)
             for (const p of broadcastPaths) {
@@ -324,6 +343,7 @@ export class FoundryService {
                     for (const interfaceName of contractConfig.proxy.interfaces) {
                         console.log(`         📚 Loading interface: ${interfaceName}`)
                         const interfaceAbi = await this.deps.abiLoader.loadContractAbi(interfaceName)
+                        console.log(`            ERC-165 interfaceId: ${getInterfaceId(interfaceAbi)}`)
                         abi = this.mergeAbis(abi, interfaceAbi)
                     }
                     
@@ -362,6 +382,37 @@ export class FoundryService {
         }
     }
 
+    /**
+     * Report validation diagnostics for every ABI, then fail if any has errors
+     */
+    private validateAbis(allAbis: PushAbiInput[]): void {
+        const invalid: PushAbiInput[] = []
+        const errors = []
+
+        for (const input of allAbis) {
+            const { valid, diagnostics } = validateAbi(input.abi)
+            if (diagnostics.length === 0) {
+                continue
+            }
+
+            console.log(`\n${valid ? '⚠️  ABI warnings' : '❌ Invalid ABI'} for ${input.contractName} (chain ${input.chainId}):`)
+            console.log(formatDiagnostics(diagnostics))
+
+            if (!valid) {
+                invalid.push(input)
+                errors.push(...diagnostics.filter((diagnostic) => diagnostic.severity === 'error'))
+            }
+        }
+
+        if (invalid.length > 0) {
+            const names = invalid.map((input) => input.contractName)
+            throw new InvalidAbiError(
+                `${invalid.length} ABI(s) failed validation (${names.join(', ')}). Fix the contracts, rebuild with 'forge build' and retry.`,
+                { contractName: names.join(', '), diagnostics: errors }
+            )
+        }
+    }
+
     /**
      * Merge two ABIs, removing duplicates based on function/event signatures
      * Used for EIP-2535 Diamond contracts that combine multiple interfaces
@@ -391,21 +442,79 @@ export class FoundryService {
     }
 
     /**
-     * Get a unique signature for an ABI item (function or event)
+     * Get a unique signature for an ABI item (function, event or error)
+     * Tuples are expanded so overloads taking different structs don't collide
      */
     private getAbiItemSignature(item: any): string | null {
-        if (item.type === 'function') {
-            const inputs = item.inputs?.map((i: any) => i.type).join(',') || ''
-            return `function:${item.name}(${inputs})`
-        } else if (item.type === 'event') {
-            const inputs = item.inputs?.map((i: any) => i.type).join(',') || ''
-            return `event:${item.name}(${inputs})`
+        if (item.type === 'function' || item.type === 'event' || item.type === 'error') {
+            return `${item.type}:${formatSignature(item)}`
         }
         // For constructor, fallback, receive - include them all as they're rare
         return null
     }
 
-    private showConfirmationTable(allAbis: PushAbiInput[]): void {
+    /**
+     * Diff each outgoing ABI against the registry's latest version of the same deployment,
+     * falling back to the same contract name (preferring the same chain) for new addresses
+     * Returns only the ABIs that have breaking changes
+     */
+    private async findBreakingChanges(allAbis: PushAbiInput[]): Promise<Map<PushAbiInput, AbiChange[]>> {
+        console.log('\n🔎 Checking for breaking changes against the registry...')
+
+        const breakingChanges = new Map<PushAbiInput, AbiChange[]>()
+
+        for (const input of allAbis) {
+            const latest = await this.findLatestVersion(input)
+            if (!latest) {
+                continue
+            }
+
+            const changes = diffAbis(latest.abi, normalizeAbi(input.abi)).changes.filter((change) => change.breaking)
+            if (changes.length > 0) {
+                breakingChanges.set(input, changes)
+            }
+        }
+
+        return breakingChanges
+    }
+
+    private async findLatestVersion(input: PushAbiInput): Promise<AbiItem | null> {
+        const sameDeployment = await this.deps.client.getLatest(input.chainId, input.address)
+        if (sameDeployment) {
+            return sameDeployment
+        }
+
+        const { abis } = await this.deps.client.query({ contractName: input.contractName, isLatest: true })
+        return abis.find((abi) => abi.chainId === input.chainId) || abis[0] || null
+    }
+
+    private enforceBreakingChangePolicy(
+        policy: 'warn' | 'fail' | 'require-label',
+        breakingChanges: Map<PushAbiInput, AbiChange[]>,
+        label?: string
+    ): void {
+        if (policy === 'warn' || (policy === 'require-label' && label)) {
+            console.log(`\n⚠️  ${breakingChanges.size} ABI(s) contain breaking changes`)
+            return
+        }
+
+        const contracts = Array.from(breakingChanges.entries()).map(([input, changes]) => ({
+            contractName: input.contractName,
+            chainId: input.chainId,
+            address: input.address,
+            changes: changes.map((change) => `${change.kind} ${change.signature}`),
+        }))
+        const names = contracts.map((c) => `${c.contractName} (chain ${c.chainId})`).join(', ')
+
+        throw new BreakingChangeError(
+            policy === 'fail'
+                ? `Refusing to push breaking changes for: ${names}`
+                : `Breaking changes for ${names} require a label. Re-run with --label "<reason>"`,
+            { contracts }
+        )
+    }
+
+    private showConfirmationTable(allAbis: PushAbiInput[], breakingChanges: Map<PushAbiInput, AbiChange[]> | null = null): void {
         console.log('\n📋 ABIs ready to push:\n')
 
         // Group ABIs by network
@@ -423,46 +532,79 @@ export class FoundryService {
             console.log(`\n🔗 ${network.toUpperCase()}`)
             console.log(`   ${abis.length} contract(s)\n`)
 
-            const tableRows = abis.map((abi) => [
-                abi.contractName,
-                abi.address.substring(0, 10) + '...',
-                abi.label || '(no label)',
-                `${abi.abi.length} entries`,
-            ])
+            const tableRows = abis.map((abi) => {
+                const row = [
+                    abi.contractName,
+                    abi.address.substring(0, 10) + '...',
+                    abi.label || '(no label)',
+                    `${abi.abi.length} entries`,
+                ]
+                if (breakingChanges) {
+                    const count = breakingChanges.get(abi)?.length || 0
+                    row.push(count > 0 ? `⚠️  ${count} breaking` : 'none')
+                }
+                return row
+            })
 
             this.deps.displayTable(
-                ['Contract', 'Address', 'Label', 'ABI Size'],
+                breakingChanges
+                    ? ['Contract', 'Address', 'Label', 'ABI Size', 'Breaking Changes']
+                    : ['Contract', 'Address', 'Label', 'ABI Size'],
                 tableRows
             )
         }
 
         console.log(`\n📊 Total: ${allAbis.length} ABI(s) across ${abisByNetwork.size} chain(s)`)
+
+        if (breakingChanges && breakingChanges.size > 0) {
+            console.log('\n⚠️  Breaking changes compared to the latest registry version:')
+            for (const [abi, changes] of breakingChanges) {
+                console.log(`\n   ${abi.contractName} (chain ${abi.chainId})`)
+                for (const change of changes) {
+                    console.log(`     - ${change.kind} ${change.entryType} ${change.signature}: ${change.reasons.join('; ')}`)
+                }
+            }
+        }
     }
 
     private async pushToRegistry(allAbis: PushAbiInput[]): Promise<void> {
         console.log(`\n🚀 Pushing ${allAbis.length} ABI(s) to registry...`)
 
+        // pushMany reports every item, so one failure doesn't leave the rest of the deployment unpushed
+        const results = await this.deps.client.pushMany(allAbis)
+
         let newCount = 0
         let duplicateCount = 0
-
-        try {
-            for (const abi of allAbis) {
-                const result = await this.deps.client.push(abi)
-                if (result.isDuplicate) {
-                    console.log(`  ⏭️  ${abi.contractName} - Skipped (duplicate)`)
-                    duplicateCount++
-                } else {
-                    console.log(`  ✅ ${abi.contractName} - Pushed (new version)`)
-                    newCount++
-                }
+        const failures: PushManyResult[] = []
+
+        for (const result of results) {
+            const name = result.input.contractName
+            if (result.status === 'failed') {
+                console.error(`  ❌ ${name} (chain ${result.input.chainId}) - Failed: ${result.error?.message || 'Unknown error'}`)
+                failures.push(result)
+            } else if (result.status === 'duplicate') {
+                console.log(`  ⏭️  ${name} - Skipped (duplicate)`)
+                duplicateCount++
+            } else {
+                console.log(`  ✅ ${name} - Pushed (new version)`)
+                newCount++
             }
+        }
 
+        if (failures.length === 0) {
             console.log('\n✅ Push complete!')
             console.log(`📊 Summary: ${newCount} new, ${duplicateCount} duplicates skipped`)
-        } catch (error) {
-            const message = error instanceof Error ? error.message : 'Unknown error'
-            throw new Error(`Failed to push ABIs: ${message}`)
+            return
         }
+
+        console.log(`\n📊 Summary: ${newCount} new, ${duplicateCount} duplicates skipped, ${failures.length} failed`)
+
+        // Surface the typed error when every failure has the same cause, so the CLI exit code stays meaningful
+        const firstError = failures[0].error
+        const sameCause = failures.every((f) => f.error?.constructor === firstError?.constructor)
+        if (sameCause && firstError instanceof AbiRegistryError) {
+            throw firstError
+        }
+        throw new Error(`Failed to push ${failures.length} of ${allAbis.length} ABI(s)`)
     }
 }
-
@@ -1,45 +1,85 @@
 import * as fs from 'fs'
 import * as path from 'path'
-import type { AbiRegistryConfig, PushAbiInput, AbiItem, ApiResponse, PullOptions, GeneratedFile } from './types'
+import { randomUUID } from 'crypto'
+import type { AbiRegistryConfig, PushAbiInput, PushResult, PushManyOptions, PushManyResult, AbiItem, AbiQuery, AbiQueryResult, ApiResponse, PullOptions, GeneratedFile, FetchLike, RetryOptions } from './types'
 import { CodeGenerator } from './generator'
+import { AbiRegistryError, ConfigurationError, LockfileError, createApiError, NetworkError, RateLimitError } from './errors'
+import { AbiCache } from './cache'
+import { LOCKFILE_NAME, createLockfile, deploymentKey, readLockfile, resolveLockfile, selectLatest, writeLockfile, type LockEntry, type Lockfile } from './lockfile'
+import { selectAbis } from './selection'
+import { annotateStandards, filterByStandards } from './standards'
+import { assertValidAbi } from './validation'
+import { normalizeAbi } from './humanReadable'
+import { ABI_HASH_VERSION, calculateAbiHash, calculateLegacyAbiHash } from './utils/hash'
+import { buildQueryString, matchesQuery } from './utils/query'
+import { chunk, mapWithConcurrency } from './utils/concurrency'
+import { resolveRetryOptions, isRetryableStatus, getBackoffDelay, parseRetryAfter, sleep } from './utils/retry'
+
+export const DEFAULT_BASE_URL = 'https://abiregistry.com'
+export const DEFAULT_TIMEOUT = 30_000
+export const DEFAULT_BATCH_CHUNK_SIZE = 25
+export const DEFAULT_BATCH_CONCURRENCY = 4
+
+/**
+ * Registry response with its body already read, so the request timeout covers the whole exchange
+ * json() settles with the parsed body or the error reading it
+ */
+type RegistryResponse = Pick<Response, 'ok' | 'status' | 'statusText' | 'headers' | 'json'>
+
+type ResponseBody = { ok: true; value: unknown } | { ok: false; error: unknown }
 
 export class AbiRegistry {
     private apiKey: string
-    private readonly baseUrl = 'https://abiregistry.com'
+    private readonly baseUrl: string
+    private readonly headers: Record<string, string>
+    private readonly timeout: number
+    private readonly fetchFn: FetchLike
+    private readonly retry: Required<RetryOptions>
+    private readonly cache: AbiCache | null
+    private batchSupported = true
 
     constructor(config: AbiRegistryConfig) {
         this.apiKey = config.apiKey
+        this.baseUrl = (config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '')
+        this.headers = config.headers || {}
+        this.timeout = config.timeout ?? DEFAULT_TIMEOUT
+        // Resolve global fetch lazily so it can be replaced after the client is created
+        this.fetchFn = config.fetch || ((url, init) => fetch(url, init))
+        this.retry = resolveRetryOptions(config.retry)
+        this.cache = config.cache
+            ? new AbiCache(typeof config.cache === 'object' ? config.cache.dir : undefined)
+            : null
     }
 
     /**
      * Push an ABI to the registry
      * Returns info about whether it was a new version or duplicate
+     * Retries reuse the same idempotency key, so the server stores the push at most once
+     * Human-readable ABIs are parsed to JSON before validation
+     * Throws InvalidAbiError without contacting the server when the ABI fails to parse or validate
      */
-    async push(input: PushAbiInput): Promise<{ isDuplicate: boolean; abiId: string }> {
-        const response = await fetch(`${this.baseUrl}/api/abis`, {
+    async push(input: PushAbiInput): Promise<PushResult> {
+        assertValidAbi(normalizeAbi(input.abi, input.contractName), input.contractName)
+
+        const response = await this.request('/api/abis', {
             method: 'POST',
             headers: {
                 'Content-Type': 'application/json',
-                'Authorization': `Bearer ${this.apiKey}`,
+                'Idempotency-Key': input.idempotencyKey || randomUUID(),
             },
-            body: JSON.stringify({
-                contractName: input.contractName,
-                address: input.address,
-                chainId: input.chainId,
-                network: input.network,
-                label: input.label,  // Version is auto-incremented by the server
-                deployedAt: input.deployedAt?.toISOString(),
-                abiHash: input.abiHash,
-                abi: input.abi,
-            }),
+            body: JSON.stringify(this.toPushPayload(input)),
         })
 
         if (!response.ok) {
             const data = await response.json().catch(() => ({})) as ApiResponse<unknown>
-            throw new Error(data.error || `Failed to push ABI: ${response.statusText}`)
+            throw createApiError(data.error || `Failed to push ABI: ${response.statusText}`, {
+                ...this.getErrorDetails(response, '/api/abis'),
+                contractName: input.contractName,
+                chainId: input.chainId,
+            })
         }
 
-        const data = await response.json() as ApiResponse<{ isDuplicate: boolean; abiId: string }>
+        const data = await response.json() as ApiResponse<PushResult>
         return {
             isDuplicate: data.isDuplicate || false,
             abiId: data.abiId || ''
@@ -47,23 +87,210 @@ export class AbiRegistry {
     }
 
     /**
-     * Pull all ABIs from the registry
+     * Push many ABIs in batches
+     * Never throws for individual failures: each input gets its own new/duplicate/failed result, in input order
+     * Inputs with invalid ABIs fail with InvalidAbiError and are never sent
      */
-    async pull(): Promise<AbiItem[]> {
-        const response = await fetch(`${this.baseUrl}/api/abis`, {
-            method: 'GET',
-            headers: {
-                'Authorization': `Bearer ${this.apiKey}`,
-            },
+    async pushMany(inputs: PushAbiInput[], options: PushManyOptions = {}): Promise<PushManyResult[]> {
+        const chunkSize = options.chunkSize ?? DEFAULT_BATCH_CHUNK_SIZE
+        const concurrency = options.concurrency ?? DEFAULT_BATCH_CONCURRENCY
+
+        const invalid = new Map<number, PushManyResult>()
+        inputs.forEach((input, index) => {
+            try {
+                assertValidAbi(normalizeAbi(input.abi, input.contractName), input.contractName)
+            } catch (error) {
+                invalid.set(index, this.toFailedResult(input, error))
+            }
         })
+        const valid = inputs.filter((_, index) => !invalid.has(index))
+
+        // Fix idempotency keys up front so retries of a chunk reuse them
+        const keyed = valid.map((input) => ({ ...input, idempotencyKey: input.idempotencyKey || randomUUID() }))
+
+        const chunkResults = await mapWithConcurrency(
+            chunk(keyed, chunkSize),
+            concurrency,
+            (items) => this.pushChunk(items)
+        )
+
+        // Report the caller's original inputs, not the keyed copies, with invalid inputs back in place
+        const pushed = chunkResults.flat().map((result, index) => ({ ...result, input: valid[index] }))
+        return inputs.map((_, index) => invalid.get(index) || pushed.shift()!)
+    }
+
+    /**
+     * Push one chunk through the batch endpoint
+     * Falls back to single pushes when the server has no batch endpoint
+     */
+    private async pushChunk(items: PushAbiInput[]): Promise<PushManyResult[]> {
+        if (!this.batchSupported) {
+            return this.pushEach(items)
+        }
+
+        const urlPath = '/api/abis/batch'
+        let response: RegistryResponse
+        try {
+            response = await this.request(urlPath, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Idempotency-Key': randomUUID(),  // Per-item keys travel in the body
+                },
+                body: JSON.stringify({
+                    abis: items.map((item) => ({ ...this.toPushPayload(item), idempotencyKey: item.idempotencyKey })),
+                }),
+            })
+        } catch (error) {
+            return items.map((input) => this.toFailedResult(input, error))
+        }
+
+        if (response.status === 404 || response.status === 405) {
+            this.batchSupported = false
+            return this.pushEach(items)
+        }
 
         if (!response.ok) {
             const data = await response.json().catch(() => ({})) as ApiResponse<unknown>
-            throw new Error(data.error || `Failed to pull ABIs: ${response.statusText}`)
+            const error = createApiError(
+                data.error || `Failed to push ABIs: ${response.statusText}`,
+                this.getErrorDetails(response, urlPath)
+            )
+            return items.map((input) => this.toFailedResult(input, error))
+        }
+
+        let data: ApiResponse<{
+            results?: Array<{ isDuplicate?: boolean; abiId?: string; error?: string; status?: number }>
+        }>
+        try {
+            data = await response.json() as typeof data
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error)
+            const failure = createApiError(`Failed to read batch push response: ${message}`, this.getErrorDetails(response, urlPath))
+            return items.map((input) => this.toFailedResult(input, failure))
+        }
+        const results = data.results || []
+
+        return items.map((input, index) => {
+            const result = results[index]
+            if (!result) {
+                return this.toFailedResult(input, new Error('Server returned no result for this ABI'))
+            }
+            if (result.error) {
+                return this.toFailedResult(input, createApiError(result.error, {
+                    statusCode: result.status,
+                    url: `${this.baseUrl}${urlPath}`,
+                    contractName: input.contractName,
+                    chainId: input.chainId,
+                }))
+            }
+            return {
+                input,
+                status: result.isDuplicate ? 'duplicate' : 'new',
+                abiId: result.abiId || '',
+            }
+        })
+    }
+
+    private async pushEach(items: PushAbiInput[]): Promise<PushManyResult[]> {
+        const results: PushManyResult[] = []
+        for (const input of items) {
+            try {
+                const result = await this.push(input)
+                results.push({ input, status: result.isDuplicate ? 'duplicate' : 'new', abiId: result.abiId })
+            } catch (error) {
+                results.push(this.toFailedResult(input, error))
+            }
+        }
+        return results
+    }
+
+    private toFailedResult(input: PushAbiInput, error: unknown): PushManyResult {
+        return {
+            input,
+            status: 'failed',
+            error: error instanceof Error ? error : new Error(String(error)),
         }
+    }
 
-        const data = await response.json() as ApiResponse<{ abis: AbiItem[] }>
-        return data.abis || []
+    private toPushPayload(input: PushAbiInput) {
+        const abi = normalizeAbi(input.abi, input.contractName)
+        return {
+            contractName: input.contractName,
+            address: input.address,
+            chainId: input.chainId,
+            network: input.network,
+            label: input.label,  // Version is auto-incremented by the server
+            deployedAt: input.deployedAt?.toISOString(),
+            abiHash: input.abiHash || calculateAbiHash(abi),
+            abiHashVersion: ABI_HASH_VERSION,
+            legacyAbiHash: calculateLegacyAbiHash(abi),  // Lets the server match records hashed before version 2
+            abi,
+        }
+    }
+
+    /**
+     * Pull ABIs from the registry
+     * Without filters returns every ABI; follows pagination cursors until the last page
+     */
+    async pull(query: AbiQuery = {}): Promise<AbiItem[]> {
+        // Only whole result sets are cached, so paging from an explicit cursor bypasses the cache
+        const cacheKey = this.cache && !query.cursor ? this.getCacheKey(query) : null
+        const cached = cacheKey ? this.cache!.read(cacheKey) : null
+
+        const firstPage = await this.fetchPage(query, cached?.etag ? { 'If-None-Match': cached.etag } : {})
+        if (firstPage.notModified && cached) {
+            return cached.abis
+        }
+
+        const abis: AbiItem[] = [...firstPage.abis]
+        const seenCursors = new Set<string>()
+        let cursor = firstPage.nextCursor ?? undefined
+
+        while (cursor) {
+            // Guard against a server handing back the same cursor forever
+            if (seenCursors.has(cursor)) {
+                break
+            }
+            seenCursors.add(cursor)
+
+            const page = await this.query({ ...query, cursor })
+            abis.push(...page.abis)
+            cursor = page.nextCursor ?? undefined
+        }
+
+        if (cacheKey) {
+            this.writeCache(cacheKey, firstPage.etag, abis)
+        }
+
+        return abis
+    }
+
+    /**
+     * Fetch a single page of ABIs matching the given filters
+     * Use `nextCursor` from the result to request the following page
+     */
+    async query(query: AbiQuery = {}): Promise<AbiQueryResult> {
+        const { abis, nextCursor } = await this.fetchPage(query)
+        return { abis, nextCursor }
+    }
+
+    /**
+     * Read ABIs from the on-disk cache without touching the network
+     * Uses the default cache directory when the client was created without `cache`
+     */
+    pullFromCache(query: AbiQuery = {}): AbiItem[] {
+        const cache = this.cache || new AbiCache()
+        const cached = cache.read(this.getCacheKey(query))
+
+        if (!cached) {
+            throw new AbiRegistryError(
+                `No cached ABIs found in ${cache.dir}. Run a pull while online first.`,
+                'CACHE_MISS'
+            )
+        }
+
+        return cached.abis
     }
 
     /**
@@ -73,8 +300,26 @@ export class AbiRegistry {
         const outDir = options.outDir || 'abiregistry'
         const typescript = options.typescript !== false
 
-        // Pull ABIs
-        const abis = await this.pull()
+        // Pull ABIs (or read the last pull from disk when offline)
+        let abis = options.offline ? this.pullFromCache() : await this.pull()
+        let pinned: AbiItem[] = []
+
+        if (options.select && options.select.length > 0) {
+            const selection = options.offline
+                ? await selectAbis(abis, options.select)
+                : await selectAbis(abis, options.select, this.getVersion.bind(this), this.pull.bind(this))
+            abis = selection.abis
+            pinned = selection.pinned
+        }
+
+        if (options.lockfile || options.frozen || options.update) {
+            abis = await this.applyLockfile(abis, options, pinned)
+        }
+
+        abis = annotateStandards(abis)
+        if (options.standards && options.standards.length > 0) {
+            abis = filterByStandards(abis, options.standards)
+        }
 
         if (abis.length === 0) {
             console.warn('No ABIs found in the registry')
@@ -82,7 +327,12 @@ export class AbiRegistry {
         }
 
         // Generate files
-        const generator = new CodeGenerator(typescript)
+        const generator = new CodeGenerator(typescript, {
+            target: options.target,
+            plugins: options.plugins,
+            humanReadableAbi: options.humanReadableAbi,
+            interfaces: options.interfaces,
+        })
         const files = generator.generateFiles(abis)
 
         // Write files to disk
@@ -96,6 +346,10 @@ export class AbiRegistry {
         // Write each file
         for (const file of files) {
             const filePath = path.join(fullOutDir, file.path)
+            // Plugins may write into subdirectories, e.g. docs/
+            if (file.path.includes('/')) {
+                fs.mkdirSync(path.dirname(filePath), { recursive: true })
+            }
             fs.writeFileSync(filePath, file.content, 'utf-8')
         }
 
@@ -104,28 +358,304 @@ export class AbiRegistry {
         return files
     }
 
+    /**
+     * Pin generation to the versions recorded in the lockfile
+     * Without --frozen, new deployments are added and the lockfile is rewritten
+     * Versions pinned in the selection win over the lockfile, which is updated to match
+     */
+    private async applyLockfile(abis: AbiItem[], options: PullOptions, pinned: AbiItem[] = []): Promise<AbiItem[]> {
+        const lockPath = path.resolve(
+            process.cwd(),
+            typeof options.lockfile === 'string' ? options.lockfile : LOCKFILE_NAME
+        )
+
+        if (options.frozen && options.update) {
+            throw new ConfigurationError('Cannot use --frozen and --update together')
+        }
+
+        let lock = options.update ? null : readLockfile(lockPath)
+        const lockedCount = lock?.entries.length ?? 0
+
+        if (lock && options.select && options.select.length > 0) {
+            lock = this.restrictLockfile(lock, abis, pinned, options.frozen === true)
+        }
+
+        if (!lock) {
+            if (options.frozen) {
+                throw new LockfileError(`--frozen requires ${path.basename(lockPath)}, but it does not exist`)
+            }
+            const latest = selectLatest(abis)
+            writeLockfile(lockPath, createLockfile(latest))
+            return latest
+        }
+
+        // Older locked versions aren't part of a latest-only pull, so look them up individually
+        const fetchMissing = options.offline
+            ? undefined
+            : (entry: LockEntry) => entry.version !== null
+                ? this.getVersion(entry.chainId, entry.address, entry.version)
+                : Promise.resolve(null)
+
+        const resolution = await resolveLockfile(lock, abis, fetchMissing)
+
+        if (resolution.changed.length > 0) {
+            throw new LockfileError(
+                `ABI hash changed on the registry for: ${resolution.changed.map(formatLockEntry).join(', ')}`,
+                { entries: resolution.changed }
+            )
+        }
+        if (resolution.missing.length > 0) {
+            throw new LockfileError(
+                `Locked versions not found on the registry: ${resolution.missing.map(formatLockEntry).join(', ')}. ` +
+                `Run "npx abiregistry pull --update" to refresh the lockfile.`,
+                { entries: resolution.missing }
+            )
+        }
+
+        if (options.frozen) {
+            return resolution.abis
+        }
+
+        const selected = [...resolution.abis, ...resolution.unlocked]
+        if (resolution.unlocked.length > 0 || lock.entries.length !== lockedCount) {
+            writeLockfile(lockPath, createLockfile(selected))
+        }
+        return selected
+    }
+
+    /**
+     * Drop lock entries for deployments that are no longer selected or are pinned to another version
+     */
+    private restrictLockfile(lock: Lockfile, selected: AbiItem[], pinned: AbiItem[], frozen: boolean): Lockfile {
+        const selectedDeployments = new Set(selected.map((abi) => deploymentKey(abi.chainId, abi.address)))
+        const pinnedByDeployment = new Map(pinned.map((abi) => [deploymentKey(abi.chainId, abi.address), abi]))
+
+        const entries = lock.entries.filter((entry) => selectedDeployments.has(deploymentKey(entry.chainId, entry.address)))
+        const repinned = entries.filter((entry) => {
+            const abi = pinnedByDeployment.get(deploymentKey(entry.chainId, entry.address))
+            return abi !== undefined && (abi.version ?? null) !== entry.version
+        })
+
+        if (repinned.length > 0 && frozen) {
+            throw new LockfileError(
+                `Config pins a different version than the lockfile for: ${repinned.map(formatLockEntry).join(', ')}. ` +
+                `Run "npx abiregistry pull" without --frozen to update the lockfile.`,
+                { entries: repinned }
+            )
+        }
+
+        return { ...lock, entries: entries.filter((entry) => !repinned.includes(entry)) }
+    }
+
     /**
      * Get a specific ABI by ID
      */
     async getAbi(abiId: string): Promise<AbiItem | null> {
-        const abis = await this.pull()
-        return abis.find((abi) => abi.id === abiId) || null
+        const { abis } = await this.query({ id: abiId })
+        return abis[0] || null
     }
 
     /**
      * Get ABIs filtered by network
      */
     async getByNetwork(network: string): Promise<AbiItem[]> {
-        const abis = await this.pull()
-        return abis.filter((abi) => abi.network.toLowerCase() === network.toLowerCase())
+        return this.pull({ network })
     }
 
     /**
      * Get ABIs filtered by contract address
      */
     async getByAddress(address: string): Promise<AbiItem[]> {
-        const abis = await this.pull()
-        return abis.filter((abi) => abi.address.toLowerCase() === address.toLowerCase())
+        return this.pull({ address })
+    }
+
+    /**
+     * Get every version pushed for a deployment, oldest first
+     */
+    async getVersions(chainId: number, address: string): Promise<AbiItem[]> {
+        const abis = await this.pull({ chainId, address })
+        return abis.sort((a, b) => (a.version ?? 0) - (b.version ?? 0))
+    }
+
+    /**
+     * Get a specific version of a deployment by version number or label
+     * The reserved label "latest" resolves to the current version
+     */
+    async getVersion(chainId: number, address: string, versionOrLabel: number | string): Promise<AbiItem | null> {
+        if (versionOrLabel === 'latest') {
+            return this.getLatest(chainId, address)
+        }
+
+        const filter = typeof versionOrLabel === 'number'
+            ? { version: versionOrLabel }
+            : { label: versionOrLabel }
+        const { abis } = await this.query({ chainId, address, ...filter })
+        return abis[0] || null
+    }
+
+    /**
+     * Get the current version of a deployment
+     */
+    async getLatest(chainId: number, address: string): Promise<AbiItem | null> {
+        const { abis } = await this.query({ chainId, address, isLatest: true })
+        return abis[0] || null
+    }
+
+    /**
+     * Send a request to the registry, retrying 5xx, 429 and network failures
+     * Honors Retry-After when the server provides it, otherwise backs off exponentially
+     * A Retry-After longer than retry.maxDelay fails right away instead of blocking the caller
+     */
+    private async request(urlPath: string, init: RequestInit): Promise<RegistryResponse> {
+        for (let attempt = 0; ; attempt++) {
+            let response: RegistryResponse
+            try {
+                response = await this.send(urlPath, init)
+            } catch (error) {
+                if (attempt >= this.retry.retries) {
+                    throw error
+                }
+                await sleep(getBackoffDelay(attempt, this.retry))
+                continue
+            }
+
+            if (response.ok || !isRetryableStatus(response.status) || attempt >= this.retry.retries) {
+                return response
+            }
+
+            const retryAfter = parseRetryAfter(response.headers?.get('retry-after'))
+            if (retryAfter !== null && retryAfter > this.retry.maxDelay) {
+                throw new RateLimitError(
+                    `Registry asked to retry after ${Math.ceil(retryAfter / 1000)}s, longer than the ${this.retry.maxDelay}ms retry limit`,
+                    this.getErrorDetails(response, urlPath)
+                )
+            }
+            await sleep(retryAfter ?? getBackoffDelay(attempt, this.retry))
+        }
+    }
+
+    /**
+     * Send a single request attempt
+     * Applies base URL, auth and custom headers, and aborts after the configured timeout
+     * The body is read before the timer stops, so a server stalling mid-body times out too
+     */
+    private async send(urlPath: string, init: RequestInit): Promise<RegistryResponse> {
+        const controller = new AbortController()
+        const timer = this.timeout > 0
+            ? setTimeout(() => controller.abort(), this.timeout)
+            : undefined
+
+        try {
+            const response = await this.fetchFn(`${this.baseUrl}${urlPath}`, {
+                ...init,
+                headers: {
+                    ...this.headers,
+                    ...(init.headers as Record<string, string> | undefined),
+                    'Authorization': `Bearer ${this.apiKey}`,
+                },
+                signal: controller.signal,
+            })
+            const body = await readBody(response, controller.signal)
+
+            return {
+                ok: response.ok,
+                status: response.status,
+                statusText: response.statusText,
+                headers: response.headers,
+                json: () => body.ok ? Promise.resolve(body.value) : Promise.reject(body.error),
+            }
+        } catch (error) {
+            const url = `${this.baseUrl}${urlPath}`
+            if (controller.signal.aborted) {
+                throw new NetworkError(`Request to ${url} timed out after ${this.timeout}ms`, { url, cause: error })
+            }
+            const message = error instanceof Error ? error.message : String(error)
+            throw new NetworkError(`Request to ${url} failed: ${message}`, { url, cause: error })
+        } finally {
+            if (timer) {
+                clearTimeout(timer)
+            }
+        }
+    }
+
+    /**
+     * Fetch one page, sending conditional headers when provided
+     * A 304 response is reported as `notModified` instead of an error
+     */
+    private async fetchPage(
+        query: AbiQuery,
+        headers: Record<string, string> = {}
+    ): Promise<AbiQueryResult & { etag: string | null; notModified: boolean }> {
+        const urlPath = `/api/abis${buildQueryString(query)}`
+        const response = await this.request(urlPath, {
+            method: 'GET',
+            ...(Object.keys(headers).length > 0 ? { headers } : {}),
+        })
+
+        if (response.status === 304) {
+            return { abis: [], nextCursor: null, etag: response.headers?.get('etag') ?? null, notModified: true }
+        }
+
+        if (!response.ok) {
+            const data = await response.json().catch(() => ({})) as ApiResponse<unknown>
+            throw createApiError(
+                data.error || `Failed to pull ABIs: ${response.statusText}`,
+                this.getErrorDetails(response, urlPath)
+            )
+        }
+
+        const data = await response.json() as ApiResponse<{ abis?: AbiItem[]; nextCursor?: string | null }>
+        return {
+            abis: (data.abis || []).filter((abi) => matchesQuery(abi, query)),
+            nextCursor: data.nextCursor || null,
+            etag: response.headers?.get('etag') ?? null,
+            notModified: false,
+        }
+    }
+
+    private getCacheKey(query: AbiQuery): string {
+        return AbiCache.createKey(this.baseUrl, this.apiKey, buildQueryString(query))
+    }
+
+    /**
+     * Persist a pull result; cache failures never fail the pull itself
+     */
+    private writeCache(key: string, etag: string | null, abis: AbiItem[]): void {
+        try {
+            this.cache!.write(key, etag, abis)
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error'
+            console.warn(`⚠️  Failed to update ABI cache: ${message}`)
+        }
+    }
+
+    private getErrorDetails(response: RegistryResponse, urlPath: string): { statusCode?: number; url: string; retryAfter?: number } {
+        return {
+            statusCode: response.status,
+            url: `${this.baseUrl}${urlPath}`,
+            retryAfter: parseRetryAfter(response.headers?.get('retry-after')) ?? undefined,
+        }
     }
 }
 
+function formatLockEntry(entry: LockEntry): string {
+    return `${entry.contractName}@${entry.chainId}:${entry.address}${entry.version !== null ? ` v${entry.version}` : ''}`
+}
+
+/**
+ * Parse a response body as JSON, rejecting when the request is aborted first
+ * A body that isn't JSON (or is empty) settles as an error for the caller to handle
+ */
+function readBody(response: Response, signal: AbortSignal): Promise<ResponseBody> {
+    return new Promise((resolve, reject) => {
+        if (signal.aborted) {
+            reject(signal.reason)
+            return
+        }
+        signal.addEventListener('abort', () => reject(signal.reason), { once: true })
+
+        Promise.resolve()
+            .then(() => response.json())
+            .then((value) => resolve({ ok: true, value }), (error) => resolve({ ok: false, error }))
+    })
+}
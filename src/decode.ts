@@ -0,0 +1,212 @@
+import type { AbiEntry, AbiItem } from './types'
+import { AbiCodingError } from './errors'
+import { decodeParameters, encodeParameters, hexToBytes } from './utils/abiCoder'
+import { formatSignature, getSelector, type AbiParameter } from './utils/signature'
+
+export type DecodedArgument = {
+    name: string
+    type: string
+    value: unknown
+}
+
+export type DecodedFunctionData = {
+    name: string
+    signature: string
+    selector: string
+    args: DecodedArgument[]
+}
+
+export type DecodedError = DecodedFunctionData & {
+    kind: 'error' | 'panic' | 'custom'  // Error(string), Panic(uint256) or an error declared in the ABI
+    reason?: string                     // Revert message, or a description of the panic code
+}
+
+export type DecodeMatch = {
+    abi?: AbiItem                       // Unset for Error(string) and Panic(uint256), which no ABI declares
+    kind: 'function' | 'error'
+    decoded: DecodedFunctionData | DecodedError
+}
+
+// Built into Solidity, so they decode even when the ABI doesn't declare them
+const ERROR_STRING: AbiEntry = { type: 'error', name: 'Error', inputs: [{ name: 'message', type: 'string' }] }
+const PANIC: AbiEntry = { type: 'error', name: 'Panic', inputs: [{ name: 'code', type: 'uint256' }] }
+
+const PANIC_REASONS: Record<number, string> = {
+    0x00: 'generic compiler panic',
+    0x01: 'assertion failed',
+    0x11: 'arithmetic overflow or underflow',
+    0x12: 'division or modulo by zero',
+    0x21: 'invalid enum value',
+    0x22: 'invalid storage byte array encoding',
+    0x31: 'pop() on an empty array',
+    0x32: 'array index out of bounds',
+    0x41: 'out of memory',
+    0x51: 'call to an uninitialized internal function',
+}
+
+/**
+ * Encode calldata for a function call
+ * `functionName` may be a full signature (e.g. "transfer(address,uint256)") to pick an overload
+ */
+export function encodeFunctionData(abi: AbiEntry[], functionName: string, args: readonly unknown[] = []): string {
+    const entry = findEntry(abi, 'function', functionName, args.length)
+    return `${getSelector(entry)}${encodeParameters(params(entry.inputs), args).slice(2)}`
+}
+
+/**
+ * Decode calldata by matching its selector against the ABI's functions
+ */
+export function decodeFunctionData(abi: AbiEntry[], data: string): DecodedFunctionData {
+    const { selector, body } = splitSelector(data)
+    const entry = abi.find((item) => item.type === 'function' && getSelector(item) === selector)
+
+    if (!entry) {
+        throw new AbiCodingError(`No function in the ABI matches selector ${selector}`)
+    }
+
+    return decodeEntry(entry, selector, body)
+}
+
+/**
+ * Encode the return data of a function
+ */
+export function encodeFunctionResult(abi: AbiEntry[], functionName: string, values: readonly unknown[]): string {
+    const entry = findEntry(abi, 'function', functionName)
+    return encodeParameters(params(entry.outputs), values)
+}
+
+/**
+ * Decode the return data of a function call
+ */
+export function decodeFunctionResult(abi: AbiEntry[], functionName: string, data: string): DecodedArgument[] {
+    const entry = findEntry(abi, 'function', functionName)
+    return toArguments(params(entry.outputs), decodeParameters(params(entry.outputs), data))
+}
+
+/**
+ * Encode revert data for an error declared in the ABI (or the built-in Error/Panic)
+ */
+export function encodeErrorResult(abi: AbiEntry[], errorName: string, args: readonly unknown[] = []): string {
+    const entry = findEntry([...abi, ERROR_STRING, PANIC], 'error', errorName, args.length)
+    return `${getSelector(entry)}${encodeParameters(params(entry.inputs), args).slice(2)}`
+}
+
+/**
+ * Decode revert data: Error(string), Panic(uint256) or a custom error from the ABI
+ */
+export function decodeErrorResult(abi: AbiEntry[], data: string): DecodedError {
+    const { selector, body } = splitSelector(data)
+
+    if (selector === getSelector(ERROR_STRING)) {
+        const decoded = decodeEntry(ERROR_STRING, selector, body)
+        return { ...decoded, kind: 'error', reason: decoded.args[0].value as string }
+    }
+
+    if (selector === getSelector(PANIC)) {
+        const decoded = decodeEntry(PANIC, selector, body)
+        const code = Number(decoded.args[0].value as bigint)
+        const reason = PANIC_REASONS[code] || `unknown panic code 0x${code.toString(16)}`
+        return { ...decoded, kind: 'panic', reason }
+    }
+
+    const entry = abi.find((item) => item.type === 'error' && getSelector(item) === selector)
+    if (!entry) {
+        throw new AbiCodingError(`No error in the ABI matches selector ${selector}`)
+    }
+
+    return { ...decodeEntry(entry, selector, body), kind: 'custom' }
+}
+
+/**
+ * Decode calldata or revert data against many ABIs, e.g. everything pulled from the registry
+ * Returns every ABI that decodes the data cleanly; selectors can collide, so there may be several
+ */
+export function decodeWithAbis(abis: AbiItem[], data: string): DecodeMatch[] {
+    const matches: DecodeMatch[] = []
+
+    for (const abi of abis) {
+        for (const kind of ['function', 'error'] as const) {
+            try {
+                const decoded = kind === 'function'
+                    ? decodeFunctionData(abi.abi, data)
+                    : decodeCustomError(abi.abi, data)
+                if (decoded) {
+                    matches.push({ abi, kind, decoded })
+                }
+            } catch (error) {
+                // Not this ABI (or the data doesn't fit its types); keep looking
+                if (!(error instanceof AbiCodingError)) {
+                    throw error
+                }
+            }
+        }
+    }
+
+    // Error(string) and Panic(uint256) belong to no contract, so they are reported once without an ABI
+    if (matches.length === 0) {
+        try {
+            matches.push({ kind: 'error', decoded: decodeErrorResult([], data) })
+        } catch (error) {
+            if (!(error instanceof AbiCodingError)) {
+                throw error
+            }
+        }
+    }
+
+    return matches
+}
+
+function decodeCustomError(abi: AbiEntry[], data: string): DecodedError | null {
+    const decoded = decodeErrorResult(abi, data)
+    return decoded.kind === 'custom' ? decoded : null
+}
+
+function decodeEntry(entry: AbiEntry, selector: string, body: Uint8Array): DecodedFunctionData {
+    const inputs = params(entry.inputs)
+    return {
+        name: entry.name || '',
+        signature: formatSignature(entry),
+        selector,
+        args: toArguments(inputs, decodeParameters(inputs, body)),
+    }
+}
+
+function findEntry(abi: AbiEntry[], type: 'function' | 'error', nameOrSignature: string, argCount?: number): AbiEntry {
+    const candidates = abi.filter((entry) => entry.type === type && (
+        nameOrSignature.includes('(')
+            ? formatSignature(entry) === nameOrSignature
+            : entry.name === nameOrSignature
+    ))
+
+    // Resolve overloads by argument count when only a name was given
+    const matching = candidates.length > 1 && argCount !== undefined
+        ? candidates.filter((entry) => (entry.inputs || []).length === argCount)
+        : candidates
+
+    if (matching.length === 0) {
+        throw new AbiCodingError(`No ${type} "${nameOrSignature}" in the ABI`)
+    }
+    if (matching.length > 1) {
+        throw new AbiCodingError(
+            `"${nameOrSignature}" is overloaded; use a full signature: ${matching.map((entry) => formatSignature(entry)).join(', ')}`
+        )
+    }
+    return matching[0]
+}
+
+function splitSelector(data: string): { selector: string; body: Uint8Array } {
+    const bytes = hexToBytes(data)
+    if (bytes.length < 4) {
+        throw new AbiCodingError('Data is shorter than a 4-byte selector')
+    }
+    const selector = `0x${data.replace(/^0x/i, '').slice(0, 8).toLowerCase()}`
+    return { selector, body: bytes.subarray(4) }
+}
+
+function params(list: AbiEntry['inputs'] | AbiEntry['outputs']): AbiParameter[] {
+    return (list || []) as AbiParameter[]
+}
+
+function toArguments(list: AbiParameter[], values: unknown[]): DecodedArgument[] {
+    return list.map((param, i) => ({ name: param.name || '', type: param.type, value: values[i] }))
+}
@@ -0,0 +1,218 @@
+import type { AbiEntry } from './types'
+import { canonicalizeAbi } from './utils/hash'
+import { formatSignature, formatType, type AbiParameter } from './utils/signature'
+
+export type AbiChange = {
+    kind: 'added' | 'removed' | 'changed'
+    entryType: string           // "function", "event", "error", "constructor", "fallback" or "receive"
+    signature: string           // e.g. "transfer(address,uint256)"
+    breaking: boolean
+    reasons: string[]           // Human-readable description of what changed
+    before?: AbiEntry
+    after?: AbiEntry
+}
+
+export type AbiDiff = {
+    changes: AbiChange[]
+    breaking: boolean           // True if any change is breaking
+}
+
+type CanonicalEntry = {
+    type: string
+    name?: string
+    inputs?: AbiParameter[]
+    outputs?: AbiParameter[]
+    stateMutability?: string
+    anonymous?: boolean
+}
+
+/**
+ * Compare two ABIs and classify every difference as breaking or non-breaking
+ *
+ * Entries are matched by type and signature, so a changed parameter type shows up as a
+ * removal plus an addition. Breaking changes:
+ * - removed functions (selectors), events, fallback and receive
+ * - changed function return types
+ * - mutability changes that break callers: view/pure → state-changing, or payable → non-payable
+ * - changed indexed-ness of event parameters, or anonymous events
+ * - changed constructor arguments
+ * Parameter renames, additions and removed errors are non-breaking.
+ */
+export function diffAbis(before: AbiEntry[], after: AbiEntry[]): AbiDiff {
+    const previous = indexEntries(before)
+    const next = indexEntries(after)
+    const changes: AbiChange[] = []
+
+    for (const [key, entry] of previous) {
+        const counterpart = next.get(key)
+        if (!counterpart) {
+            changes.push(describeRemoval(entry))
+            continue
+        }
+
+        const change = compareEntries(entry, counterpart)
+        if (change) {
+            changes.push(change)
+        }
+    }
+
+    for (const [key, entry] of next) {
+        if (!previous.has(key)) {
+            changes.push(describeAddition(entry))
+        }
+    }
+
+    // Breaking changes first, then grouped by entry type
+    changes.sort((a, b) =>
+        Number(b.breaking) - Number(a.breaking) ||
+        a.entryType.localeCompare(b.entryType) ||
+        a.signature.localeCompare(b.signature)
+    )
+
+    return { changes, breaking: changes.some((change) => change.breaking) }
+}
+
+function indexEntries(abi: AbiEntry[]): Map<string, { original: AbiEntry; canonical: CanonicalEntry }> {
+    const entries = new Map<string, { original: AbiEntry; canonical: CanonicalEntry }>()
+
+    for (const original of abi) {
+        const canonical = canonicalizeAbi([original])[0] as CanonicalEntry
+        entries.set(entryKey(canonical), { original, canonical })
+    }
+
+    return entries
+}
+
+function entryKey(entry: CanonicalEntry): string {
+    switch (entry.type) {
+        case 'constructor':
+        case 'fallback':
+        case 'receive':
+            return entry.type
+        default:
+            return `${entry.type}:${formatSignature(entry as AbiEntry)}`
+    }
+}
+
+function describeSignature(entry: CanonicalEntry): string {
+    switch (entry.type) {
+        case 'fallback':
+        case 'receive':
+            return `${entry.type}()`
+        case 'constructor':
+            return `constructor(${(entry.inputs || []).map(formatType).join(',')})`
+        default:
+            return formatSignature(entry as AbiEntry)
+    }
+}
+
+function describeRemoval({ original, canonical }: { original: AbiEntry; canonical: CanonicalEntry }): AbiChange {
+    // Removing a constructor with arguments changes how the contract is deployed
+    const breaking = canonical.type === 'constructor'
+        ? (canonical.inputs || []).length > 0
+        : canonical.type !== 'error'
+
+    return {
+        kind: 'removed',
+        entryType: canonical.type,
+        signature: describeSignature(canonical),
+        breaking,
+        reasons: [canonical.type === 'function' ? 'selector removed' : `${canonical.type} removed`],
+        before: original,
+    }
+}
+
+function describeAddition({ original, canonical }: { original: AbiEntry; canonical: CanonicalEntry }): AbiChange {
+    return {
+        kind: 'added',
+        entryType: canonical.type,
+        signature: describeSignature(canonical),
+        breaking: canonical.type === 'constructor' && (canonical.inputs || []).length > 0,
+        reasons: [`${canonical.type} added`],
+        after: original,
+    }
+}
+
+function compareEntries(
+    before: { original: AbiEntry; canonical: CanonicalEntry },
+    after: { original: AbiEntry; canonical: CanonicalEntry }
+): AbiChange | null {
+    const a = before.canonical
+    const b = after.canonical
+    const reasons: string[] = []
+    let breaking = false
+
+    if (a.type === 'constructor') {
+        const beforeTypes = (a.inputs || []).map(formatType).join(',')
+        const afterTypes = (b.inputs || []).map(formatType).join(',')
+        if (beforeTypes !== afterTypes) {
+            reasons.push(`constructor arguments changed from (${beforeTypes}) to (${afterTypes})`)
+            breaking = true
+        }
+    }
+
+    if (a.type === 'function') {
+        const beforeTypes = (a.outputs || []).map(formatType).join(',')
+        const afterTypes = (b.outputs || []).map(formatType).join(',')
+        if (beforeTypes !== afterTypes) {
+            reasons.push(`return types changed from (${beforeTypes}) to (${afterTypes})`)
+            breaking = true
+        }
+    }
+
+    if (a.stateMutability !== b.stateMutability) {
+        const mutabilityBreaks = isBreakingMutabilityChange(a.stateMutability!, b.stateMutability!)
+        reasons.push(`stateMutability changed from ${a.stateMutability} to ${b.stateMutability}`)
+        breaking = breaking || mutabilityBreaks
+    }
+
+    if (a.type === 'event') {
+        const changedIndexes = (a.inputs || [])
+            .map((input, i) => (input.indexed !== b.inputs?.[i]?.indexed ? input.name || `#${i}` : null))
+            .filter((name): name is string => name !== null)
+        if (changedIndexes.length > 0) {
+            reasons.push(`indexed changed for ${changedIndexes.join(', ')}`)
+            breaking = true
+        }
+        if (a.anonymous !== b.anonymous) {
+            reasons.push(b.anonymous ? 'event became anonymous' : 'event is no longer anonymous')
+            breaking = true
+        }
+    }
+
+    if (parameterNames(a.inputs) !== parameterNames(b.inputs) || parameterNames(a.outputs) !== parameterNames(b.outputs)) {
+        reasons.push('parameter names changed')
+    }
+
+    if (reasons.length === 0) {
+        return null
+    }
+
+    return {
+        kind: 'changed',
+        entryType: a.type,
+        signature: describeSignature(b),
+        breaking,
+        reasons,
+        before: before.original,
+        after: after.original,
+    }
+}
+
+/**
+ * Callers break when a read becomes a write (eth_call no longer suffices)
+ * or when a payable entry stops accepting value
+ */
+function isBreakingMutabilityChange(before: string, after: string): boolean {
+    const isRead = (mutability: string) => mutability === 'view' || mutability === 'pure'
+    if (isRead(before) && !isRead(after)) {
+        return true
+    }
+    return before === 'payable' && after !== 'payable'
+}
+
+function parameterNames(params: AbiParameter[] = []): string {
+    return JSON.stringify(params.map(function names(param): unknown {
+        return [param.name || '', ((param.components || []) as AbiParameter[]).map(names)]
+    }))
+}
@@ -0,0 +1,214 @@
+import type { AbiDiagnostic } from './validation'
+
+/**
+ * Base class for every error thrown by the SDK
+ * Catch this to handle any SDK failure, or a subclass for a specific one
+ */
+export class AbiRegistryError extends Error {
+    readonly code: string
+
+    constructor(message: string, code = 'ABI_REGISTRY_ERROR') {
+        super(message)
+        this.name = new.target.name
+        this.code = code
+    }
+}
+
+/**
+ * The server (registry or Etherscan) answered with an error response
+ */
+export class ApiError extends AbiRegistryError {
+    readonly statusCode?: number
+    readonly url?: string
+
+    constructor(message: string, details: { statusCode?: number; url?: string } = {}, code = 'API_ERROR') {
+        super(message, code)
+        this.statusCode = details.statusCode
+        this.url = details.url
+    }
+}
+
+/**
+ * API key is missing, invalid, or lacks permission (401/403)
+ */
+export class AuthenticationError extends ApiError {
+    constructor(message: string, details: { statusCode?: number; url?: string } = {}) {
+        super(message, details, 'AUTHENTICATION_FAILED')
+    }
+}
+
+/**
+ * Requested resource does not exist (404)
+ */
+export class NotFoundError extends ApiError {
+    constructor(message: string, details: { statusCode?: number; url?: string } = {}) {
+        super(message, details, 'NOT_FOUND')
+    }
+}
+
+/**
+ * The server rejected a push because it conflicts with an existing ABI (409)
+ */
+export class DuplicateAbiError extends ApiError {
+    readonly contractName?: string
+    readonly chainId?: number
+
+    constructor(
+        message: string,
+        details: { statusCode?: number; url?: string; contractName?: string; chainId?: number } = {}
+    ) {
+        super(message, details, 'DUPLICATE_ABI')
+        this.contractName = details.contractName
+        this.chainId = details.chainId
+    }
+}
+
+/**
+ * Too many requests (429), still failing after retries
+ */
+export class RateLimitError extends ApiError {
+    readonly retryAfter?: number  // Milliseconds the server asked us to wait, if provided
+
+    constructor(message: string, details: { statusCode?: number; url?: string; retryAfter?: number } = {}) {
+        super(message, details, 'RATE_LIMITED')
+        this.retryAfter = details.retryAfter
+    }
+}
+
+/**
+ * Request never got a response (DNS, connection reset, timeout)
+ */
+export class NetworkError extends AbiRegistryError {
+    readonly url?: string
+    readonly cause?: unknown
+
+    constructor(message: string, details: { url?: string; cause?: unknown } = {}) {
+        super(message, 'NETWORK_ERROR')
+        this.url = details.url
+        this.cause = details.cause
+    }
+}
+
+/**
+ * A Foundry artifact in out/ is missing or malformed
+ */
+export class InvalidArtifactError extends AbiRegistryError {
+    readonly contractName: string
+    readonly path?: string
+
+    constructor(message: string, details: { contractName: string; path?: string }) {
+        super(message, 'INVALID_ARTIFACT')
+        this.contractName = details.contractName
+        this.path = details.path
+    }
+}
+
+/**
+ * An ABI breaks the Solidity ABI specification (see validateAbi for the rules)
+ */
+export class InvalidAbiError extends AbiRegistryError {
+    readonly contractName: string
+    readonly diagnostics: AbiDiagnostic[]
+
+    constructor(message: string, details: { contractName: string; diagnostics?: AbiDiagnostic[] }) {
+        super(message, 'INVALID_ABI')
+        this.contractName = details.contractName
+        this.diagnostics = details.diagnostics || []
+    }
+}
+
+/**
+ * A Foundry broadcast file is malformed
+ */
+export class InvalidBroadcastError extends AbiRegistryError {
+    readonly path?: string
+
+    constructor(message: string, details: { path?: string } = {}) {
+        super(message, 'INVALID_BROADCAST')
+        this.path = details.path
+    }
+}
+
+/**
+ * The chain is not supported by the Etherscan integration
+ */
+export class UnsupportedChainError extends AbiRegistryError {
+    readonly chainId: number
+    readonly supportedChainIds: number[]
+
+    constructor(message: string, details: { chainId: number; supportedChainIds?: number[] }) {
+        super(message, 'UNSUPPORTED_CHAIN')
+        this.chainId = details.chainId
+        this.supportedChainIds = details.supportedChainIds || []
+    }
+}
+
+/**
+ * Required configuration is missing or invalid
+ */
+export class ConfigurationError extends AbiRegistryError {
+    constructor(message: string) {
+        super(message, 'INVALID_CONFIGURATION')
+    }
+}
+
+/**
+ * The lockfile doesn't match what the registry can provide
+ */
+export class LockfileError extends AbiRegistryError {
+    readonly entries: Array<{ contractName: string; chainId: number; address: string; version: number | null }>
+
+    constructor(
+        message: string,
+        details: { entries?: Array<{ contractName: string; chainId: number; address: string; version: number | null }> } = {}
+    ) {
+        super(message, 'LOCKFILE_MISMATCH')
+        this.entries = details.entries || []
+    }
+}
+
+/**
+ * A push was blocked because it breaks the ABI callers rely on
+ */
+export class BreakingChangeError extends AbiRegistryError {
+    readonly contracts: Array<{ contractName: string; chainId: number; address: string; changes: string[] }>
+
+    constructor(
+        message: string,
+        details: { contracts?: Array<{ contractName: string; chainId: number; address: string; changes: string[] }> } = {}
+    ) {
+        super(message, 'BREAKING_CHANGES')
+        this.contracts = details.contracts || []
+    }
+}
+
+/**
+ * Values don't match their ABI types, or data can't be decoded with the given ABI
+ */
+export class AbiCodingError extends AbiRegistryError {
+    constructor(message: string) {
+        super(message, 'ABI_CODING_ERROR')
+    }
+}
+
+/**
+ * Build the matching ApiError subclass for an HTTP status code
+ */
+export function createApiError(
+    message: string,
+    details: { statusCode?: number; url?: string; retryAfter?: number; contractName?: string; chainId?: number } = {}
+): ApiError {
+    switch (details.statusCode) {
+        case 401:
+        case 403:
+            return new AuthenticationError(message, details)
+        case 404:
+            return new NotFoundError(message, details)
+        case 409:
+            return new DuplicateAbiError(message, details)
+        case 429:
+            return new RateLimitError(message, details)
+        default:
+            return new ApiError(message, details)
+    }
+}
@@ -0,0 +1,432 @@
+import type { AbiEntry } from './types'
+import { InvalidAbiError } from './errors'
+import { formatDiagnostics, type AbiDiagnostic } from './validation'
+import type { AbiParameter } from './utils/signature'
+
+/**
+ * Human-readable ABIs: Solidity-style signatures, one entry per string
+ *
+ *   function transfer(address to, uint256 amount) returns (bool)
+ *   function balanceOf(address owner) view returns (uint256)
+ *   event Transfer(address indexed from, address indexed to, uint256 value)
+ *   error InsufficientBalance(uint256 available, uint256 required)
+ *   constructor(address owner) payable
+ *   fallback() external payable
+ *   receive() external payable
+ *   struct Order { address maker; uint256 amount; }
+ *
+ * Tuples are written inline, as "(address maker, uint256 amount)[] orders", or by struct name once the
+ * struct is declared in the same ABI. Visibility (external/public), data locations (memory/calldata/storage)
+ * and trailing semicolons are accepted and ignored; "uint"/"int" are normalized to uint256/int256.
+ */
+
+type Token = { value: string; position: number }
+
+type StructDefinitions = Map<string, { source: string; components?: AbiParameter[] }>
+
+const LOCATIONS = ['memory', 'calldata', 'storage']
+const MUTABILITIES = ['pure', 'view', 'nonpayable', 'payable']
+const IGNORED_MODIFIERS = ['external', 'public', 'virtual', 'override']
+
+/**
+ * Parse human-readable signatures into JSON ABI entries
+ * Throws InvalidAbiError listing every line that can't be parsed
+ */
+export function parseHumanReadableAbi(signatures: readonly string[], contractName?: string): AbiEntry[] {
+    const diagnostics: AbiDiagnostic[] = []
+    const structs: StructDefinitions = new Map()
+
+    // Structs can be declared anywhere in the list, so collect them first
+    signatures.forEach((source) => {
+        const match = /^\s*struct\s+([A-Za-z_$][A-Za-z0-9_$]*)\s*\{/.exec(source)
+        if (match) {
+            structs.set(match[1], { source })
+        }
+    })
+
+    const abi: AbiEntry[] = []
+    signatures.forEach((source, index) => {
+        try {
+            const entry = parseLine(source, structs)
+            if (entry) {
+                abi.push(entry)
+            }
+        } catch (error) {
+            if (!(error instanceof SyntaxError)) {
+                throw error
+            }
+            diagnostics.push({ severity: 'error', path: `[${index}]`, entry: source.trim(), message: error.message })
+        }
+    })
+
+    if (diagnostics.length > 0) {
+        const subject = contractName ? `human-readable ABI for ${contractName}` : 'human-readable ABI'
+        throw new InvalidAbiError(
+            `Invalid ${subject}: ${diagnostics.length} unparseable signature(s)\n${formatDiagnostics(diagnostics)}`,
+            { contractName: contractName ?? '', diagnostics }
+        )
+    }
+
+    return abi
+}
+
+/**
+ * Accept either a JSON ABI or a human-readable one, returning the JSON form
+ */
+export function normalizeAbi(abi: readonly AbiEntry[] | readonly string[], contractName?: string): AbiEntry[] {
+    return isHumanReadableAbi(abi) ? parseHumanReadableAbi(abi, contractName) : abi as AbiEntry[]
+}
+
+export function isHumanReadableAbi(abi: readonly unknown[]): abi is readonly string[] {
+    return abi.length > 0 && abi.every((entry) => typeof entry === 'string')
+}
+
+/**
+ * Format JSON ABI entries as human-readable signatures
+ * Tuples are written inline, so the output parses back without struct declarations
+ */
+export function formatHumanReadableAbi(abi: readonly AbiEntry[]): string[] {
+    return abi.map(formatHumanReadableItem)
+}
+
+export function formatHumanReadableItem(entry: AbiEntry): string {
+    const inputs = formatParameters((entry.inputs || []) as AbiParameter[], entry.type === 'event')
+    const mutability = entry.stateMutability && entry.stateMutability !== 'nonpayable' ? ` ${entry.stateMutability}` : ''
+
+    switch (entry.type) {
+        case 'function': {
+            const outputs = (entry.outputs || []) as AbiParameter[]
+            const returns = outputs.length > 0 ? ` returns (${formatParameters(outputs, false)})` : ''
+            return `function ${entry.name}(${inputs})${mutability}${returns}`
+        }
+        case 'event':
+            return `event ${entry.name}(${inputs})${entry.anonymous ? ' anonymous' : ''}`
+        case 'error':
+            return `error ${entry.name}(${inputs})`
+        case 'constructor':
+            return `constructor(${inputs})${mutability}`
+        case 'fallback':
+            return `fallback() external${mutability}`
+        case 'receive':
+            return 'receive() external payable'
+    }
+}
+
+function formatParameters(params: AbiParameter[], isEvent: boolean): string {
+    return params.map((param) => {
+        const type = param.type.startsWith('tuple')
+            ? `(${formatParameters((param.components || []) as AbiParameter[], false)})${param.type.slice('tuple'.length)}`
+            : param.type
+        const indexed = isEvent && param.indexed ? ' indexed' : ''
+        return `${type}${indexed}${param.name ? ` ${param.name}` : ''}`
+    }).join(', ')
+}
+
+function parseLine(source: string, structs: StructDefinitions): AbiEntry | null {
+    const tokens = new TokenStream(source)
+    const keyword = tokens.peek()?.value
+
+    if (keyword === 'struct') {
+        // Validate the declaration even if nothing references it
+        tokens.next()
+        resolveStruct(tokens.identifier(), structs, [])
+        return null
+    }
+
+    let entry: AbiEntry
+    switch (keyword) {
+        case 'function': {
+            tokens.next()
+            const name = tokens.identifier()
+            const inputs = parseParameterList(tokens, structs, false)
+            let stateMutability: NonNullable<AbiEntry['stateMutability']> = 'nonpayable'
+            let outputs: AbiParameter[] = []
+
+            while (!tokens.done() && tokens.peek()!.value !== ';') {
+                const modifier = tokens.next().value
+                if (MUTABILITIES.includes(modifier)) {
+                    stateMutability = modifier as typeof stateMutability
+                } else if (modifier === 'constant') {
+                    stateMutability = 'view'  // Pre-0.5 alias
+                } else if (modifier === 'returns') {
+                    outputs = parseParameterList(tokens, structs, false)
+                } else if (!IGNORED_MODIFIERS.includes(modifier)) {
+                    throw new SyntaxError(`unexpected "${modifier}" in function signature`)
+                }
+            }
+
+            entry = { type: 'function', name, inputs, outputs, stateMutability }
+            break
+        }
+        case 'event': {
+            tokens.next()
+            const name = tokens.identifier()
+            const inputs = parseParameterList(tokens, structs, true)
+            const anonymous = tokens.peek()?.value === 'anonymous'
+            if (anonymous) {
+                tokens.next()
+            }
+            entry = { type: 'event', name, inputs, anonymous }
+            break
+        }
+        case 'error': {
+            tokens.next()
+            const name = tokens.identifier()
+            entry = { type: 'error', name, inputs: parseParameterList(tokens, structs, false) }
+            break
+        }
+        case 'constructor': {
+            tokens.next()
+            const inputs = parseParameterList(tokens, structs, false)
+            const payable = parseModifiers(tokens, ['payable'])
+            entry = { type: 'constructor', inputs, stateMutability: payable ? 'payable' : 'nonpayable' }
+            break
+        }
+        case 'fallback':
+        case 'receive': {
+            tokens.next()
+            if (parseParameterList(tokens, structs, false).length > 0) {
+                throw new SyntaxError(`${keyword} cannot have parameters`)
+            }
+            const payable = parseModifiers(tokens, ['payable'])
+            if (keyword === 'receive' && !payable) {
+                throw new SyntaxError('receive must be payable')
+            }
+            entry = { type: keyword, stateMutability: payable ? 'payable' : 'nonpayable' }
+            break
+        }
+        default:
+            throw new SyntaxError(
+                keyword === undefined
+                    ? 'empty signature'
+                    : `expected function, event, error, constructor, fallback, receive or struct, found "${keyword}"`
+            )
+    }
+
+    if (tokens.peek()?.value === ';') {
+        tokens.next()
+    }
+    if (!tokens.done()) {
+        throw new SyntaxError(`unexpected "${tokens.peek()!.value}" at position ${tokens.peek()!.position}`)
+    }
+    return entry
+}
+
+/**
+ * Consume trailing modifiers, returning true if any of `wanted` was present
+ */
+function parseModifiers(tokens: TokenStream, wanted: string[]): boolean {
+    let found = false
+    while (!tokens.done() && tokens.peek()!.value !== ';') {
+        const modifier = tokens.next().value
+        if (wanted.includes(modifier)) {
+            found = true
+        } else if (!IGNORED_MODIFIERS.includes(modifier) && modifier !== 'nonpayable') {
+            throw new SyntaxError(`unexpected "${modifier}"`)
+        }
+    }
+    return found
+}
+
+function parseParameterList(tokens: TokenStream, structs: StructDefinitions, isEvent: boolean): AbiParameter[] {
+    tokens.expect('(')
+    const params: AbiParameter[] = []
+
+    if (tokens.peek()?.value === ')') {
+        tokens.next()
+        return params
+    }
+
+    for (;;) {
+        params.push(parseParameter(tokens, structs, isEvent, []))
+        const separator = tokens.next().value
+        if (separator === ')') {
+            return params
+        }
+        if (separator !== ',') {
+            throw new SyntaxError(`expected "," or ")", found "${separator}"`)
+        }
+    }
+}
+
+function parseParameter(tokens: TokenStream, structs: StructDefinitions, isEvent: boolean, resolving: string[]): AbiParameter {
+    const param = parseType(tokens, structs, resolving)
+
+    let indexed = false
+    let name = ''
+    for (;;) {
+        const next = tokens.peek()?.value
+        if (next === 'indexed' && isEvent) {
+            indexed = true
+        } else if (next !== undefined && LOCATIONS.includes(next)) {
+            // Data locations don't change the ABI
+        } else if (next !== undefined && !name && isIdentifier(next)) {
+            name = next
+        } else {
+            break
+        }
+        tokens.next()
+    }
+
+    const result: AbiParameter = { name, type: param.type }
+    if (isEvent) {
+        result.indexed = indexed
+    }
+    if (param.components) {
+        result.components = param.components
+    }
+    return result
+}
+
+function parseType(tokens: TokenStream, structs: StructDefinitions, resolving: string[]): { type: string; components?: AbiParameter[] } {
+    let base: string
+    let components: AbiParameter[] | undefined
+
+    const first = tokens.peek()
+    if (!first) {
+        throw new SyntaxError('expected a type')
+    }
+
+    if (first.value === '(' || first.value === 'tuple') {
+        if (first.value === 'tuple') {
+            tokens.next()
+        }
+        tokens.expect('(')
+        components = []
+        if (tokens.peek()?.value === ')') {
+            tokens.next()
+        } else {
+            for (;;) {
+                components.push(parseParameter(tokens, structs, false, resolving))
+                const separator = tokens.next().value
+                if (separator === ')') {
+                    break
+                }
+                if (separator !== ',') {
+                    throw new SyntaxError(`expected "," or ")" in tuple, found "${separator}"`)
+                }
+            }
+        }
+        base = 'tuple'
+    } else {
+        const name = tokens.identifier()
+        if (structs.has(name)) {
+            components = resolveStruct(name, structs, resolving)
+            base = 'tuple'
+        } else if (isElementaryType(name)) {
+            base = name === 'uint' ? 'uint256' : name === 'int' ? 'int256' : name
+            if (base === 'address' && tokens.peek()?.value === 'payable') {
+                tokens.next()
+            }
+        } else {
+            throw new SyntaxError(`unknown type "${name}"`)
+        }
+    }
+
+    let suffix = ''
+    while (tokens.peek()?.value === '[') {
+        tokens.next()
+        const size = tokens.peek()?.value
+        if (size !== undefined && /^\d+$/.test(size)) {
+            tokens.next()
+            suffix += `[${size}]`
+        } else {
+            suffix += '[]'
+        }
+        tokens.expect(']')
+    }
+
+    return { type: `${base}${suffix}`, components }
+}
+
+function resolveStruct(name: string, structs: StructDefinitions, resolving: string[]): AbiParameter[] {
+    const struct = structs.get(name)!
+    if (struct.components) {
+        return struct.components
+    }
+    if (resolving.includes(name)) {
+        throw new SyntaxError(`struct ${name} is recursive (${[...resolving, name].join(' → ')})`)
+    }
+
+    const tokens = new TokenStream(struct.source)
+    tokens.expect('struct')
+    tokens.identifier()
+    tokens.expect('{')
+
+    const components: AbiParameter[] = []
+    while (tokens.peek()?.value !== '}') {
+        if (tokens.done()) {
+            throw new SyntaxError(`struct ${name} is missing "}"`)
+        }
+        components.push(parseParameter(tokens, structs, false, [...resolving, name]))
+        tokens.expect(';')
+    }
+    tokens.expect('}')
+
+    if (components.length === 0) {
+        throw new SyntaxError(`struct ${name} has no members`)
+    }
+
+    struct.components = components
+    return components
+}
+
+function isIdentifier(value: string): boolean {
+    return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(value)
+}
+
+function isElementaryType(name: string): boolean {
+    return /^(u?int\d*|bytes\d*|u?fixed(\d+x\d+)?|address|bool|string|function)$/.test(name)
+}
+
+class TokenStream {
+    private readonly tokens: Token[] = []
+    private index = 0
+
+    constructor(source: string) {
+        const pattern = /\s*([A-Za-z_$][A-Za-z0-9_$]*|\d+|[()[\],;{}])/gy
+        let match: RegExpExecArray | null
+        let end = 0
+
+        while ((match = pattern.exec(source)) !== null) {
+            this.tokens.push({ value: match[1], position: match.index + match[0].length - match[1].length })
+            end = pattern.lastIndex
+        }
+
+        const rest = source.slice(end)
+        if (rest.trim()) {
+            throw new SyntaxError(`unexpected character "${rest.trim()[0]}" at position ${end + rest.length - rest.trimStart().length}`)
+        }
+    }
+
+    peek(): Token | undefined {
+        return this.tokens[this.index]
+    }
+
+    next(): Token {
+        const token = this.tokens[this.index++]
+        if (!token) {
+            throw new SyntaxError('unexpected end of signature')
+        }
+        return token
+    }
+
+    done(): boolean {
+        return this.index >= this.tokens.length
+    }
+
+    expect(value: string): void {
+        const token = this.next()
+        if (token.value !== value) {
+            throw new SyntaxError(`expected "${value}", found "${token.value}"`)
+        }
+    }
+
+    identifier(): string {
+        const token = this.next()
+        if (!isIdentifier(token.value)) {
+            throw new SyntaxError(`expected a name, found "${token.value}"`)
+        }
+        return token.value
+    }
+}
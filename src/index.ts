@@ -1,4 +1,47 @@
 export { AbiRegistry } from './client'
-export { CodeGenerator } from './generator'
-export type { AbiRegistryConfig, PushAbiInput, AbiItem, PullOptions, GeneratedFile } from './types'
+export { CodeGenerator, GENERATOR_TARGETS, BUILTIN_PLUGINS } from './generator'
+export { AbiCache } from './cache'
+export { diffAbis } from './diff'
+export {
+    encodeFunctionData,
+    decodeFunctionData,
+    encodeFunctionResult,
+    decodeFunctionResult,
+    encodeErrorResult,
+    decodeErrorResult,
+    decodeWithAbis,
+} from './decode'
+export { LogDecoder, decodeEventLog } from './logs'
+export { validateAbi, assertValidAbi, formatDiagnostics, isValidAbiType } from './validation'
+export { STANDARD_INTERFACES, detectStandards, annotateStandards, filterByStandards, getInterfaceIds } from './standards'
+export { parseHumanReadableAbi, formatHumanReadableAbi, formatHumanReadableItem, normalizeAbi, isHumanReadableAbi } from './humanReadable'
+export { encodeParameters, decodeParameters, toChecksumAddress } from './utils/abiCoder'
+export { keccak256, keccak256Hex } from './utils/keccak'
+export { formatSignature, getSelector, getSelectors, getTopic, getInterfaceId } from './utils/signature'
+export { ABI_HASH_VERSION, calculateAbiHash, canonicalizeAbi } from './utils/hash'
+export {
+    AbiRegistryError,
+    ApiError,
+    AuthenticationError,
+    NotFoundError,
+    DuplicateAbiError,
+    RateLimitError,
+    NetworkError,
+    InvalidArtifactError,
+    InvalidAbiError,
+    InvalidBroadcastError,
+    UnsupportedChainError,
+    ConfigurationError,
+    LockfileError,
+    BreakingChangeError,
+    AbiCodingError,
+} from './errors'
+export type { AbiRegistryConfig, FetchLike, RetryOptions, PushAbiInput, PushResult, PushManyOptions, PushManyResult, AbiItem, AbiQuery, AbiQueryResult, AbiSelection, PullOptions, GeneratorOptions, GeneratorTarget, GeneratorPlugin, GeneratorContext, AbiGroup, GeneratedFile } from './types'
+export type { AbiHashOptions } from './utils/hash'
+export type { AbiChange, AbiDiff } from './diff'
+export type { DecodedArgument, DecodedFunctionData, DecodedError, DecodeMatch } from './decode'
+export type { EventLog, DecodedEvent, DecodedEventArgument, DecodedLog } from './logs'
+export type { AbiDiagnostic, AbiValidationResult } from './validation'
+export type { InterfaceStandard } from './standards'
+export type { AbiSelectors } from './utils/signature'
 
@@ -0,0 +1,159 @@
+import * as fs from 'fs'
+import type { AbiItem } from './types'
+import { ConfigurationError } from './errors'
+import { getAbiHash } from './utils/hash'
+
+export const LOCKFILE_NAME = 'abiregistry.lock.json'
+export const LOCKFILE_VERSION = 1
+
+export type LockEntry = {
+    contractName: string
+    chainId: number
+    address: string
+    version: number | null  // null when the registry didn't report a version
+    abiHash: string
+    label?: string
+}
+
+export type Lockfile = {
+    lockfileVersion: number
+    entries: LockEntry[]
+}
+
+export type LockResolution = {
+    abis: AbiItem[]
+    missing: LockEntry[]        // Locked versions the registry no longer has
+    changed: LockEntry[]        // Locked versions whose ABI hash differs from the registry
+    unlocked: AbiItem[]         // Deployments on the registry that the lockfile doesn't know about
+}
+
+/**
+ * Read a lockfile from disk
+ * Returns null if it doesn't exist; throws if it exists but can't be used
+ */
+export function readLockfile(filePath: string): Lockfile | null {
+    if (!fs.existsSync(filePath)) {
+        return null
+    }
+
+    let lock: Lockfile
+    try {
+        lock = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as Lockfile
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error'
+        throw new ConfigurationError(`Failed to parse ${filePath}: ${message}`)
+    }
+
+    if (lock.lockfileVersion !== LOCKFILE_VERSION || !Array.isArray(lock.entries)) {
+        throw new ConfigurationError(
+            `Unsupported lockfile format in ${filePath} (expected lockfileVersion ${LOCKFILE_VERSION}). ` +
+            `Run "npx abiregistry pull --update" to regenerate it.`
+        )
+    }
+
+    return lock
+}
+
+/**
+ * Write a lockfile with stable formatting so diffs stay minimal
+ */
+export function writeLockfile(filePath: string, lock: Lockfile): void {
+    fs.writeFileSync(filePath, `${JSON.stringify(lock, null, 2)}\n`, 'utf-8')
+}
+
+/**
+ * Build a lockfile recording exactly which versions were generated
+ */
+export function createLockfile(abis: AbiItem[]): Lockfile {
+    const entries = abis.map((abi): LockEntry => ({
+        contractName: abi.contractName || abi.contract,
+        chainId: abi.chainId,
+        address: abi.address,
+        version: abi.version ?? null,
+        abiHash: getAbiHash(abi),
+        ...(abi.label ? { label: abi.label } : {}),
+    }))
+
+    entries.sort((a, b) =>
+        a.contractName.localeCompare(b.contractName) ||
+        a.chainId - b.chainId ||
+        a.address.toLowerCase().localeCompare(b.address.toLowerCase())
+    )
+
+    return { lockfileVersion: LOCKFILE_VERSION, entries }
+}
+
+/**
+ * Pick the current version of every deployment (one per chain + address)
+ * Prefers the server's isLatest flag, falling back to the highest version number
+ */
+export function selectLatest(abis: AbiItem[]): AbiItem[] {
+    const byDeployment = new Map<string, AbiItem>()
+
+    for (const abi of abis) {
+        const key = deploymentKey(abi.chainId, abi.address)
+        const current = byDeployment.get(key)
+        if (!current || isNewer(abi, current)) {
+            byDeployment.set(key, abi)
+        }
+    }
+
+    return Array.from(byDeployment.values())
+}
+
+/**
+ * Match lockfile entries against ABIs from the registry
+ * `fetchMissing` is consulted for locked versions that weren't in `abis` (e.g. older versions)
+ */
+export async function resolveLockfile(
+    lock: Lockfile,
+    abis: AbiItem[],
+    fetchMissing?: (entry: LockEntry) => Promise<AbiItem | null>
+): Promise<LockResolution> {
+    const resolution: LockResolution = { abis: [], missing: [], changed: [], unlocked: [] }
+    const lockedDeployments = new Set<string>()
+
+    for (const entry of lock.entries) {
+        lockedDeployments.add(deploymentKey(entry.chainId, entry.address))
+
+        let match = abis.find((abi) => matchesEntry(abi, entry)) || null
+        if (!match && fetchMissing) {
+            match = await fetchMissing(entry)
+        }
+
+        if (!match) {
+            resolution.missing.push(entry)
+        } else if (getAbiHash(match) !== entry.abiHash) {
+            resolution.changed.push(entry)
+        } else {
+            resolution.abis.push(match)
+        }
+    }
+
+    resolution.unlocked = selectLatest(abis).filter(
+        (abi) => !lockedDeployments.has(deploymentKey(abi.chainId, abi.address))
+    )
+
+    return resolution
+}
+
+function matchesEntry(abi: AbiItem, entry: LockEntry): boolean {
+    if (abi.chainId !== entry.chainId || abi.address.toLowerCase() !== entry.address.toLowerCase()) {
+        return false
+    }
+    if (entry.version !== null) {
+        return abi.version === entry.version
+    }
+    return getAbiHash(abi) === entry.abiHash
+}
+
+function isNewer(candidate: AbiItem, current: AbiItem): boolean {
+    if (candidate.isLatest !== current.isLatest) {
+        return candidate.isLatest
+    }
+    return (candidate.version ?? 0) > (current.version ?? 0)
+}
+
+export function deploymentKey(chainId: number, address: string): string {
+    return `${chainId}:${address.toLowerCase()}`
+}
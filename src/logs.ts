@@ -0,0 +1,178 @@
+import type { AbiEntry, AbiItem } from './types'
+import { AbiCodingError } from './errors'
+import { decodeParameters } from './utils/abiCoder'
+import { formatSignature, getTopic, type AbiParameter } from './utils/signature'
+
+/**
+ * A raw log as returned by eth_getLogs or in a transaction receipt
+ * Other fields (blockNumber, transactionHash, ...) are carried through untouched
+ */
+export type EventLog = {
+    address?: string
+    topics: string[]
+    data: string
+    chainId?: number        // Not part of eth_getLogs output; set it to prefer ABIs deployed on this chain
+    [key: string]: unknown
+}
+
+export type DecodedEventArgument = {
+    name: string
+    type: string
+    indexed: boolean
+    value: unknown
+    hashed?: boolean        // Indexed string/bytes/array/tuple: only its Keccak-256 hash is in the topic
+}
+
+export type DecodedEvent = {
+    name: string
+    signature: string
+    topic: string           // topic0 (computed for anonymous events, which don't emit it)
+    anonymous: boolean
+    args: DecodedEventArgument[]
+}
+
+export type DecodedLog = DecodedEvent & {
+    log: EventLog
+    abi: AbiItem            // The registry ABI the event was decoded with
+}
+
+type EventCandidate = {
+    abi: AbiItem
+    entry: AbiEntry
+}
+
+/**
+ * Decode a log with a single ABI
+ * Tries the event whose topic0 matches, then anonymous events with the same number of indexed parameters
+ */
+export function decodeEventLog(abi: AbiEntry[], log: EventLog): DecodedEvent {
+    const topic0 = log.topics[0]?.toLowerCase()
+    const events = abi.filter((entry) => entry.type === 'event')
+    const named = events.filter((entry) => !entry.anonymous && getTopic(entry) === topic0)
+    const anonymous = events.filter((entry) => entry.anonymous)
+
+    for (const entry of [...named, ...anonymous]) {
+        try {
+            return decodeEvent(entry, log)
+        } catch (error) {
+            if (!(error instanceof AbiCodingError)) {
+                throw error
+            }
+        }
+    }
+
+    throw new AbiCodingError(`No event in the ABI matches topic ${topic0 ?? '(none)'}`)
+}
+
+/**
+ * Decodes logs against many registry ABIs at once
+ * Event topics are indexed up front; when several ABIs declare the same event, the one deployed at
+ * the log's address (and chain) wins, so shared events like Transfer are attributed correctly
+ */
+export class LogDecoder {
+    private readonly byTopic = new Map<string, EventCandidate[]>()
+    private readonly anonymous: EventCandidate[] = []
+
+    constructor(abis: AbiItem[]) {
+        for (const abi of abis) {
+            for (const entry of abi.abi) {
+                if (entry.type !== 'event') {
+                    continue
+                }
+
+                if (entry.anonymous) {
+                    this.anonymous.push({ abi, entry })
+                    continue
+                }
+
+                const topic = getTopic(entry)
+                const candidates = this.byTopic.get(topic) || []
+                candidates.push({ abi, entry })
+                this.byTopic.set(topic, candidates)
+            }
+        }
+    }
+
+    /**
+     * Decode one log, or return null when no ABI decodes it
+     * @param chainId Chain the log came from, when the log itself doesn't say
+     */
+    decode(log: EventLog, chainId?: number): DecodedLog | null {
+        const topic0 = log.topics[0]?.toLowerCase()
+        const named = topic0 ? this.byTopic.get(topic0) || [] : []
+        const chain = log.chainId ?? chainId
+
+        // Anonymous events are only a fallback: without topic0 any of them could fit
+        for (const candidates of [named, this.anonymous]) {
+            for (const { abi, entry } of this.rank(candidates, log.address, chain)) {
+                try {
+                    return { ...decodeEvent(entry, log), log, abi }
+                } catch (error) {
+                    if (!(error instanceof AbiCodingError)) {
+                        throw error
+                    }
+                }
+            }
+        }
+
+        return null
+    }
+
+    decodeAll(logs: EventLog[], chainId?: number): Array<DecodedLog | null> {
+        return logs.map((log) => this.decode(log, chainId))
+    }
+
+    private rank(candidates: EventCandidate[], address: string | undefined, chainId: number | undefined): EventCandidate[] {
+        const score = ({ abi }: EventCandidate) =>
+            (address && abi.address.toLowerCase() === address.toLowerCase() ? 2 : 0) +
+            (chainId !== undefined && abi.chainId === chainId ? 1 : 0)
+
+        // Array.prototype.sort is stable, so equally ranked ABIs keep registry order
+        return [...candidates].sort((a, b) => score(b) - score(a))
+    }
+}
+
+function decodeEvent(entry: AbiEntry, log: EventLog): DecodedEvent {
+    const inputs = (entry.inputs || []) as AbiParameter[]
+    const indexed = inputs.filter((input) => input.indexed)
+    const topics = entry.anonymous ? log.topics : log.topics.slice(1)
+
+    if (topics.length !== indexed.length) {
+        throw new AbiCodingError(
+            `${formatSignature(entry)} has ${indexed.length} indexed parameter(s) but the log has ${topics.length} topic(s)`
+        )
+    }
+
+    const data = decodeParameters(inputs.filter((input) => !input.indexed), log.data || '0x')
+    let topicIndex = 0
+    let dataIndex = 0
+
+    const args = inputs.map((input): DecodedEventArgument => {
+        const base = { name: input.name || '', type: input.type }
+
+        if (!input.indexed) {
+            return { ...base, indexed: false, value: data[dataIndex++] }
+        }
+
+        const topic = topics[topicIndex++]
+        if (isHashedInTopic(input.type)) {
+            return { ...base, indexed: true, value: topic.toLowerCase(), hashed: true }
+        }
+        return { ...base, indexed: true, value: decodeParameters([input], topic)[0] }
+    })
+
+    return {
+        name: entry.name || '',
+        signature: formatSignature(entry),
+        topic: getTopic(entry),
+        anonymous: entry.anonymous === true,
+        args,
+    }
+}
+
+/**
+ * Indexed reference types can't fit in 32 bytes, so the topic holds their hash instead of the value
+ */
+function isHashedInTopic(type: string): boolean {
+    return type === 'string' || type === 'bytes' || type.endsWith(']') || type.startsWith('tuple')
+}
@@ -0,0 +1,114 @@
+import type { AbiItem, AbiQuery, AbiSelection } from './types'
+import { ConfigurationError } from './errors'
+import { deploymentKey, selectLatest } from './lockfile'
+
+export type SelectionResult = {
+    abis: AbiItem[]
+    pinned: AbiItem[]   // Subset of `abis` chosen by an explicit version or label
+}
+
+/**
+ * Narrow pulled ABIs down to the configured selections
+ * Unpinned selections resolve to the latest version of each matching deployment.
+ * Pinned versions that weren't in `abis` (e.g. older versions) are looked up with `fetchVersion` when the
+ * selection names a deployment, and with a `queryAbis` registry query otherwise
+ */
+export async function selectAbis(
+    abis: AbiItem[],
+    selections: AbiSelection[],
+    fetchVersion?: (chainId: number, address: string, versionOrLabel: number | string) => Promise<AbiItem | null>,
+    queryAbis?: (query: AbiQuery) => Promise<AbiItem[]>
+): Promise<SelectionResult> {
+    const byDeployment = new Map<string, AbiItem>()
+    const pinned: AbiItem[] = []
+
+    for (const selection of selections) {
+        validateSelection(selection)
+
+        const candidates = abis.filter((abi) => matchesDeployment(abi, selection))
+        const isPinned = selection.version !== undefined || selection.label !== undefined
+
+        let matches = isPinned
+            ? selectLatest(candidates.filter((abi) => matchesVersion(abi, selection)))
+            : selectLatest(candidates)
+
+        if (matches.length === 0 && isPinned) {
+            if (selection.chainId !== undefined && selection.address) {
+                const fetched = fetchVersion
+                    ? await fetchVersion(selection.chainId, selection.address, selection.version ?? selection.label!)
+                    : null
+                matches = fetched ? [fetched] : []
+            } else if (queryAbis) {
+                const { contractName, chainId, address, version, label } = selection
+                const fetched = await queryAbis({ contractName, chainId, address, version, label })
+                matches = selectLatest(fetched.filter((abi) => matchesDeployment(abi, selection) && matchesVersion(abi, selection)))
+            }
+        }
+
+        if (matches.length === 0) {
+            throw new ConfigurationError(`No ABI in the registry matches selection ${formatSelection(selection)}`)
+        }
+
+        for (const abi of matches) {
+            const key = deploymentKey(abi.chainId, abi.address)
+            const existing = byDeployment.get(key)
+            if (existing && existing.id !== abi.id) {
+                throw new ConfigurationError(
+                    `Selections resolve to different versions of ${abi.contractName} (chain ${abi.chainId}, ${abi.address}): ` +
+                    `v${existing.version ?? '?'} and v${abi.version ?? '?'}`
+                )
+            }
+            byDeployment.set(key, abi)
+            if (isPinned) {
+                pinned.push(abi)
+            }
+        }
+    }
+
+    return { abis: Array.from(byDeployment.values()), pinned }
+}
+
+function validateSelection(selection: AbiSelection): void {
+    if (!selection.contractName && selection.chainId === undefined && !selection.address) {
+        throw new ConfigurationError(
+            `Selection ${formatSelection(selection)} must set at least one of contractName, chainId or address`
+        )
+    }
+    if (selection.version !== undefined && selection.label !== undefined) {
+        throw new ConfigurationError(
+            `Selection ${formatSelection(selection)} sets both version and label; use one or the other`
+        )
+    }
+}
+
+function matchesDeployment(abi: AbiItem, selection: AbiSelection): boolean {
+    if (selection.contractName && (abi.contractName || abi.contract) !== selection.contractName) {
+        return false
+    }
+    if (selection.chainId !== undefined && abi.chainId !== selection.chainId) {
+        return false
+    }
+    if (selection.address && abi.address.toLowerCase() !== selection.address.toLowerCase()) {
+        return false
+    }
+    return true
+}
+
+function matchesVersion(abi: AbiItem, selection: AbiSelection): boolean {
+    if (selection.version !== undefined) {
+        return abi.version === selection.version
+    }
+    return abi.label === selection.label
+}
+
+function formatSelection(selection: AbiSelection): string {
+    const parts = [
+        selection.contractName,
+        selection.chainId !== undefined ? `chain ${selection.chainId}` : undefined,
+        selection.address,
+        selection.version !== undefined ? `v${selection.version}` : undefined,
+        selection.label !== undefined ? `label "${selection.label}"` : undefined,
+    ].filter(Boolean)
+
+    return parts.length > 0 ? `(${parts.join(', ')})` : '{}'
+}
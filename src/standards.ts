@@ -0,0 +1,224 @@
+import type { AbiEntry, AbiItem } from './types'
+import { ConfigurationError } from './errors'
+import { getInterfaceId, getSelector, getSelectors, getTopic } from './utils/signature'
+
+export type InterfaceStandard = {
+    id: string              // Identifier used in filters and generated files, e.g. "ERC20"
+    name: string            // Display name, e.g. "ERC-20 Token"
+    functions: string[]     // Canonical signatures of the required functions
+    events: string[]        // Canonical signatures of the required events
+    extends?: string[]      // Standards that must also be present, e.g. ERC4626 requires ERC20
+}
+
+/**
+ * Known ERC interfaces, checked by function selector and event topic
+ * Optional members (e.g. ERC-20 name/symbol/decimals) live in their own extension entries
+ */
+export const STANDARD_INTERFACES: InterfaceStandard[] = [
+    {
+        id: 'ERC20',
+        name: 'ERC-20 Token',
+        functions: [
+            'totalSupply()',
+            'balanceOf(address)',
+            'transfer(address,uint256)',
+            'transferFrom(address,address,uint256)',
+            'approve(address,uint256)',
+            'allowance(address,address)',
+        ],
+        events: ['Transfer(address,address,uint256)', 'Approval(address,address,uint256)'],
+    },
+    {
+        id: 'ERC20Metadata',
+        name: 'ERC-20 Metadata',
+        functions: ['name()', 'symbol()', 'decimals()'],
+        events: [],
+        extends: ['ERC20'],
+    },
+    {
+        id: 'ERC2612',
+        name: 'ERC-2612 Permit',
+        functions: ['permit(address,address,uint256,uint256,uint8,bytes32,bytes32)', 'nonces(address)', 'DOMAIN_SEPARATOR()'],
+        events: [],
+        extends: ['ERC20'],
+    },
+    {
+        id: 'ERC4626',
+        name: 'ERC-4626 Tokenized Vault',
+        functions: [
+            'asset()',
+            'totalAssets()',
+            'convertToShares(uint256)',
+            'convertToAssets(uint256)',
+            'maxDeposit(address)',
+            'previewDeposit(uint256)',
+            'deposit(uint256,address)',
+            'maxMint(address)',
+            'previewMint(uint256)',
+            'mint(uint256,address)',
+            'maxWithdraw(address)',
+            'previewWithdraw(uint256)',
+            'withdraw(uint256,address,address)',
+            'maxRedeem(address)',
+            'previewRedeem(uint256)',
+            'redeem(uint256,address,address)',
+        ],
+        events: ['Deposit(address,address,uint256,uint256)', 'Withdraw(address,address,address,uint256,uint256)'],
+        extends: ['ERC20'],
+    },
+    {
+        id: 'ERC721',
+        name: 'ERC-721 Non-Fungible Token',
+        functions: [
+            'balanceOf(address)',
+            'ownerOf(uint256)',
+            'safeTransferFrom(address,address,uint256,bytes)',
+            'safeTransferFrom(address,address,uint256)',
+            'transferFrom(address,address,uint256)',
+            'approve(address,uint256)',
+            'setApprovalForAll(address,bool)',
+            'getApproved(uint256)',
+            'isApprovedForAll(address,address)',
+        ],
+        events: ['Transfer(address,address,uint256)', 'Approval(address,address,uint256)', 'ApprovalForAll(address,address,bool)'],
+    },
+    {
+        id: 'ERC721Metadata',
+        name: 'ERC-721 Metadata',
+        functions: ['name()', 'symbol()', 'tokenURI(uint256)'],
+        events: [],
+        extends: ['ERC721'],
+    },
+    {
+        id: 'ERC721Enumerable',
+        name: 'ERC-721 Enumerable',
+        functions: ['totalSupply()', 'tokenOfOwnerByIndex(address,uint256)', 'tokenByIndex(uint256)'],
+        events: [],
+        extends: ['ERC721'],
+    },
+    {
+        id: 'ERC1155',
+        name: 'ERC-1155 Multi Token',
+        functions: [
+            'safeTransferFrom(address,address,uint256,uint256,bytes)',
+            'safeBatchTransferFrom(address,address,uint256[],uint256[],bytes)',
+            'balanceOf(address,uint256)',
+            'balanceOfBatch(address[],uint256[])',
+            'setApprovalForAll(address,bool)',
+            'isApprovedForAll(address,address)',
+        ],
+        events: [
+            'TransferSingle(address,address,address,uint256,uint256)',
+            'TransferBatch(address,address,address,uint256[],uint256[])',
+            'ApprovalForAll(address,address,bool)',
+            'URI(string,uint256)',
+        ],
+    },
+    {
+        id: 'ERC1155MetadataURI',
+        name: 'ERC-1155 Metadata URI',
+        functions: ['uri(uint256)'],
+        events: [],
+        extends: ['ERC1155'],
+    },
+    {
+        id: 'ERC165',
+        name: 'ERC-165 Interface Detection',
+        functions: ['supportsInterface(bytes4)'],
+        events: [],
+    },
+    {
+        id: 'ERC173',
+        name: 'ERC-173 Contract Ownership',
+        functions: ['owner()', 'transferOwnership(address)'],
+        events: ['OwnershipTransferred(address,address)'],
+    },
+    {
+        id: 'ERC2981',
+        name: 'ERC-2981 NFT Royalty',
+        functions: ['royaltyInfo(uint256,uint256)'],
+        events: [],
+    },
+]
+
+/**
+ * Ids of the standards an ABI implements, in catalog order
+ * A standard matches when every required selector and topic is present and the standards it extends match too
+ */
+export function detectStandards(abi: AbiEntry[], catalog: InterfaceStandard[] = STANDARD_INTERFACES): string[] {
+    const selectors = getSelectors(abi)
+    const functions = new Set(Object.values(selectors.functions))
+    const events = new Set(Object.values(selectors.events))
+
+    const implemented = new Set(
+        catalog
+            .filter((standard) =>
+                standard.functions.every((signature) => functions.has(getSelector(signature))) &&
+                standard.events.every((signature) => events.has(getTopic(signature)))
+            )
+            .map((standard) => standard.id)
+    )
+
+    return catalog
+        .filter((standard) => implemented.has(standard.id) && (standard.extends || []).every((id) => implemented.has(id)))
+        .map((standard) => standard.id)
+}
+
+/**
+ * ERC-165 interface IDs of the standards and interfaces an ABI implements
+ * `interfaces` maps names to interface ABIs (e.g. Solidity interface artifacts); one applies when the ABI has all its functions
+ */
+export function getInterfaceIds(
+    abi: AbiEntry[],
+    interfaces: Record<string, AbiEntry[]> = {},
+    standards: string[] = detectStandards(abi)
+): Record<string, string> {
+    const ids: Record<string, string> = {}
+
+    for (const id of standards) {
+        const standard = STANDARD_INTERFACES.find((candidate) => candidate.id === id)
+        if (standard && standard.functions.length > 0) {
+            ids[id] = getInterfaceId(standard.functions)
+        }
+    }
+
+    const functions = new Set(Object.values(getSelectors(abi).functions))
+    for (const [name, interfaceAbi] of Object.entries(interfaces)) {
+        const required = Object.values(getSelectors(interfaceAbi).functions)
+        if (required.length > 0 && required.every((selector) => functions.has(selector))) {
+            ids[name] = getInterfaceId(interfaceAbi)
+        }
+    }
+
+    return ids
+}
+
+/**
+ * Copy ABI items with their detected standards attached
+ */
+export function annotateStandards(abis: AbiItem[], catalog: InterfaceStandard[] = STANDARD_INTERFACES): AbiItem[] {
+    return abis.map((abi) => ({ ...abi, standards: detectStandards(abi.abi, catalog) }))
+}
+
+/**
+ * Keep ABIs implementing any of the given standards
+ * Ids are matched loosely ("erc-20", "EIP20" and "ERC20" are the same); unknown ids throw ConfigurationError
+ */
+export function filterByStandards(abis: AbiItem[], standards: string[], catalog: InterfaceStandard[] = STANDARD_INTERFACES): AbiItem[] {
+    const known = new Map(catalog.map((standard) => [normalizeStandardId(standard.id), standard.id]))
+    const wanted = new Set(standards.map((requested) => {
+        const id = known.get(normalizeStandardId(requested))
+        if (!id) {
+            throw new ConfigurationError(
+                `Unknown standard "${requested}". Known standards: ${catalog.map((standard) => standard.id).join(', ')}`
+            )
+        }
+        return id
+    }))
+
+    return abis.filter((abi) => (abi.standards ?? detectStandards(abi.abi, catalog)).some((id) => wanted.has(id)))
+}
+
+function normalizeStandardId(id: string): string {
+    return id.toUpperCase().replace(/[^A-Z0-9]/g, '').replace(/^EIP/, 'ERC')
+}
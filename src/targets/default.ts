@@ -0,0 +1,447 @@
+import type { AbiGroup, AbiItem, GeneratedFile, GeneratorContext, GeneratorOptions, GeneratorPlugin } from '../types'
+import { getInterfaceId, getSelectors, type AbiParameter } from '../utils/signature'
+import { toTypeScriptTuple } from '../utils/tsTypes'
+import { formatHumanReadableAbi } from '../humanReadable'
+import { detectStandards, getInterfaceIds } from '../standards'
+
+/**
+ * Built-in 'default' plugin: a file per contract (ABI, selectors, addresses, config), plus index, types and registry
+ */
+export const defaultPlugin: GeneratorPlugin = {
+    name: 'default',
+    generate: (groups, context) => new DefaultGenerator(context).generateFiles(groups),
+}
+
+class DefaultGenerator {
+    private typescript: boolean
+    private options: GeneratorOptions
+
+    constructor({ typescript, options }: GeneratorContext) {
+        this.typescript = typescript
+        this.options = options
+    }
+
+    /**
+     * Generate contract, index, types and registry files
+     */
+    generateFiles(groups: AbiGroup[]): GeneratedFile[] {
+        const files: GeneratedFile[] = []
+
+        // Generate individual ABI files, named by CodeGenerator (network suffix when a contract is on several)
+        for (const group of groups) {
+            files.push(this.generateAbiFile(group))
+        }
+
+        // Generate index file
+        files.push(this.generateIndexFile(groups))
+
+        // Generate types file (TypeScript only)
+        if (this.typescript) {
+            files.push(this.generateTypesFile(groups))
+        }
+
+        // Generate registry file with typed mapping
+        files.push(this.generateRegistryFile(groups))
+
+        return files
+    }
+
+    /**
+     * Generate individual ABI file
+     */
+    private generateAbiFile(group: AbiGroup): GeneratedFile {
+        const ext = this.typescript ? '.ts' : '.js'
+
+        const content = this.typescript
+            ? this.generateTypeScriptAbiFile(group)
+            : this.generateJavaScriptAbiFile(group)
+
+        return {
+            path: `${group.fileName}${ext}`,
+            content,
+        }
+    }
+
+    /**
+     * Generate TypeScript ABI file
+     */
+    private generateTypeScriptAbiFile({ item: abi, varName }: AbiGroup): string {
+        const hasMultipleAddresses = abi.addresses && abi.addresses.length > 1
+        const primaryAddress = abi.address
+
+        const addressSection = hasMultipleAddresses
+            ? `export const ${varName}Addresses = ${JSON.stringify(abi.addresses, null, 2)} as const
+
+export const ${varName}Address = ${varName}Addresses[0] // Primary address`
+            : `export const ${varName}Address = '${primaryAddress}' as const`
+
+        return `/**
+ * ${abi.contract}
+ * Network: ${abi.network}
+ * Chain ID: ${abi.chainId}
+ * ${hasMultipleAddresses ? `Addresses: ${abi.addresses!.length} instances` : `Address: ${primaryAddress}`}
+ * Version: v${abi.version || 1}
+ */
+
+export const ${varName}Abi = ${JSON.stringify(abi.abi, null, 2)} as const
+
+${this.generateHumanReadableSection(abi, varName)}// Signature → 4-byte selector (functions, errors) or topic0 (events)
+export const ${varName}Selectors = ${JSON.stringify(getSelectors(abi.abi), null, 2)} as const
+
+${this.generateInterfaceIdSection(abi, varName)}
+
+${this.generateErrorsSection(abi, varName)}
+
+${addressSection}
+
+export const ${varName}ChainId = ${abi.chainId}
+
+export const ${varName}Config = {
+    ${hasMultipleAddresses ? 'addresses' : 'address'}: ${varName}Address${hasMultipleAddresses ? 'es' : ''},
+    abi: ${varName}Abi,
+    chainId: ${varName}ChainId,
+    standards: ${JSON.stringify(abi.standards ?? detectStandards(abi.abi))},
+} as const
+`
+    }
+
+    /**
+     * Generate JavaScript ABI file
+     */
+    private generateJavaScriptAbiFile({ item: abi, varName }: AbiGroup): string {
+        const hasMultipleAddresses = abi.addresses && abi.addresses.length > 1
+        const primaryAddress = abi.address
+
+        const addressSection = hasMultipleAddresses
+            ? `export const ${varName}Addresses = ${JSON.stringify(abi.addresses, null, 2)}
+
+export const ${varName}Address = ${varName}Addresses[0] // Primary address`
+            : `export const ${varName}Address = '${primaryAddress}'`
+
+        return `/**
+ * ${abi.contract}
+ * Network: ${abi.network}
+ * Chain ID: ${abi.chainId}
+ * ${hasMultipleAddresses ? `Addresses: ${abi.addresses!.length} instances` : `Address: ${primaryAddress}`}
+ * Version: v${abi.version || 1}
+ */
+
+export const ${varName}Abi = ${JSON.stringify(abi.abi, null, 2)}
+
+${this.generateHumanReadableSection(abi, varName)}// Signature → 4-byte selector (functions, errors) or topic0 (events)
+export const ${varName}Selectors = ${JSON.stringify(getSelectors(abi.abi), null, 2)}
+
+${this.generateInterfaceIdSection(abi, varName)}
+
+${this.generateErrorsSection(abi, varName)}
+
+${addressSection}
+
+export const ${varName}ChainId = ${abi.chainId}
+
+export const ${varName}Config = {
+    ${hasMultipleAddresses ? 'addresses' : 'address'}: ${varName}Address${hasMultipleAddresses ? 'es' : ''},
+    abi: ${varName}Abi,
+    chainId: ${varName}ChainId,
+    standards: ${JSON.stringify(abi.standards ?? detectStandards(abi.abi))},
+}
+`
+    }
+
+    /**
+     * Solidity-style signatures of the ABI, when enabled (empty otherwise)
+     */
+    private generateHumanReadableSection(abi: AbiItem, varName: string): string {
+        if (!this.options.humanReadableAbi) {
+            return ''
+        }
+
+        const signatures = JSON.stringify(formatHumanReadableAbi(abi.abi), null, 2)
+        return `export const ${varName}HumanReadableAbi = ${signatures}${this.typescript ? ' as const' : ''}
+
+`
+    }
+
+    /**
+     * ERC-165 interface ID of the whole ABI, plus one per implemented standard or configured interface
+     */
+    private generateInterfaceIdSection(abi: AbiItem, varName: string): string {
+        const asConst = this.typescript ? ' as const' : ''
+        const ids = getInterfaceIds(abi.abi, this.options.interfaces, abi.standards ?? detectStandards(abi.abi))
+
+        return `// ERC-165 interface IDs (XOR of function selectors)
+export const ${varName}InterfaceId = '${getInterfaceId(abi.abi)}'${asConst}
+
+export const ${varName}InterfaceIds = ${JSON.stringify(ids, null, 2)}${asConst}`
+    }
+
+    /**
+     * Custom error names and, for TypeScript, a union of the errors with their decoded arguments
+     */
+    private generateErrorsSection(abi: AbiItem, varName: string): string {
+        const errors = abi.abi.filter((entry) => entry.type === 'error')
+        const names = Array.from(new Set(errors.map((entry) => entry.name || '')))
+
+        if (!this.typescript) {
+            return `export const ${varName}Errors = ${JSON.stringify(names)}`
+        }
+
+        const union = errors.length > 0
+            ? errors.map((entry) =>
+                `\n    | { errorName: '${entry.name}'; args: ${toTypeScriptTuple((entry.inputs || []) as AbiParameter[])} }`
+            ).join('')
+            : ' never'
+
+        return `export const ${varName}Errors = ${JSON.stringify(names)} as const
+
+export type ${varName}ErrorName = typeof ${varName}Errors[number]
+
+// Custom errors with their decoded arguments
+export type ${varName}Error =${union}`
+    }
+
+    /**
+     * Generate index file that exports all ABIs
+     */
+    private generateIndexFile(groups: AbiGroup[]): GeneratedFile {
+        const ext = this.typescript ? '.ts' : '.js'
+        const exports = groups.map((group) => `export * from './${group.fileName}'`)
+
+        const content = `/**
+ * Auto-generated ABI exports
+ * Generated by @abiregistry/sdk
+ */
+
+${exports.join('\n')}
+
+// Re-export registry for convenience
+export { contracts } from './registry'
+`
+
+        return {
+            path: `index${ext}`,
+            content,
+        }
+    }
+
+    /**
+     * Generate types file for TypeScript
+     */
+    private generateTypesFile(groups: AbiGroup[]): GeneratedFile {
+        const typeDefinitions = groups.map(({ varName, fileName }) =>
+            `export type ${varName}Type = typeof import('./${fileName}').${varName}Abi`
+        )
+
+        const content = `/**
+ * Auto-generated types
+ * Generated by @abiregistry/sdk
+ */
+
+${typeDefinitions.join('\n')}
+
+export type AllAbis = {
+${groups.map(({ varName }) => `    ${varName}: ${varName}Type`).join('\n')}
+}
+`
+
+        return {
+            path: 'types.ts',
+            content,
+        }
+    }
+
+    /**
+     * Generate registry file with typed contract mapping
+     */
+    private generateRegistryFile(groups: AbiGroup[]): GeneratedFile {
+        // Group ABIs by network
+        const byNetwork = new Map<string, Map<string, AbiGroup>>()
+        const chainIds = new Set<number>()
+
+        for (const group of groups) {
+            const network = group.item.network.toLowerCase()
+            if (!byNetwork.has(network)) {
+                byNetwork.set(network, new Map())
+            }
+            byNetwork.get(network)!.set(group.item.contract, group)
+            chainIds.add(group.item.chainId)
+        }
+
+        if (this.typescript) {
+            return this.generateTypeScriptRegistry(groups, byNetwork, chainIds)
+        } else {
+            return this.generateJavaScriptRegistry(groups, byNetwork, chainIds)
+        }
+    }
+
+    private generateTypeScriptRegistry(
+        groups: AbiGroup[],
+        byNetwork: Map<string, Map<string, AbiGroup>>,
+        chainIds: Set<number>
+    ): GeneratedFile {
+        // Generate imports
+        const imports = groups.map(({ varName, fileName }) => `import { ${varName}Config } from './${fileName}'`)
+
+        // Generate network objects
+        const networkObjects: string[] = []
+        for (const [network, contracts] of byNetwork) {
+            const contractEntries: string[] = []
+            for (const [contractName, { varName }] of contracts) {
+                contractEntries.push(`    ${contractName}: ${varName}Config`)
+            }
+            networkObjects.push(`  ${network}: {\n${contractEntries.join(',\n')}\n  }`)
+        }
+
+        const content = `/**
+ * Auto-generated contract registry
+ * Generated by @abiregistry/sdk
+ * 
+ * Access contracts by network name or chain ID:
+ * - contracts.mainnet.MyToken
+ * - contracts[1].MyToken
+ */
+
+${imports.join('\n')}
+
+// Network-based contract registry
+const networkContracts = {
+${networkObjects.join(',\n')}
+} as const
+
+// Export with chain ID aliases
+export const contracts = {
+  ...networkContracts,
+  // Chain ID aliases (point to same network objects)
+${Array.from(chainIds).sort((a, b) => a - b).map(chainId => {
+            const network = groups.find(({ item }) => item.chainId === chainId)?.item.network.toLowerCase()
+            return network ? `  ${chainId}: networkContracts.${network}` : null
+        }).filter(Boolean).join(',\n')}
+} as const
+
+// Type helpers
+export type Network = keyof typeof contracts
+export type ContractsOn<T extends Network> = T extends string | number 
+  ? typeof contracts[T] extends object ? keyof typeof contracts[T] : never
+  : never
+
+/**
+ * Get a contract config with full type safety
+ * @example
+ * const token = getContract('mainnet', 'MyToken')
+ * const sameToken = getContract(1, 'MyToken')  // Same as above
+ */
+export function getContract<
+  TNet extends Network,
+  TName extends ContractsOn<TNet>
+>(
+  network: TNet,
+  contractName: TName
+): typeof contracts[TNet][TName] {
+  return contracts[network][contractName]
+}
+
+/**
+ * Get all deployments of a contract across networks
+ */
+export function getContractDeployments(contractName: string) {
+  const deployments: Array<{
+    network: string
+    chainId: number
+    config: any
+  }> = []
+  
+  for (const [key, networkContracts] of Object.entries(contracts)) {
+    if (typeof key === 'string' && !key.match(/^\\d+$/)) {
+      const contract = (networkContracts as any)[contractName]
+      if (contract) {
+        deployments.push({
+          network: key,
+          chainId: contract.chainId,
+          config: contract
+        })
+      }
+    }
+  }
+  
+  return deployments
+}
+`
+
+        return {
+            path: 'registry.ts',
+            content,
+        }
+    }
+
+    private generateJavaScriptRegistry(
+        groups: AbiGroup[],
+        byNetwork: Map<string, Map<string, AbiGroup>>,
+        chainIds: Set<number>
+    ): GeneratedFile {
+        // Generate imports
+        const imports = groups.map(({ varName, fileName }) => `const { ${varName}Config } = require('./${fileName}')`)
+
+        // Generate network objects
+        const networkObjects: string[] = []
+        for (const [network, contracts] of byNetwork) {
+            const contractEntries: string[] = []
+            for (const [contractName, { varName }] of contracts) {
+                contractEntries.push(`    ${contractName}: ${varName}Config`)
+            }
+            networkObjects.push(`  ${network}: {\n${contractEntries.join(',\n')}\n  }`)
+        }
+
+        const content = `/**
+ * Auto-generated contract registry
+ * Generated by @abiregistry/sdk
+ */
+
+${imports.join('\n')}
+
+// Network-based contract registry
+const networkContracts = {
+${networkObjects.join(',\n')}
+}
+
+// Export with chain ID aliases
+const contracts = {
+  ...networkContracts,
+  // Chain ID aliases (point to same network objects)
+${Array.from(chainIds).sort((a, b) => a - b).map(chainId => {
+            const network = groups.find(({ item }) => item.chainId === chainId)?.item.network.toLowerCase()
+            return network ? `  ${chainId}: networkContracts.${network}` : null
+        }).filter(Boolean).join(',\n')}
+}
+
+function getContract(network, contractName) {
+  return contracts[network][contractName]
+}
+
+function getContractDeployments(contractName) {
+  const deployments = []
+  
+  for (const [key, networkContracts] of Object.entries(contracts)) {
+    if (typeof key === 'string' && !key.match(/^\\d+$/)) {
+      const contract = networkContracts[contractName]
+      if (contract) {
+        deployments.push({
+          network: key,
+          chainId: contract.chainId,
+          config: contract
+        })
+      }
+    }
+  }
+  
+  return deployments
+}
+
+module.exports = { contracts, getContract, getContractDeployments }
+`
+
+        return {
+            path: 'registry.js',
+            content,
+        }
+    }
+}
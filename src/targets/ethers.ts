@@ -0,0 +1,317 @@
+import type { AbiEntry, AbiGroup, GeneratedFile, GeneratorPlugin } from '../types'
+import { formatSignature, type AbiParameter } from '../utils/signature'
+import { groupByNetwork, propertyKey, toPascalCase } from './shared'
+
+// BaseContract members a contract method can't shadow; those methods are only typed under their signature key
+const BASE_CONTRACT_MEMBERS = new Set([
+    'target', 'interface', 'runner', 'filters', 'fallback', 'connect', 'attach', 'getAddress', 'getDeployedCode',
+    'waitForDeployment', 'deploymentTransaction', 'getFunction', 'getEvent', 'queryTransaction', 'queryFilter',
+    'on', 'once', 'emit', 'listenerCount', 'listeners', 'off', 'removeAllListeners', 'addListener', 'removeListener',
+])
+
+const RESERVED_WORDS = new Set([
+    'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do', 'else', 'enum',
+    'export', 'extends', 'false', 'finally', 'for', 'function', 'if', 'import', 'in', 'instanceof', 'new', 'null',
+    'return', 'super', 'switch', 'this', 'throw', 'true', 'try', 'typeof', 'var', 'void', 'while', 'with',
+])
+
+/**
+ * Struct types collected while typing one contract, emitted in its namespace
+ */
+type StructTypes = {
+    namespace: string
+    definitions: Map<string, { components: string; input: string; output: string }>
+    imports: Set<string>     // ethers type imports used so far
+}
+
+/**
+ * Built-in 'ethers' plugin: ethers.ts with typed contract interfaces and connect helpers
+ */
+export const ethersPlugin: GeneratorPlugin = {
+    name: 'ethers',
+    exports: ['ethers'],
+    generate: (groups, { typescript }) => [generateEthersFile(groups, typescript)],
+}
+
+/**
+ * ethers v6 target: a typed <Name>Contract interface per contract (methods with overloads, event filters,
+ * struct and event types) and a connect<Name>(runner) helper, keyed by network and chain ID like `contracts` in the registry file
+ */
+export function generateEthersFile(contracts: AbiGroup[], typescript: boolean): GeneratedFile {
+    const { networks, chainIds } = groupByNetwork(contracts)
+
+    const typeImports = new Set<string>()
+    const contractSections = contracts.map((contract) => typescript
+        ? generateContract(contract, typeImports)
+        : `export function connect${toPascalCase(contract.varName)}(runner, address = ${contract.varName}Address) {
+  return new Contract(address, ${contract.varName}Abi, runner)
+}`)
+
+    const ethersImports = ['Contract', ...[...typeImports].sort().map((name) => `type ${name}`)]
+    const imports = [
+        ethersImports.length > 3
+            ? `import {\n${ethersImports.map((name) => `  ${name},`).join('\n')}\n} from 'ethers'`
+            : `import { ${ethersImports.join(', ')} } from 'ethers'`,
+        ...contracts.map(({ varName, fileName }) => `import { ${varName}Abi, ${varName}Address } from './${fileName}'`),
+    ]
+
+    // Shared by every contract with functions: what a call resolves to follows the function's mutability
+    const methodTypeSection = typeImports.has('BaseContractMethod') ? `
+/**
+ * A contract method: arguments, result (also from staticCall) and state mutability
+ * Calling it resolves to the result of a view function, or to the sent transaction otherwise
+ */
+export type TypedContractMethod<A extends unknown[], R, S extends 'view' | 'nonpayable' | 'payable'> =
+  BaseContractMethod<A, R, S extends 'view' ? R : ContractTransactionResponse>
+` : ''
+
+    const networkEntries = [...networks].map(([network, byName]) => `  ${propertyKey(network)}: {
+${[...byName].map(([name, contract]) => `    ${propertyKey(name)}: connect${toPascalCase(contract.varName)}`).join(',\n')}
+  }`)
+    const asConst = typescript ? ' as const' : ''
+
+    const content = `/**
+ * Auto-generated ethers v6 contract typings
+ * Generated by @abiregistry/sdk
+ *
+ * Connect with a provider to read or a signer to write, by name or like contracts in ./registry:
+ * - connectMyToken(provider).balanceOf(owner)
+ * - ethersContracts.mainnet.MyToken(signer).transfer(to, 1n)
+ * - token.queryFilter(token.filters.Transfer(owner))
+ */
+
+${imports.join('\n')}
+${methodTypeSection}
+${contractSections.join('\n\n')}
+
+// Connect helpers by network name and chain ID
+const networkConnectors = {
+${networkEntries.join(',\n')}
+}${asConst}
+
+export const ethersContracts = {
+  ...networkConnectors,
+${[...chainIds].map(([chainId, network]) => `  ${chainId}: networkConnectors${/^[A-Za-z_$][A-Za-z0-9_$]*$/.test(network) ? `.${network}` : `[${JSON.stringify(network)}]`}`).join(',\n')}
+}${asConst}
+`
+
+    return {
+        path: `ethers${typescript ? '.ts' : '.js'}`,
+        content,
+    }
+}
+
+function generateContract(contract: AbiGroup, typeImports: Set<string>): string {
+    const { varName, item } = contract
+    const name = toPascalCase(varName)
+    const structs: StructTypes = { namespace: name, definitions: new Map(), imports: typeImports }
+    typeImports.add('BaseContract').add('ContractRunner')
+
+    const functions = item.abi.filter((entry) => entry.type === 'function' && entry.name)
+    const events = item.abi.filter((entry) => entry.type === 'event' && entry.name)
+
+    // Methods: overloaded functions are typed by name as the intersection of their overloads, and under each signature
+    const byName = new Map<string, string[]>()
+    const bySignature: string[] = []
+    for (const entry of functions) {
+        const method = methodType(entry, structs)
+        byName.set(entry.name!, [...(byName.get(entry.name!) || []), method])
+        if (functions.filter((other) => other.name === entry.name).length > 1 || BASE_CONTRACT_MEMBERS.has(entry.name!)) {
+            bySignature.push(`  ${JSON.stringify(formatSignature(entry))}: ${method}`)
+        }
+    }
+    const methods = [
+        ...[...byName]
+            .filter(([methodName]) => !BASE_CONTRACT_MEMBERS.has(methodName))
+            .map(([methodName, overloads]) => `  ${propertyKey(methodName)}: ${overloads.join(' & ')}`),
+        ...bySignature,
+    ]
+
+    // Events: decoded argument types and topic filters on the indexed parameters
+    const eventTypes: string[] = []
+    const filters: string[] = []
+    for (const entry of events) {
+        const overloaded = events.filter((other) => other.name === entry.name).length > 1
+        const inputs = (entry.inputs || []) as AbiParameter[]
+        const typeName = overloaded
+            ? `${formatSignature(entry).replace(/\W+/g, '_').replace(/_$/, '')}Event`
+            : `${entry.name}Event`
+        eventTypes.push(`  export type ${typeName} = ${resultType(inputs, structs, true)}`)
+
+        const lastIndexed = inputs.map((input) => input.indexed).lastIndexOf(true)
+        const names = parameterNames(inputs)
+        const params = inputs.slice(0, lastIndexed + 1).map((input, index) =>
+            `${names[index]}?: ${input.indexed ? `${parameterType(input, 'input', structs)} | null` : 'null'}`
+        )
+        typeImports.add('DeferredTopicFilter')
+        // ethers rejects ambiguous event names, so overloaded events are only filterable by signature
+        filters.push(`    ${propertyKey(overloaded ? formatSignature(entry) : entry.name!)}(${params.join(', ')}): DeferredTopicFilter`)
+    }
+
+    const structTypes = [...structs.definitions].flatMap(([structName, { input, output }]) => [
+        `  export type ${structName}Struct = ${input}`,
+        `  export type ${structName}StructOutput = ${output}`,
+    ])
+    const namespaceMembers = [...structTypes, ...eventTypes]
+
+    const sections: string[] = []
+    if (namespaceMembers.length > 0) {
+        sections.push(`/**
+ * Structs (Struct to pass, StructOutput as returned) and decoded event arguments of ${item.contract}
+ */
+export declare namespace ${name} {
+${namespaceMembers.join('\n')}
+}`)
+    }
+
+    sections.push(`/**
+ * ${item.contract} as an ethers Contract; view functions resolve to their result, others to the sent transaction
+ * Every method also has staticCall, estimateGas, populateTransaction and send
+ */
+export interface ${name}Contract extends Omit<BaseContract, 'connect' | 'filters'> {
+  connect(runner: ContractRunner | null): ${name}Contract
+${methods.length > 0 ? `\n${methods.join('\n')}\n` : ''}
+  filters: {${filters.length > 0 ? `\n${filters.join('\n')}\n  ` : ''}}
+}
+
+/**
+ * Typed ethers Contract for ${item.contract}; pass a provider to read or a signer to send transactions
+ */
+export function connect${name}(runner?: ContractRunner | null, address: string = ${varName}Address): ${name}Contract {
+  return new Contract(address, ${varName}Abi, runner) as unknown as ${name}Contract
+}`)
+
+    return `// ${item.contract} (${item.network}, chain ${item.chainId})\n${sections.join('\n\n')}`
+}
+
+/**
+ * Method type, e.g. "TypedContractMethod<[to: AddressLike, amount: BigNumberish], boolean, 'nonpayable'>"
+ */
+function methodType(entry: AbiEntry, structs: StructTypes): string {
+    const inputs = (entry.inputs || []) as AbiParameter[]
+    const names = parameterNames(inputs)
+    const args = inputs.map((input, index) => `${names[index]}: ${parameterType(input, 'input', structs)}`)
+
+    const outputs = (entry.outputs || []) as AbiParameter[]
+    const result = outputs.length === 0
+        ? 'void'
+        : outputs.length === 1 ? parameterType(outputs[0], 'output', structs) : resultType(outputs, structs)
+
+    const mutability = entry.stateMutability === 'view' || entry.stateMutability === 'pure'
+        ? 'view'
+        : entry.stateMutability === 'payable' ? 'payable' : 'nonpayable'
+
+    structs.imports.add('BaseContractMethod').add('ContractTransactionResponse')
+    return `TypedContractMethod<[${args.join(', ')}], ${result}, '${mutability}'>`
+}
+
+/**
+ * ethers Result type: a tuple that also has named members, e.g. "[to: string, amount: bigint] & { to: string; amount: bigint }"
+ * Indexed event parameters of dynamic types decode to their topic hash
+ */
+function resultType(params: AbiParameter[], structs: StructTypes, event = false): string {
+    const types = params.map((param) => {
+        if (event && param.indexed && isDynamic(param)) {
+            structs.imports.add('Indexed')
+            return 'Indexed'
+        }
+        return parameterType(param, 'output', structs)
+    })
+    const named = params.length > 0 &&
+        params.every((param) => param.name && isIdentifier(param.name)) &&
+        new Set(params.map((param) => param.name)).size === params.length
+    if (!named) {
+        return `[${types.join(', ')}]`
+    }
+    const labels = params.map((param, index) => `${param.name}: ${types[index]}`)
+    return `[${labels.join(', ')}] & { ${labels.join('; ')} }`
+}
+
+/**
+ * Type of a parameter as passed to ethers (loose, e.g. BigNumberish) or as returned (bigint, hex strings)
+ */
+function parameterType(param: AbiParameter, mode: 'input' | 'output', structs: StructTypes): string {
+    const array = /^(.*)\[(\d*)\]$/.exec(param.type)
+    if (array) {
+        const inner = parameterType({ ...param, type: array[1], internalType: param.internalType?.replace(/\[\d*\]$/, '') }, mode, structs)
+        return `${/[ |&]/.test(inner) ? `(${inner})` : inner}[]`
+    }
+
+    if (param.type === 'tuple') {
+        const components = (param.components || []) as AbiParameter[]
+        const declared = /^struct\s+(?:[\w$]+\.)*([\w$]+)/.exec(param.internalType || '')?.[1]
+        if (!declared) {
+            return mode === 'input' ? inputObjectType(components, structs) : resultType(components, structs)
+        }
+
+        // Structs from different contracts can share a name ("A.Order", "B.Order"); rename on a clash
+        const signature = JSON.stringify(components)
+        let structName = declared
+        for (let index = 2; structs.definitions.has(structName) && structs.definitions.get(structName)!.components !== signature; index++) {
+            structName = `${declared}${index}`
+        }
+        if (!structs.definitions.has(structName)) {
+            structs.definitions.set(structName, {
+                components: signature,
+                input: inputObjectType(components, structs),
+                output: resultType(components, structs),
+            })
+        }
+        return `${structs.namespace}.${structName}${mode === 'input' ? 'Struct' : 'StructOutput'}`
+    }
+
+    if (/^u?int\d*$/.test(param.type)) {
+        return useType(structs, mode === 'input' ? 'BigNumberish' : 'bigint')
+    }
+    if (param.type === 'bool') {
+        return 'boolean'
+    }
+    if (param.type === 'string') {
+        return 'string'
+    }
+    if (param.type === 'address') {
+        return useType(structs, mode === 'input' ? 'AddressLike' : 'string')
+    }
+    // bytes, bytesN and function
+    return useType(structs, mode === 'input' ? 'BytesLike' : 'string')
+}
+
+function inputObjectType(components: AbiParameter[], structs: StructTypes): string {
+    const types = components.map((component) => parameterType(component, 'input', structs))
+    const named = components.length > 0 &&
+        components.every((component) => component.name && isIdentifier(component.name)) &&
+        new Set(components.map((component) => component.name)).size === components.length
+    if (named) {
+        return `{ ${components.map((component, index) => `${component.name}: ${types[index]}`).join('; ')} }`
+    }
+    return `[${types.join(', ')}]`
+}
+
+function useType(structs: StructTypes, type: string): string {
+    if (/^[A-Z]/.test(type)) {
+        structs.imports.add(type)
+    }
+    return type
+}
+
+/**
+ * Parameter names usable in a TypeScript signature: unnamed, reserved and repeated names become arg<index>
+ */
+function parameterNames(params: AbiParameter[]): string[] {
+    const used = new Set(['overrides'])
+    return params.map((param, index) => {
+        const name = param.name && isIdentifier(param.name) && !RESERVED_WORDS.has(param.name) && !used.has(param.name)
+            ? param.name
+            : `arg${index}`
+        used.add(name)
+        return name
+    })
+}
+
+function isIdentifier(name: string): boolean {
+    return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name)
+}
+
+function isDynamic(param: AbiParameter): boolean {
+    return param.type === 'string' || param.type === 'bytes' || param.type.endsWith(']') || param.type.startsWith('tuple')
+}
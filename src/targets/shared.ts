@@ -0,0 +1,83 @@
+import type { AbiGroup } from '../types'
+
+/**
+ * "erc20TokenMainnet" → "Erc20TokenMainnet", for function and type names
+ */
+export function toPascalCase(varName: string): string {
+    return varName.charAt(0).toUpperCase() + varName.slice(1)
+}
+
+/**
+ * Object key as written in generated code, quoted unless it's an identifier or a number
+ */
+export function propertyKey(key: string | number): string {
+    return typeof key === 'number' || /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key) ? String(key) : JSON.stringify(key)
+}
+
+/**
+ * Contracts keyed by network then contract name, the same layout as `contracts` in the generated registry
+ * Chain IDs map to the network whose contracts they alias
+ */
+export function groupByNetwork(contracts: AbiGroup[]): {
+    networks: Map<string, Map<string, AbiGroup>>
+    chainIds: Map<number, string>
+} {
+    const networks = new Map<string, Map<string, AbiGroup>>()
+    const chainIds = new Map<number, string>()
+
+    for (const contract of contracts) {
+        const network = contract.item.network.toLowerCase()
+        if (!networks.has(network)) {
+            networks.set(network, new Map())
+        }
+        networks.get(network)!.set(contract.item.contract, contract)
+        if (!chainIds.has(contract.item.chainId)) {
+            chainIds.set(contract.item.chainId, network)
+        }
+    }
+
+    return { networks, chainIds: new Map([...chainIds].sort(([a], [b]) => a - b)) }
+}
+
+/**
+ * Contract name as a file name: "ERC20Token" → "erc20-token"
+ */
+export function sanitizeFileName(name: string): string {
+    // Insert hyphens before capital letters (camelCase/PascalCase to kebab-case)
+    const withHyphens = name.replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+
+    return withHyphens
+        .replace(/[^a-zA-Z0-9-]/g, '-')
+        .replace(/-+/g, '-')
+        .replace(/^-|-$/g, '')
+        .toLowerCase()
+}
+
+/**
+ * Contract name as a variable name: "ERC20Token" → "erc20Token"
+ */
+export function sanitizeVariableName(name: string): string {
+    // Split on non-alphanumeric characters and capital letters
+    const withSpaces = name
+        .replace(/([a-z0-9])([A-Z])/g, '$1 $2') // Add space before capitals
+        .replace(/[^a-zA-Z0-9]/g, ' ') // Replace special chars with spaces
+
+    const words = withSpaces.split(' ').filter(Boolean)
+
+    if (words.length === 0) return 'contract'
+
+    return words
+        .map((word, index) => {
+            const lower = word.toLowerCase()
+            return index === 0 ? lower : lower.charAt(0).toUpperCase() + lower.slice(1)
+        })
+        .join('')
+}
+
+/**
+ * Capitalize first letter, lowercasing the rest: "mainnet" → "Mainnet"
+ */
+export function capitalizeFirst(str: string): string {
+    if (!str) return ''
+    return str.charAt(0).toUpperCase() + str.slice(1).toLowerCase()
+}
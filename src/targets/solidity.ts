@@ -0,0 +1,179 @@
+import type { AbiEntry, AbiGroup, GeneratedFile, GeneratorPlugin } from '../types'
+import type { AbiParameter } from '../utils/signature'
+import { toPascalCase } from './shared'
+
+// Words a Solidity parameter can't be named, besides elementary type names
+const SOLIDITY_KEYWORDS = new Set([
+    'address', 'bool', 'string', 'bytes', 'byte', 'int', 'uint', 'fixed', 'ufixed', 'mapping', 'function', 'event', 'error',
+    'struct', 'enum', 'contract', 'interface', 'library', 'abstract', 'public', 'private', 'internal', 'external', 'view',
+    'pure', 'payable', 'constant', 'immutable', 'memory', 'storage', 'calldata', 'returns', 'return', 'if', 'else', 'for',
+    'while', 'do', 'break', 'continue', 'emit', 'new', 'delete', 'this', 'super', 'true', 'false', 'indexed', 'anonymous',
+    'override', 'virtual', 'modifier', 'constructor', 'fallback', 'receive', 'type', 'using', 'import', 'pragma', 'is',
+    'assembly', 'try', 'catch', 'revert', 'unchecked', 'let', 'var', 'after', 'alias', 'apply', 'auto', 'case', 'copyof',
+    'default', 'define', 'final', 'implements', 'in', 'inline', 'macro', 'match', 'mutable', 'null', 'of', 'partial',
+    'promise', 'reference', 'relocatable', 'sealed', 'sizeof', 'static', 'supports', 'switch', 'typedef', 'typeof',
+    'wei', 'gwei', 'ether', 'seconds', 'minutes', 'hours', 'days', 'weeks', 'years',
+])
+
+/**
+ * Structs declared in one interface, by name, with the canonical component list they were declared for
+ */
+type Structs = Map<string, { components: string; members: string[] }>
+
+/**
+ * Built-in 'solidity' plugin: an I<Contract>.sol interface per contract
+ */
+export const solidityPlugin: GeneratorPlugin = {
+    name: 'solidity',
+    generate: (groups) => groups.map(generateSolidityInterface),
+}
+
+/**
+ * Solidity interface of an ABI: structs from tuple components, custom errors, events and external functions
+ * Reference-type parameters are calldata, return values memory; constructors can't be declared and are left out
+ * Entries that can't be declared with their ABI selector are left out with a comment
+ */
+export function generateSolidityInterface(group: AbiGroup): GeneratedFile {
+    const { item, varName, baseName } = group
+    const name = interfaceName(item.contract, toPascalCase(varName.slice(baseName.length)))
+    const structs: Structs = new Map()
+
+    const errors = item.abi
+        .filter((entry) => entry.type === 'error' && entry.name)
+        .map((entry) => declaration(entry, () => `    error ${entry.name}(${parameterList(entry.inputs, structs)});`))
+    const events = item.abi
+        .filter((entry) => entry.type === 'event' && entry.name)
+        .map((entry) => declaration(entry, () =>
+            `    event ${entry.name}(${parameterList(entry.inputs, structs, { indexed: true })})${entry.anonymous ? ' anonymous' : ''};`
+        ))
+    const functions = item.abi
+        .filter((entry) => entry.type === 'function' && entry.name)
+        .map((entry) => declaration(entry, () => {
+            const outputs = entry.outputs && entry.outputs.length > 0
+                ? ` returns (${parameterList(entry.outputs, structs, { location: 'memory' })})`
+                : ''
+            return `    function ${entry.name}(${parameterList(entry.inputs, structs, { location: 'calldata' })}) external${mutability(entry)}${outputs};`
+        }))
+    const specials = item.abi
+        .filter((entry) => entry.type === 'fallback' || entry.type === 'receive')
+        .map((entry) => `    ${entry.type}() external${entry.stateMutability === 'payable' ? ' payable' : ''};`)
+
+    const structDeclarations = [...structs].map(([structName, { members }]) =>
+        `    struct ${structName} {\n${members.map((member) => `        ${member};`).join('\n')}\n    }`
+    )
+    const sections = [structDeclarations.join('\n\n'), errors.join('\n'), events.join('\n'), [...specials, ...functions].join('\n')]
+        .filter(Boolean)
+
+    const addresses = item.addresses.length > 1 ? `${item.addresses.length} addresses` : item.address
+    const content = `// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.4;
+
+/**
+ * @title ${name}
+ * @notice ${item.contract} on ${item.network} (chain ${item.chainId}) at ${addresses}
+ * @dev Auto-generated by @abiregistry/sdk from version ${item.version || 1} of the registry ABI
+ */
+interface ${name} {${sections.length > 0 ? `\n${sections.join('\n\n')}\n` : ''}}
+`
+
+    return {
+        path: `${name}.sol`,
+        content,
+    }
+}
+
+function interfaceName(contract: string, networkSuffix: string): string {
+    const base = contract.replace(/[^A-Za-z0-9_]/g, '') || 'Contract'
+    return `${/^I[A-Z]/.test(base) ? base : `I${base.charAt(0).toUpperCase()}${base.slice(1)}`}${networkSuffix}`
+}
+
+/**
+ * Declare an error, event or function, or leave a comment when it can't be declared with its ABI selector:
+ * a reserved name can't be renamed, and the ABI doesn't record the signature of function-typed parameters
+ */
+function declaration(entry: AbiEntry, declare: () => string): string {
+    if (isReserved(entry.name!)) {
+        return `    // Skipped ${entry.type} ${entry.name}: "${entry.name}" is reserved in Solidity`
+    }
+    if ([...(entry.inputs || []), ...(entry.outputs || [])].some(hasFunctionType)) {
+        return `    // Skipped ${entry.type} ${entry.name}: the ABI doesn't record the signature of its function-typed parameters`
+    }
+    return declare()
+}
+
+function isReserved(name: string): boolean {
+    return SOLIDITY_KEYWORDS.has(name) || /^(u?int|bytes)\d*$/.test(name)
+}
+
+function hasFunctionType(param: AbiParameter): boolean {
+    return param.type.startsWith('function') || ((param.components || []) as AbiParameter[]).some(hasFunctionType)
+}
+
+function mutability(entry: AbiEntry): string {
+    return entry.stateMutability && entry.stateMutability !== 'nonpayable' ? ` ${entry.stateMutability}` : ''
+}
+
+/**
+ * Parameters as declared in Solidity, e.g. "Order[] calldata orders, address indexed to"
+ * Names that are keywords or repeated get an underscore suffix; unnamed parameters stay unnamed
+ */
+function parameterList(
+    params: AbiParameter[] | undefined,
+    structs: Structs,
+    { location, indexed = false }: { location?: 'calldata' | 'memory'; indexed?: boolean } = {}
+): string {
+    const used = new Set<string>()
+    return (params || []).map((param) => {
+        const parts = [solidityType(param, structs)]
+        if (location && isReference(param)) {
+            parts.push(location)
+        }
+        if (indexed && param.indexed) {
+            parts.push('indexed')
+        }
+        if (param.name) {
+            let paramName = param.name.replace(/[^A-Za-z0-9_$]/g, '_')
+            while (isReserved(paramName) || used.has(paramName)) {
+                paramName = `${paramName}_`
+            }
+            used.add(paramName)
+            parts.push(paramName)
+        }
+        return parts.join(' ')
+    }).join(', ')
+}
+
+/**
+ * Solidity type of a parameter, declaring a struct for each tuple
+ * Structs are named after their internalType ("struct IVault.Order" → Order) or, without one, after the parameter
+ */
+function solidityType(param: AbiParameter, structs: Structs): string {
+    if (!param.type.startsWith('tuple')) {
+        return param.type
+    }
+
+    const arraySuffix = param.type.slice('tuple'.length)
+    const components = (param.components || []) as AbiParameter[]
+    const members = components.map((component, index) =>
+        `${solidityType(component, structs)} ${component.name && !isReserved(component.name) ? component.name : `field${index}`}`
+    )
+    const signature = members.join(',')
+
+    const declared = /^struct\s+(?:[\w$]+\.)*([\w$]+)/.exec(param.internalType || '')?.[1]
+    const base = declared || `${param.name ? param.name.charAt(0).toUpperCase() + param.name.slice(1).replace(/[^A-Za-z0-9_]/g, '') : 'Tuple'}Struct`
+
+    // Reuse a struct with the same name and members; rename on a clash
+    let structName = base
+    for (let index = 2; structs.has(structName) && structs.get(structName)!.components !== signature; index++) {
+        structName = `${base}${index}`
+    }
+    if (!structs.has(structName)) {
+        structs.set(structName, { components: signature, members })
+    }
+
+    return `${structName}${arraySuffix}`
+}
+
+function isReference(param: AbiParameter): boolean {
+    return param.type === 'string' || param.type === 'bytes' || param.type.endsWith(']') || param.type.startsWith('tuple')
+}
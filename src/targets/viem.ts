@@ -0,0 +1,215 @@
+import type { AbiGroup, GeneratedFile, GeneratorPlugin } from '../types'
+import { VIEM_CHAINS } from '../utils/chains'
+import { groupByNetwork, propertyKey, toPascalCase } from './shared'
+
+/**
+ * Built-in 'viem' plugin: viem.ts with contract factories and read/simulate/write helpers
+ */
+export const viemPlugin: GeneratorPlugin = {
+    name: 'viem',
+    exports: ['viem'],
+    generate: (groups, { typescript }) => [generateViemFile(groups, typescript)],
+}
+
+/**
+ * viem target: a get<Name>Contract(client) factory per contract, typed read/simulate/write helpers,
+ * and viem chain objects, keyed by network and chain ID like `contracts` in the registry file
+ */
+export function generateViemFile(contracts: AbiGroup[], typescript: boolean): GeneratedFile {
+    const { networks, chainIds } = groupByNetwork(contracts)
+
+    const knownChains = new Set<string>()
+    const customChains = new Map<number, string>()
+    for (const contract of contracts) {
+        const { chainId, network } = contract.item
+        if (VIEM_CHAINS[chainId]) {
+            knownChains.add(VIEM_CHAINS[chainId])
+        } else if (!customChains.has(chainId)) {
+            customChains.set(chainId, network)
+        }
+    }
+
+    const hasRead = contracts.some((contract) => hasFunctions(contract, 'read'))
+    const hasWrite = contracts.some((contract) => hasFunctions(contract, 'write'))
+
+    const viemImports = ['getContract', ...(customChains.size > 0 ? ['defineChain'] : [])]
+    if (typescript) {
+        viemImports.push('type Address', 'type Client', 'type GetContractParameters')
+        if (hasRead) {
+            viemImports.push('type ContractFunctionArgs', 'type ContractFunctionName', 'type ReadContractParameters', 'type ReadContractReturnType')
+        }
+        if (hasWrite) {
+            viemImports.push('type Account', 'type Chain', 'type SimulateContractParameters', 'type Transport', 'type WriteContractParameters')
+            if (!hasRead) {
+                viemImports.push('type ContractFunctionArgs', 'type ContractFunctionName')
+            }
+        }
+    }
+    const actionImports = [...(hasRead ? ['readContract'] : []), ...(hasWrite ? ['simulateContract', 'writeContract'] : [])]
+
+    const imports = [
+        viemImports.length > 3
+            ? `import {\n${viemImports.map((name) => `  ${name},`).join('\n')}\n} from 'viem'`
+            : `import { ${viemImports.join(', ')} } from 'viem'`,
+        ...(actionImports.length > 0 ? [`import { ${actionImports.join(', ')} } from 'viem/actions'`] : []),
+        ...(knownChains.size > 0 ? [`import { ${[...knownChains].sort().join(', ')} } from 'viem/chains'`] : []),
+        ...contracts.map(({ varName, fileName }) => `import { ${varName}Abi, ${varName}Address } from './${fileName}'`),
+    ]
+
+    const customChainSection = [...customChains].map(([chainId, network]) => `// Not in viem/chains: fill in rpcUrls (and nativeCurrency if it isn't ETH)
+const chain${chainId} = defineChain({
+  id: ${chainId},
+  name: ${JSON.stringify(network)},
+  nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+  rpcUrls: { default: { http: [] } },
+})`)
+
+    const contractSections = contracts.map((contract) => generateContract(contract, typescript))
+
+    const networkEntries = [...networks].map(([network, byName]) => `  ${propertyKey(network)}: {
+${[...byName].map(([name, contract]) => `    ${propertyKey(name)}: get${toPascalCase(contract.varName)}Contract`).join(',\n')}
+  }`)
+    const chainEntries = [...networks.keys()].map((network) => {
+        const chainId = contracts.find((contract) => contract.item.network.toLowerCase() === network)!.item.chainId
+        return `  ${propertyKey(network)}: ${chainReference(chainId)}`
+    })
+    const asConst = typescript ? ' as const' : ''
+
+    const content = `/**
+ * Auto-generated viem contract factories
+ * Generated by @abiregistry/sdk
+ *
+ * Access factories directly, or like contracts in ./registry by network name or chain ID:
+ * - getMyTokenContract(publicClient).read.balanceOf([owner])
+ * - viemContracts.mainnet.MyToken({ public: publicClient, wallet: walletClient })
+ * - viemContracts[1].MyToken(publicClient)
+ */
+
+${imports.join('\n')}
+${customChainSection.length > 0 ? `\n${customChainSection.join('\n\n')}\n` : ''}
+${contractSections.join('\n\n')}
+
+// viem chain of each network and chain ID in the registry
+export const chains = {
+${chainEntries.join(',\n')},
+${[...chainIds].map(([chainId]) => `  ${chainId}: ${chainReference(chainId)}`).join(',\n')}
+}${asConst}
+
+// Contract factories by network name and chain ID
+const networkFactories = {
+${networkEntries.join(',\n')}
+}${asConst}
+
+export const viemContracts = {
+  ...networkFactories,
+${[...chainIds].map(([chainId, network]) => `  ${chainId}: networkFactories${/^[A-Za-z_$][A-Za-z0-9_$]*$/.test(network) ? `.${network}` : `[${JSON.stringify(network)}]`}`).join(',\n')}
+}${asConst}
+`
+
+    return {
+        path: `viem${typescript ? '.ts' : '.js'}`,
+        content,
+    }
+}
+
+function generateContract(contract: AbiGroup, typescript: boolean): string {
+    const { varName, item } = contract
+    const name = toPascalCase(varName)
+    const abi = `${varName}Abi`
+    const address = `${varName}Address`
+
+    const sections = [`// ${item.contract} (${item.network}, chain ${item.chainId})
+export const ${varName}Chain = ${chainReference(item.chainId)}`]
+
+    if (typescript) {
+        sections.push(`/**
+ * viem contract instance for ${item.contract}
+ * Pass a public client for .read/.simulate/.watchEvent, a wallet client for .write, or both as { public, wallet }
+ */
+export function get${name}Contract<TClient extends GetContractParameters['client']>(
+  client: TClient,
+  address: Address = ${address},
+) {
+  return getContract({ abi: ${abi}, address, client })
+}`)
+    } else {
+        sections.push(`export function get${name}Contract(client, address = ${address}) {
+  return getContract({ abi: ${abi}, address, client })
+}`)
+    }
+
+    if (hasFunctions(contract, 'read')) {
+        sections.push(typescript
+            ? `/**
+ * Call a view or pure function of ${item.contract}
+ */
+export function read${name}<
+  functionName extends ContractFunctionName<typeof ${abi}, 'pure' | 'view'>,
+  const args extends ContractFunctionArgs<typeof ${abi}, 'pure' | 'view', functionName>,
+>(
+  client: Client,
+  parameters: Omit<ReadContractParameters<typeof ${abi}, functionName, args>, 'abi' | 'address'> & { address?: Address },
+): Promise<ReadContractReturnType<typeof ${abi}, functionName, args>> {
+  return readContract(client, { abi: ${abi}, address: ${address}, ...parameters } as ReadContractParameters<typeof ${abi}, functionName, args>)
+}`
+            : `export function read${name}(client, parameters) {
+  return readContract(client, { abi: ${abi}, address: ${address}, ...parameters })
+}`)
+    }
+
+    if (hasFunctions(contract, 'write')) {
+        sections.push(typescript
+            ? `/**
+ * Dry-run a state-changing function of ${item.contract}; pass the returned request to write${name}
+ */
+export function simulate${name}<
+  functionName extends ContractFunctionName<typeof ${abi}, 'nonpayable' | 'payable'>,
+  const args extends ContractFunctionArgs<typeof ${abi}, 'nonpayable' | 'payable', functionName>,
+  chain extends Chain | undefined,
+  chainOverride extends Chain | undefined = undefined,
+  accountOverride extends Account | Address | null | undefined = undefined,
+>(
+  client: Client<Transport, chain>,
+  parameters: Omit<SimulateContractParameters<typeof ${abi}, functionName, args, chain, chainOverride, accountOverride>, 'abi' | 'address'> & { address?: Address },
+) {
+  return simulateContract(client, { abi: ${abi}, address: ${address}, ...parameters } as SimulateContractParameters<typeof ${abi}, functionName, args, chain, chainOverride, accountOverride>)
+}
+
+/**
+ * Send a transaction to a state-changing function of ${item.contract}
+ */
+export function write${name}<
+  functionName extends ContractFunctionName<typeof ${abi}, 'nonpayable' | 'payable'>,
+  const args extends ContractFunctionArgs<typeof ${abi}, 'nonpayable' | 'payable', functionName>,
+  chain extends Chain | undefined,
+  account extends Account | undefined,
+>(
+  client: Client<Transport, chain, account>,
+  parameters: Omit<WriteContractParameters<typeof ${abi}, functionName, args, chain, account>, 'abi' | 'address'> & { address?: Address },
+) {
+  return writeContract(client, { abi: ${abi}, address: ${address}, ...parameters } as WriteContractParameters<typeof ${abi}, functionName, args, chain, account>)
+}`
+            : `export function simulate${name}(client, parameters) {
+  return simulateContract(client, { abi: ${abi}, address: ${address}, ...parameters })
+}
+
+export function write${name}(client, parameters) {
+  return writeContract(client, { abi: ${abi}, address: ${address}, ...parameters })
+}`)
+    }
+
+    return sections.join('\n\n')
+}
+
+function hasFunctions(contract: AbiGroup, kind: 'read' | 'write'): boolean {
+    return contract.item.abi.some((entry) =>
+        entry.type === 'function' &&
+        (kind === 'read'
+            ? entry.stateMutability === 'view' || entry.stateMutability === 'pure'
+            : entry.stateMutability !== 'view' && entry.stateMutability !== 'pure')
+    )
+}
+
+function chainReference(chainId: number): string {
+    return VIEM_CHAINS[chainId] || `chain${chainId}`
+}
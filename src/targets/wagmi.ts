@@ -0,0 +1,194 @@
+import type { AbiEntry, AbiGroup, GeneratedFile, GeneratorPlugin } from '../types'
+import { toPascalCase } from './shared'
+
+/**
+ * Deployments of one contract sharing an ABI; their hooks resolve the address from the connected chain
+ */
+type HookGroup = {
+    name: string                    // Hook name part, e.g. "Erc20Token" in useReadErc20TokenBalanceOf
+    prefix: string                  // Prefix of the exported address map and config, e.g. "erc20Token"
+    deployments: AbiGroup[]
+}
+
+/**
+ * Built-in 'wagmi' plugin: wagmi.ts with React hooks
+ */
+export const wagmiPlugin: GeneratorPlugin = {
+    name: 'wagmi',
+    exports: ['wagmi'],
+    generate: (groups, { typescript }) => [generateWagmiFile(groups, typescript)],
+}
+
+/**
+ * wagmi target: useRead/useWrite/useSimulate/useWatch hooks per contract, function and event, built with
+ * wagmi/codegen and wired to each chain's address from the contract files (the output of @wagmi/cli's react plugin)
+ */
+export function generateWagmiFile(contracts: AbiGroup[], typescript: boolean): GeneratedFile {
+    const groups = groupDeployments(contracts)
+    const asConst = typescript ? ' as const' : ''
+
+    const factories = new Set<string>()
+    for (const { deployments } of groups) {
+        const abi = deployments[0].item.abi
+        if (functionNames(abi, 'read').length > 0) {
+            factories.add('createUseReadContract')
+        }
+        if (functionNames(abi, 'write').length > 0) {
+            factories.add('createUseSimulateContract').add('createUseWriteContract')
+        }
+        if (eventNames(abi).length > 0) {
+            factories.add('createUseWatchContractEvent')
+        }
+    }
+
+    // One import per contract file: the shared ABI comes from the group's first deployment
+    const fileImports = new Map<string, string[]>()
+    for (const { deployments } of groups) {
+        deployments.forEach(({ varName, fileName }, index) => {
+            fileImports.set(fileName, [...(index === 0 ? [`${varName}Abi`] : []), `${varName}Address`])
+        })
+    }
+
+    const sortedFactories = [...factories].sort()
+    const imports = [
+        ...(sortedFactories.length > 3
+            ? [`import {\n${sortedFactories.map((name) => `  ${name},`).join('\n')}\n} from 'wagmi/codegen'`]
+            : sortedFactories.length > 0 ? [`import { ${sortedFactories.join(', ')} } from 'wagmi/codegen'`] : []),
+        ...[...fileImports].map(([fileName, names]) => `import { ${names.join(', ')} } from './${fileName}'`),
+    ]
+
+    const content = `/**
+ * Auto-generated wagmi hooks
+ * Generated by @abiregistry/sdk
+ *
+ * Hooks use the address of the connected chain, from the same contract files as ./registry:
+ * - useReadMyTokenBalanceOf({ args: [owner] })
+ * - useWriteMyTokenTransfer().writeContract({ args: [to, 1n] })
+ * - useWatchMyTokenTransfer({ onLogs: (logs) => console.log(logs) })
+ */
+
+${imports.join('\n')}
+
+${groups.map((group) => generateHooks(group, asConst)).join('\n\n')}
+`
+
+    return {
+        path: `wagmi${typescript ? '.ts' : '.js'}`,
+        content,
+    }
+}
+
+function generateHooks(group: HookGroup, asConst: string): string {
+    const { name, prefix, deployments } = group
+    const { item, varName } = deployments[0]
+    const abi = `${varName}Abi`
+    const address = `${prefix}ChainAddresses`
+    const networks = deployments.map((deployment) => deployment.item.network).join(', ')
+
+    const lines = [`// ${item.contract} (${networks})
+
+// Address on each chain; hooks pick the connected chain's
+export const ${address} = {
+${deployments.map((deployment) => `  ${deployment.item.chainId}: ${deployment.varName}Address,`).join('\n')}
+}${asConst}
+
+export const ${prefix}WagmiConfig = { abi: ${abi}, address: ${address} }${asConst}`]
+
+    const hook = (hookName: string, factory: string, extra = '') =>
+        `export const ${hookName} = /*#__PURE__*/ ${factory}({ abi: ${abi}, address: ${address}${extra} })`
+
+    const reads = functionNames(item.abi, 'read')
+    if (reads.length > 0) {
+        lines.push([
+            hook(`useRead${name}`, 'createUseReadContract'),
+            ...hookNames(reads).map(([functionName, suffix]) =>
+                hook(`useRead${name}${suffix}`, 'createUseReadContract', `, functionName: '${functionName}'`)
+            ),
+        ].join('\n'))
+    }
+
+    const writes = functionNames(item.abi, 'write')
+    if (writes.length > 0) {
+        for (const [kind, factory] of [['Write', 'createUseWriteContract'], ['Simulate', 'createUseSimulateContract']]) {
+            lines.push([
+                hook(`use${kind}${name}`, factory),
+                ...hookNames(writes).map(([functionName, suffix]) =>
+                    hook(`use${kind}${name}${suffix}`, factory, `, functionName: '${functionName}'`)
+                ),
+            ].join('\n'))
+        }
+    }
+
+    const events = eventNames(item.abi)
+    if (events.length > 0) {
+        lines.push([
+            hook(`useWatch${name}`, 'createUseWatchContractEvent'),
+            ...hookNames(events).map(([eventName, suffix]) =>
+                hook(`useWatch${name}${suffix}`, 'createUseWatchContractEvent', `, eventName: '${eventName}'`)
+            ),
+        ].join('\n'))
+    }
+
+    return lines.join('\n\n')
+}
+
+/**
+ * Group deployments of a contract by ABI; a contract whose ABI differs between networks gets hooks per ABI
+ */
+function groupDeployments(contracts: AbiGroup[]): HookGroup[] {
+    const byContract = new Map<string, AbiGroup[][]>()
+    for (const contract of contracts) {
+        const abiGroups = byContract.get(contract.item.contract) || []
+        const abi = JSON.stringify(contract.item.abi)
+        const existing = abiGroups.find((deployments) =>
+            JSON.stringify(deployments[0].item.abi) === abi &&
+            !deployments.some((deployment) => deployment.item.chainId === contract.item.chainId)
+        )
+        if (existing) {
+            existing.push(contract)
+        } else {
+            abiGroups.push([contract])
+        }
+        byContract.set(contract.item.contract, abiGroups)
+    }
+
+    return [...byContract.values()].flatMap((abiGroups) => abiGroups.map((deployments) => {
+        const prefix = abiGroups.length > 1 ? deployments[0].varName : deployments[0].baseName
+        return { name: toPascalCase(prefix), prefix, deployments }
+    }))
+}
+
+function functionNames(abi: AbiEntry[], kind: 'read' | 'write'): string[] {
+    const names = abi
+        .filter((entry) =>
+            entry.type === 'function' && entry.name &&
+            (kind === 'read'
+                ? entry.stateMutability === 'view' || entry.stateMutability === 'pure'
+                : entry.stateMutability !== 'view' && entry.stateMutability !== 'pure')
+        )
+        .map((entry) => entry.name!)
+    return [...new Set(names)]
+}
+
+function eventNames(abi: AbiEntry[]): string[] {
+    return [...new Set(abi.filter((entry) => entry.type === 'event' && entry.name).map((entry) => entry.name!))]
+}
+
+/**
+ * Pair ABI names with the hook name suffix, e.g. "balanceOf" → "BalanceOf", "DOMAIN_SEPARATOR" → "DomainSeparator"
+ * Names that collide after conversion keep their original spelling
+ */
+function hookNames(names: string[]): [string, string][] {
+    const used = new Set<string>()
+    return names.map((name) => {
+        const words = name.split(/[^A-Za-z0-9]+/).filter(Boolean)
+        let suffix = words
+            .map((word) => word === word.toUpperCase() ? word.charAt(0) + word.slice(1).toLowerCase() : word.charAt(0).toUpperCase() + word.slice(1))
+            .join('')
+        if (!suffix || used.has(suffix)) {
+            suffix = name.charAt(0).toUpperCase() + name.slice(1)
+        }
+        used.add(suffix)
+        return [name, suffix]
+    })
+}
@@ -1,9 +1,28 @@
+/**
+ * Minimal fetch signature used by the client
+ * Lets callers plug in their own transport (e.g. undici, a proxy agent or an in-process mock)
+ */
+export type FetchLike = (url: string, init?: RequestInit) => Promise<Response>
+
+export type RetryOptions = {
+    retries?: number    // Max retries after the first attempt (default: 3)
+    minDelay?: number   // Base backoff delay in milliseconds (default: 500)
+    maxDelay?: number   // Cap for a single backoff delay in milliseconds (default: 10000)
+    jitter?: boolean    // Randomize delays between 0 and the backoff value (default: true)
+}
+
 export type AbiRegistryConfig = {
     apiKey: string
+    baseUrl?: string                    // Registry endpoint (default: https://abiregistry.com)
+    headers?: Record<string, string>    // Extra headers sent with every request
+    timeout?: number                    // Request timeout in milliseconds (default: 30000)
+    fetch?: FetchLike                   // Custom transport (default: global fetch)
+    retry?: RetryOptions | false        // Retry 5xx, 429 and network errors (false disables retries)
+    cache?: boolean | { dir?: string }  // Persist pulls on disk (default dir: node_modules/.cache/abiregistry)
 }
 
 export type AbiEntry = {
-    type: 'function' | 'event' | 'constructor' | 'fallback' | 'receive'
+    type: 'function' | 'event' | 'error' | 'constructor' | 'fallback' | 'receive'
     name?: string
     inputs?: Array<{
         name?: string
@@ -27,11 +46,29 @@ export type PushAbiInput = {
     network?: string
     label?: string          // Optional label (e.g., "Initial", "Post-Audit", cannot be "latest")
     deployedAt?: Date      // Deployment timestamp (auto-extracted from Foundry)
-    abiHash?: string       // SHA-256 hash of ABI (auto-calculated)
-    abi: AbiEntry[]
+    abiHash?: string       // Canonical SHA-256 hash of ABI (auto-calculated with calculateAbiHash)
+    idempotencyKey?: string // Reused across retries so the server never stores a push twice (auto-generated)
+    abi: AbiEntry[] | readonly string[]  // JSON ABI or human-readable signatures, e.g. "function transfer(address to, uint256 amount) returns (bool)"
     // Note: version is auto-incremented by the server (1, 2, 3, ...)
 }
 
+export type PushResult = {
+    isDuplicate: boolean
+    abiId: string
+}
+
+export type PushManyOptions = {
+    chunkSize?: number      // ABIs per batch request (default: 25)
+    concurrency?: number    // Batch requests in flight at once (default: 4)
+}
+
+export type PushManyResult = {
+    input: PushAbiInput
+    status: 'new' | 'duplicate' | 'failed'
+    abiId?: string
+    error?: Error           // Failure reason when status is 'failed'
+}
+
 export type AbiItem = {
     id: string
     contractName: string    // Human-readable contract name
@@ -47,12 +84,74 @@ export type AbiItem = {
     deployedAt: string      // ISO timestamp when deployed
     pushedAt: string        // ISO timestamp when pushed to registry
     abiHash: string         // SHA-256 hash for duplicate detection
+    abiHashVersion?: number // Algorithm behind abiHash (absent on records pushed before version 2)
     isLatest: boolean       // Is this the current version for this address?
+    standards?: string[]    // Detected standard interfaces, e.g. ["ERC20", "ERC2612"] (computed locally, see detectStandards)
+}
+
+/**
+ * Filters for registry lookups
+ * All fields are optional and combined with AND
+ */
+export type AbiQuery = {
+    id?: string
+    chainId?: number
+    network?: string        // Case-insensitive
+    address?: string        // Case-insensitive
+    contractName?: string
+    label?: string
+    version?: number
+    isLatest?: boolean
+    limit?: number          // Page size
+    cursor?: string         // Cursor returned by a previous page
+}
+
+export type AbiQueryResult = {
+    abis: AbiItem[]
+    nextCursor: string | null   // Pass as `cursor` to fetch the next page (null on the last page)
+}
+
+/**
+ * Picks registry deployments to generate
+ * Any of contractName/chainId/address narrows the match; version or label pins a specific version
+ */
+export type AbiSelection = {
+    contractName?: string
+    chainId?: number
+    address?: string        // Case-insensitive
+    version?: number        // Pin a version number (mutually exclusive with label)
+    label?: string          // Pin a labeled version (e.g., "Post-Audit")
 }
 
 export type PullOptions = {
     outDir?: string
     typescript?: boolean
+    select?: AbiSelection[] // Generate only these deployments (default: everything in the account)
+    offline?: boolean       // Generate from the on-disk cache without contacting the registry
+    lockfile?: boolean | string  // Record generated versions (true: ./abiregistry.lock.json)
+    frozen?: boolean        // Generate exactly the locked versions, failing if the lockfile is missing or stale
+    update?: boolean        // Ignore the existing lockfile and lock the latest versions
+    humanReadableAbi?: boolean  // Also export each ABI as human-readable signatures
+    standards?: string[]    // Generate only ABIs implementing any of these standards (e.g. ["ERC20", "ERC4626"])
+    interfaces?: Record<string, AbiEntry[]>  // Extra interfaces (name → ABI) to export ERC-165 interface IDs for
+    target?: GeneratorTarget  // Also generate library bindings, e.g. 'viem' (default: 'default')
+    plugins?: Array<GeneratorTarget | GeneratorPlugin>  // Generators to run, by built-in name or plugin object (default: ['default'])
+}
+
+/**
+ * Extra bindings generated next to the contract files
+ * default: contract files and registry only; viem: also viem.ts with typed contract factories;
+ * ethers: also ethers.ts with typed ethers v6 contract interfaces and connect helpers;
+ * wagmi: also wagmi.ts with React hooks per contract, function and event;
+ * solidity: also an I<Contract>.sol interface per contract
+ */
+export type GeneratorTarget = 'default' | 'viem' | 'ethers' | 'wagmi' | 'solidity'
+
+export type GeneratorOptions = {
+    target?: GeneratorTarget    // Library bindings to generate (default: none)
+    plugins?: Array<GeneratorTarget | GeneratorPlugin>  // Generators to run in order (default: ['default'], plus target)
+    humanReadableAbi?: boolean  // Also export each ABI as human-readable signatures (<Name>HumanReadableAbi)
+    interfaces?: Record<string, AbiEntry[]>  // Interface ABIs whose ERC-165 ids are exported for contracts implementing them
 }
 
 export type GeneratedFile = {
@@ -60,6 +159,31 @@ export type GeneratedFile = {
     content: string
 }
 
+/**
+ * A contract as handed to generator plugins: one per (contract name, chain, ABI hash), with all its addresses
+ */
+export type AbiGroup = {
+    item: AbiItem & { addresses: string[] }
+    varName: string         // Prefix of the exports in the contract file, e.g. "erc20Token" or "erc20TokenMainnet"
+    baseName: string        // varName without the network suffix, e.g. "erc20Token"
+    fileName: string        // Contract file without extension, e.g. "erc20-token"
+}
+
+export type GeneratorContext = {
+    typescript: boolean
+    options: GeneratorOptions
+}
+
+/**
+ * Turns ABI groups into files; CodeGenerator runs each configured plugin and returns all their files
+ * Modules listed in `exports` are re-exported from the default index; other files aren't
+ */
+export type GeneratorPlugin = {
+    name: string            // Shown in errors and the index re-export comment, e.g. "docs"
+    exports?: string[]      // Generated modules to re-export from the default index, without extension, e.g. ['helpers']
+    generate(groups: AbiGroup[], context: GeneratorContext): GeneratedFile[]
+}
+
 export type ApiResponse<T> = T & {
     error?: string
 }
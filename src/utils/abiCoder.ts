@@ -0,0 +1,417 @@
+import { AbiCodingError } from '../errors'
+import { keccak256, toHex } from './keccak'
+import type { AbiParameter } from './signature'
+
+/**
+ * Solidity ABI encoding and decoding (https://docs.soliditylang.org/en/latest/abi-spec.html)
+ *
+ * Values map to JavaScript as:
+ *   uint<M>/int<M> → bigint (numbers and numeric strings are accepted when encoding)
+ *   address        → EIP-55 checksummed 0x string
+ *   bool           → boolean
+ *   bytes<M>/bytes → 0x hex string
+ *   string         → string
+ *   T[] / T[k]     → array
+ *   tuple          → object keyed by component name, or an array when any component is unnamed
+ */
+
+const WORD = 32
+
+type ParsedType =
+    | { kind: 'array'; element: ParsedType; length: number | null }
+    | { kind: 'tuple'; components: ParsedType[]; names: string[] }
+    | { kind: 'elementary'; type: string }
+
+/**
+ * ABI-encode values for a list of parameters
+ * @returns 0x-prefixed hex
+ */
+export function encodeParameters(params: readonly AbiParameter[], values: readonly unknown[]): string {
+    if (values.length !== params.length) {
+        throw new AbiCodingError(`Expected ${params.length} value(s) but got ${values.length}`)
+    }
+    return `0x${toHex(encodeTuple(params.map(parseParameter), values))}`
+}
+
+/**
+ * Decode ABI-encoded data for a list of parameters
+ * Strict: rejects dirty padding, out-of-range values and offsets that point outside the data
+ */
+export function decodeParameters(params: readonly AbiParameter[], data: string | Uint8Array): unknown[] {
+    const bytes = typeof data === 'string' ? hexToBytes(data) : data
+    return decodeTuple(params.map(parseParameter), bytes, 0) as unknown[]
+}
+
+/**
+ * Convert a 0x hex string to bytes
+ */
+export function hexToBytes(hex: string): Uint8Array {
+    const clean = hex.startsWith('0x') || hex.startsWith('0X') ? hex.slice(2) : hex
+    if (clean.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(clean)) {
+        throw new AbiCodingError(`Invalid hex data: ${hex.length > 20 ? `${hex.slice(0, 20)}...` : hex}`)
+    }
+
+    const bytes = new Uint8Array(clean.length / 2)
+    for (let i = 0; i < bytes.length; i++) {
+        bytes[i] = parseInt(clean.slice(i * 2, i * 2 + 2), 16)
+    }
+    return bytes
+}
+
+/**
+ * EIP-55 mixed-case checksum of an address
+ */
+export function toChecksumAddress(address: string): string {
+    const lower = address.toLowerCase().replace(/^0x/, '')
+    const hash = toHex(keccak256(lower))
+
+    let result = '0x'
+    for (let i = 0; i < lower.length; i++) {
+        result += parseInt(hash[i], 16) >= 8 ? lower[i].toUpperCase() : lower[i]
+    }
+    return result
+}
+
+function parseParameter(param: AbiParameter): ParsedType {
+    return parseType(param.type, (param.components || []) as AbiParameter[])
+}
+
+function parseType(type: string, components: AbiParameter[]): ParsedType {
+    const array = /^(.*)\[(\d*)\]$/.exec(type)
+    if (array) {
+        return {
+            kind: 'array',
+            element: parseType(array[1], components),
+            length: array[2] === '' ? null : parseInt(array[2], 10),
+        }
+    }
+
+    if (type === 'tuple') {
+        return {
+            kind: 'tuple',
+            components: components.map(parseParameter),
+            names: components.map((component) => component.name || ''),
+        }
+    }
+
+    if (!/^(u?int\d*|address|bool|bytes\d*|string|function)$/.test(type)) {
+        throw new AbiCodingError(`Unsupported ABI type: ${type}`)
+    }
+    return { kind: 'elementary', type }
+}
+
+function isDynamic(type: ParsedType): boolean {
+    switch (type.kind) {
+        case 'array':
+            return type.length === null || isDynamic(type.element)
+        case 'tuple':
+            return type.components.some(isDynamic)
+        default:
+            return type.type === 'bytes' || type.type === 'string'
+    }
+}
+
+/**
+ * Bytes a static type occupies in the head
+ */
+function headSize(type: ParsedType): number {
+    if (isDynamic(type)) {
+        return WORD
+    }
+    switch (type.kind) {
+        case 'array':
+            return type.length! * headSize(type.element)
+        case 'tuple':
+            return type.components.reduce((size, component) => size + headSize(component), 0)
+        default:
+            return WORD
+    }
+}
+
+function encodeTuple(types: ParsedType[], values: readonly unknown[]): Uint8Array {
+    const heads: Uint8Array[] = []
+    const tails: Uint8Array[] = []
+    let tailOffset = types.reduce((size, type) => size + headSize(type), 0)
+
+    types.forEach((type, i) => {
+        const encoded = encodeValue(type, values[i])
+        if (isDynamic(type)) {
+            heads.push(encodeUint(BigInt(tailOffset), 256))
+            tails.push(encoded)
+            tailOffset += encoded.length
+        } else {
+            heads.push(encoded)
+        }
+    })
+
+    return concat([...heads, ...tails])
+}
+
+function encodeValue(type: ParsedType, value: unknown): Uint8Array {
+    if (type.kind === 'tuple') {
+        return encodeTuple(type.components, tupleValues(type, value))
+    }
+
+    if (type.kind === 'array') {
+        if (!Array.isArray(value)) {
+            throw new AbiCodingError(`Expected an array but got ${describe(value)}`)
+        }
+        if (type.length !== null && value.length !== type.length) {
+            throw new AbiCodingError(`Expected an array of length ${type.length} but got ${value.length}`)
+        }
+        const encoded = encodeTuple(value.map(() => type.element), value)
+        return type.length === null ? concat([encodeUint(BigInt(value.length), 256), encoded]) : encoded
+    }
+
+    return encodeElementary(type.type, value)
+}
+
+function tupleValues(type: Extract<ParsedType, { kind: 'tuple' }>, value: unknown): unknown[] {
+    if (Array.isArray(value)) {
+        if (value.length !== type.components.length) {
+            throw new AbiCodingError(`Expected a tuple of ${type.components.length} value(s) but got ${value.length}`)
+        }
+        return value
+    }
+    if (value && typeof value === 'object') {
+        return type.names.map((name) => {
+            if (!(name in value)) {
+                throw new AbiCodingError(`Missing tuple component "${name}"`)
+            }
+            return (value as Record<string, unknown>)[name]
+        })
+    }
+    throw new AbiCodingError(`Expected a tuple but got ${describe(value)}`)
+}
+
+function encodeElementary(type: string, value: unknown): Uint8Array {
+    if (type === 'bool') {
+        if (typeof value !== 'boolean') {
+            throw new AbiCodingError(`Expected a boolean but got ${describe(value)}`)
+        }
+        return encodeUint(value ? 1n : 0n, 256)
+    }
+
+    if (type === 'address') {
+        if (typeof value !== 'string' || !/^0x[0-9a-fA-F]{40}$/.test(value)) {
+            throw new AbiCodingError(`Expected an address but got ${describe(value)}`)
+        }
+        return padLeft(hexToBytes(value))
+    }
+
+    if (type === 'string') {
+        if (typeof value !== 'string') {
+            throw new AbiCodingError(`Expected a string but got ${describe(value)}`)
+        }
+        return encodeDynamicBytes(new TextEncoder().encode(value))
+    }
+
+    if (type === 'bytes') {
+        return encodeDynamicBytes(toBytesValue(value))
+    }
+
+    const fixedBytes = /^bytes(\d+)$/.exec(type)
+    if (fixedBytes || type === 'function') {
+        const size = type === 'function' ? 24 : parseInt(fixedBytes![1], 10)
+        const bytes = toBytesValue(value)
+        if (bytes.length !== size) {
+            throw new AbiCodingError(`Expected ${size} bytes for ${type} but got ${bytes.length}`)
+        }
+        return padRight(bytes)
+    }
+
+    const integer = /^(u?)int(\d*)$/.exec(type)!
+    const bits = integer[2] ? parseInt(integer[2], 10) : 256
+    const signed = integer[1] === ''
+    const n = toBigInt(value)
+
+    const min = signed ? -(1n << BigInt(bits - 1)) : 0n
+    const max = signed ? (1n << BigInt(bits - 1)) - 1n : (1n << BigInt(bits)) - 1n
+    if (n < min || n > max) {
+        throw new AbiCodingError(`Value ${n} is out of range for ${type}`)
+    }
+
+    return encodeUint(n < 0n ? (1n << 256n) + n : n, 256)
+}
+
+function encodeDynamicBytes(bytes: Uint8Array): Uint8Array {
+    return concat([encodeUint(BigInt(bytes.length), 256), padRight(bytes)])
+}
+
+function encodeUint(value: bigint, bits: number): Uint8Array {
+    const bytes = new Uint8Array(bits / 8)
+    let remaining = value
+    for (let i = bytes.length - 1; i >= 0; i--) {
+        bytes[i] = Number(remaining & 0xffn)
+        remaining >>= 8n
+    }
+    return bytes
+}
+
+function toBigInt(value: unknown): bigint {
+    if (typeof value === 'bigint') {
+        return value
+    }
+    if (typeof value === 'number' && Number.isInteger(value)) {
+        return BigInt(value)
+    }
+    if (typeof value === 'string' && /^-?(0x[0-9a-fA-F]+|\d+)$/.test(value)) {
+        return value.startsWith('-') ? -BigInt(value.slice(1)) : BigInt(value)
+    }
+    throw new AbiCodingError(`Expected an integer but got ${describe(value)}`)
+}
+
+function toBytesValue(value: unknown): Uint8Array {
+    if (value instanceof Uint8Array) {
+        return value
+    }
+    if (typeof value === 'string' && value.startsWith('0x')) {
+        return hexToBytes(value)
+    }
+    throw new AbiCodingError(`Expected 0x-prefixed bytes but got ${describe(value)}`)
+}
+
+function decodeTuple(types: ParsedType[], data: Uint8Array, start: number): unknown[] {
+    const values: unknown[] = []
+    let headOffset = start
+
+    for (const type of types) {
+        if (isDynamic(type)) {
+            const offset = readLength(data, headOffset)
+            values.push(decodeValue(type, data, start + offset))
+        } else {
+            values.push(decodeValue(type, data, headOffset))
+        }
+        headOffset += headSize(type)
+    }
+
+    return values
+}
+
+function decodeValue(type: ParsedType, data: Uint8Array, offset: number): unknown {
+    if (type.kind === 'tuple') {
+        const values = decodeTuple(type.components, data, offset)
+        if (type.names.every((name) => name !== '')) {
+            return Object.fromEntries(type.names.map((name, i) => [name, values[i]]))
+        }
+        return values
+    }
+
+    if (type.kind === 'array') {
+        if (type.length !== null) {
+            return decodeTuple(Array(type.length).fill(type.element), data, offset)
+        }
+        const length = readLength(data, offset)
+        // Every element needs at least one head word, so huge lengths are corrupt data
+        if (length * WORD > data.length - offset - WORD) {
+            throw new AbiCodingError(`Array length ${length} exceeds the available data`)
+        }
+        return decodeTuple(Array(length).fill(type.element), data, offset + WORD)
+    }
+
+    return decodeElementary(type.type, data, offset)
+}
+
+function decodeElementary(type: string, data: Uint8Array, offset: number): unknown {
+    if (type === 'string' || type === 'bytes') {
+        const length = readLength(data, offset)
+        const bytes = readBytes(data, offset + WORD, length)
+        return type === 'string' ? new TextDecoder().decode(bytes) : `0x${toHex(bytes)}`
+    }
+
+    const word = readBytes(data, offset, WORD)
+
+    if (type === 'bool') {
+        const value = readUint(word)
+        if (value > 1n) {
+            throw new AbiCodingError(`Invalid bool value ${value}`)
+        }
+        return value === 1n
+    }
+
+    if (type === 'address') {
+        if (word.subarray(0, 12).some((byte) => byte !== 0)) {
+            throw new AbiCodingError('Invalid address: dirty high bytes')
+        }
+        return toChecksumAddress(toHex(word.subarray(12)))
+    }
+
+    const fixedBytes = /^bytes(\d+)$/.exec(type)
+    if (fixedBytes || type === 'function') {
+        const size = type === 'function' ? 24 : parseInt(fixedBytes![1], 10)
+        if (word.subarray(size).some((byte) => byte !== 0)) {
+            throw new AbiCodingError(`Invalid ${type}: dirty padding`)
+        }
+        return `0x${toHex(word.subarray(0, size))}`
+    }
+
+    const integer = /^(u?)int(\d*)$/.exec(type)!
+    const bits = integer[2] ? parseInt(integer[2], 10) : 256
+    const signed = integer[1] === ''
+    const raw = readUint(word)
+
+    if (!signed) {
+        if (raw >> BigInt(bits) !== 0n) {
+            throw new AbiCodingError(`Value out of range for ${type}`)
+        }
+        return raw
+    }
+
+    const value = raw >> 255n === 1n ? raw - (1n << 256n) : raw
+    if (value < -(1n << BigInt(bits - 1)) || value >= 1n << BigInt(bits - 1)) {
+        throw new AbiCodingError(`Value out of range for ${type}`)
+    }
+    return value
+}
+
+function readLength(data: Uint8Array, offset: number): number {
+    const value = readUint(readBytes(data, offset, WORD))
+    if (value > BigInt(data.length)) {
+        throw new AbiCodingError(`Offset or length ${value} points outside the data`)
+    }
+    return Number(value)
+}
+
+function readBytes(data: Uint8Array, offset: number, length: number): Uint8Array {
+    if (offset + length > data.length) {
+        throw new AbiCodingError(`Data too short: needed ${offset + length} bytes, got ${data.length}`)
+    }
+    return data.subarray(offset, offset + length)
+}
+
+function readUint(word: Uint8Array): bigint {
+    let value = 0n
+    for (const byte of word) {
+        value = (value << 8n) | BigInt(byte)
+    }
+    return value
+}
+
+function padLeft(bytes: Uint8Array): Uint8Array {
+    const padded = new Uint8Array(WORD)
+    padded.set(bytes, WORD - bytes.length)
+    return padded
+}
+
+function padRight(bytes: Uint8Array): Uint8Array {
+    const padded = new Uint8Array(Math.ceil(bytes.length / WORD) * WORD)
+    padded.set(bytes)
+    return padded
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+    const result = new Uint8Array(parts.reduce((size, part) => size + part.length, 0))
+    let offset = 0
+    for (const part of parts) {
+        result.set(part, offset)
+        offset += part.length
+    }
+    return result
+}
+
+function describe(value: unknown): string {
+    if (typeof value === 'bigint') {
+        return `${value}n`
+    }
+    return typeof value === 'string' ? `"${value}"` : String(value)
+}
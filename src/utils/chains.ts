@@ -0,0 +1,25 @@
+/**
+ * Chain IDs → export names in viem/chains (also used by wagmi, which re-exports them)
+ * Chains missing here are generated with defineChain
+ */
+export const VIEM_CHAINS: Record<number, string> = {
+    1: 'mainnet',
+    10: 'optimism',
+    56: 'bsc',
+    97: 'bscTestnet',
+    100: 'gnosis',
+    137: 'polygon',
+    324: 'zksync',
+    8453: 'base',
+    17000: 'holesky',
+    31337: 'foundry',
+    42161: 'arbitrum',
+    43114: 'avalanche',
+    59144: 'linea',
+    80002: 'polygonAmoy',
+    84532: 'baseSepolia',
+    421614: 'arbitrumSepolia',
+    534352: 'scroll',
+    11155111: 'sepolia',
+    11155420: 'optimismSepolia',
+}
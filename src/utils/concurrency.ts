@@ -0,0 +1,35 @@
+/**
+ * Map over items with at most `limit` calls in flight
+ * Results keep the order of the input array
+ */
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+    const results = new Array<R>(items.length)
+    let next = 0
+
+    const worker = async (): Promise<void> => {
+        while (next < items.length) {
+            const index = next++
+            results[index] = await fn(items[index], index)
+        }
+    }
+
+    const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, () => worker())
+    await Promise.all(workers)
+
+    return results
+}
+
+/**
+ * Split an array into chunks of at most `size` items
+ */
+export function chunk<T>(items: T[], size: number): T[][] {
+    const chunks: T[][] = []
+    for (let i = 0; i < items.length; i += Math.max(1, size)) {
+        chunks.push(items.slice(i, i + Math.max(1, size)))
+    }
+    return chunks
+}
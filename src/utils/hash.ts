@@ -1,31 +1,92 @@
 import { createHash } from 'crypto'
-import type { AbiEntry } from '../types'
+import type { AbiEntry, AbiItem } from '../types'
+import { formatSignature, type AbiParameter } from './signature'
 
 /**
- * Calculate SHA-256 hash of ABI for duplicate detection
- * Uses deterministic JSON serialization
+ * Version of the canonical form hashed by calculateAbiHash
+ * Sent with every push so the server knows how to compare hashes
  */
-export function calculateAbiHash(abi: AbiEntry[]): string {
-    // Sort ABI entries for deterministic hashing
+export const ABI_HASH_VERSION = 2
+
+export type AbiHashOptions = {
+    keepInternalTypes?: boolean  // Include Solidity internalType (e.g. "contract IERC20") in the hash (default: false)
+}
+
+type LegacyAbiEntry = AbiEntry & {
+    constant?: boolean
+    payable?: boolean
+}
+
+/**
+ * Convert an ABI into its canonical form (hash version 2)
+ *
+ * - Entries keep only semantic fields, in a fixed key order:
+ *   function:    type, name, inputs, outputs, stateMutability
+ *   event:       type, name, inputs, anonymous
+ *   error:       type, name, inputs
+ *   constructor: type, inputs, stateMutability
+ *   fallback / receive: type, stateMutability
+ * - Parameters become { type, name, indexed (event inputs only), components (tuples only) }
+ *   with components canonicalized recursively. internalType is dropped unless keepInternalTypes is set
+ * - Missing defaults are filled in: inputs/outputs [], anonymous false, and stateMutability
+ *   derived from the legacy constant/payable flags
+ * - Entries are sorted by type, then by signature (e.g. "transfer(address,uint256)"), so overloads
+ *   order deterministically; exact duplicates are removed
+ */
+export function canonicalizeAbi(abi: AbiEntry[], options: AbiHashOptions = {}): Record<string, unknown>[] {
+    const entries = new Map<string, { sortKey: string; entry: Record<string, unknown> }>()
+
+    for (const item of abi) {
+        const entry = canonicalizeEntry(item as LegacyAbiEntry, options)
+        const serialized = JSON.stringify(entry)
+        entries.set(serialized, { sortKey: `${item.type} ${formatSignature(item)}\n${serialized}`, entry })
+    }
+
+    return Array.from(entries.values())
+        .sort((a, b) => (a.sortKey < b.sortKey ? -1 : a.sortKey > b.sortKey ? 1 : 0))
+        .map(({ entry }) => entry)
+}
+
+/**
+ * Calculate SHA-256 hash of the canonical ABI for duplicate detection
+ * Key order, entry order and non-semantic fields don't affect the result
+ */
+export function calculateAbiHash(abi: AbiEntry[], options: AbiHashOptions = {}): string {
+    const hash = createHash('sha256')
+        .update(JSON.stringify(canonicalizeAbi(abi, options)))
+        .digest('hex')
+
+    return `0x${hash}`
+}
+
+/**
+ * Hash version 1, used by registry records pushed before ABI_HASH_VERSION 2
+ * Its replacer dropped every entry property, so only the number of entries affected the hash.
+ * Kept so pushes can send it alongside the new hash and the server can match and upgrade old records
+ * @deprecated Use calculateAbiHash
+ */
+export function calculateLegacyAbiHash(abi: AbiEntry[]): string {
     const sortedAbi = [...abi].sort((a, b) => {
-        // Sort by type first, then by name
         if (a.type !== b.type) {
             return a.type.localeCompare(b.type)
         }
-        const aName = a.name || ''
-        const bName = b.name || ''
-        return aName.localeCompare(bName)
+        return (a.name || '').localeCompare(b.name || '')
     })
 
-    // Create deterministic JSON string
     const abiString = JSON.stringify(sortedAbi, Object.keys(sortedAbi).sort())
-    
-    // Calculate SHA-256 hash
-    const hash = createHash('sha256')
-        .update(abiString)
-        .digest('hex')
-    
-    return `0x${hash}`
+
+    return `0x${createHash('sha256').update(abiString).digest('hex')}`
+}
+
+/**
+ * Get a trustworthy hash for a registry ABI
+ * Uses the server's hash when it was computed with the current algorithm, otherwise recomputes it
+ */
+export function getAbiHash(item: Pick<AbiItem, 'abi' | 'abiHash' | 'abiHashVersion'>): string {
+    if (item.abiHash && item.abiHashVersion === ABI_HASH_VERSION) {
+        return item.abiHash
+    }
+    return calculateAbiHash(item.abi)
 }
 
 /**
@@ -35,3 +96,81 @@ export function areAbisEqual(abi1: AbiEntry[], abi2: AbiEntry[]): boolean {
     return calculateAbiHash(abi1) === calculateAbiHash(abi2)
 }
 
+function canonicalizeEntry(entry: LegacyAbiEntry, options: AbiHashOptions): Record<string, unknown> {
+    const inputs = (isEvent: boolean) =>
+        (entry.inputs || []).map((input) => canonicalizeParam(input, options, isEvent))
+
+    switch (entry.type) {
+        case 'function':
+            return {
+                type: entry.type,
+                name: entry.name || '',
+                inputs: inputs(false),
+                outputs: (entry.outputs || []).map((output) => canonicalizeParam(output, options, false)),
+                stateMutability: getStateMutability(entry),
+            }
+        case 'event':
+            return {
+                type: entry.type,
+                name: entry.name || '',
+                inputs: inputs(true),
+                anonymous: entry.anonymous === true,
+            }
+        case 'error':
+            return {
+                type: entry.type,
+                name: entry.name || '',
+                inputs: inputs(false),
+            }
+        case 'constructor':
+            return {
+                type: entry.type,
+                inputs: inputs(false),
+                stateMutability: getStateMutability(entry),
+            }
+        case 'fallback':
+        case 'receive':
+            return {
+                type: entry.type,
+                stateMutability: entry.type === 'receive' ? 'payable' : getStateMutability(entry),
+            }
+        default:
+            // Entry types added to the ABI spec later
+            return {
+                type: (entry as AbiEntry).type,
+                name: (entry as AbiEntry).name || '',
+                inputs: inputs(false),
+            }
+    }
+}
+
+function canonicalizeParam(param: AbiParameter, options: AbiHashOptions, isEventInput: boolean): Record<string, unknown> {
+    const canonical: Record<string, unknown> = {
+        type: param.type,
+        name: param.name || '',
+    }
+
+    if (isEventInput) {
+        canonical.indexed = param.indexed === true
+    }
+    if (param.type.startsWith('tuple')) {
+        canonical.components = ((param.components || []) as AbiParameter[])
+            .map((component) => canonicalizeParam(component, options, false))
+    }
+    if (options.keepInternalTypes && param.internalType) {
+        canonical.internalType = param.internalType
+    }
+
+    return canonical
+}
+
+function getStateMutability(entry: LegacyAbiEntry): string {
+    if (entry.stateMutability) {
+        return entry.stateMutability
+    }
+    // Pre-0.4.16 ABIs only carry constant/payable
+    if (entry.payable) {
+        return 'payable'
+    }
+    return entry.constant ? 'view' : 'nonpayable'
+}
@@ -0,0 +1,147 @@
+/**
+ * Keccak-256 (the pre-NIST variant Ethereum uses, not SHA3-256)
+ * Pure TypeScript so selectors and topics can be computed in any runtime without dependencies
+ */
+
+// Round constants split into high and low 32-bit halves
+const ROUND_CONSTANTS_HI = new Uint32Array([
+    0x00000000, 0x00000000, 0x80000000, 0x80000000, 0x00000000, 0x00000000, 0x80000000, 0x80000000,
+    0x00000000, 0x00000000, 0x00000000, 0x00000000, 0x00000000, 0x80000000, 0x80000000, 0x80000000,
+    0x80000000, 0x80000000, 0x00000000, 0x80000000, 0x80000000, 0x80000000, 0x00000000, 0x80000000,
+])
+const ROUND_CONSTANTS_LO = new Uint32Array([
+    0x00000001, 0x00008082, 0x0000808a, 0x80008000, 0x0000808b, 0x80000001, 0x80008081, 0x00008009,
+    0x0000008a, 0x00000088, 0x80008009, 0x8000000a, 0x8000808b, 0x0000008b, 0x00008089, 0x00008003,
+    0x00008002, 0x00000080, 0x0000800a, 0x8000000a, 0x80008081, 0x00008080, 0x80000001, 0x80008008,
+])
+
+// Rotation offset for each lane, indexed by x + 5y
+const ROTATIONS = [
+    0, 1, 62, 28, 27,
+    36, 44, 6, 55, 20,
+    3, 10, 43, 25, 39,
+    41, 45, 15, 21, 8,
+    18, 2, 61, 56, 14,
+]
+
+const RATE = 136  // Bytes absorbed per permutation for a 256-bit output
+
+/**
+ * Hash bytes (or a UTF-8 string) with Keccak-256
+ * @returns 32-byte digest
+ */
+export function keccak256(input: Uint8Array | string): Uint8Array {
+    const data = typeof input === 'string' ? new TextEncoder().encode(input) : input
+
+    // Each 64-bit lane is stored as two 32-bit halves
+    const hi = new Uint32Array(25)
+    const lo = new Uint32Array(25)
+
+    // Pad with Keccak's 0x01 ... 0x80 rule to a multiple of the rate
+    const padded = new Uint8Array(Math.floor(data.length / RATE) * RATE + RATE)
+    padded.set(data)
+    padded[data.length] ^= 0x01
+    padded[padded.length - 1] ^= 0x80
+
+    for (let offset = 0; offset < padded.length; offset += RATE) {
+        for (let lane = 0; lane < RATE / 8; lane++) {
+            const i = offset + lane * 8
+            lo[lane] ^= padded[i] | (padded[i + 1] << 8) | (padded[i + 2] << 16) | (padded[i + 3] << 24)
+            hi[lane] ^= padded[i + 4] | (padded[i + 5] << 8) | (padded[i + 6] << 16) | (padded[i + 7] << 24)
+        }
+        permute(hi, lo)
+    }
+
+    const digest = new Uint8Array(32)
+    for (let lane = 0; lane < 4; lane++) {
+        for (let byte = 0; byte < 4; byte++) {
+            digest[lane * 8 + byte] = lo[lane] >>> (8 * byte)
+            digest[lane * 8 + 4 + byte] = hi[lane] >>> (8 * byte)
+        }
+    }
+    return digest
+}
+
+/**
+ * Keccak-256 as a 0x-prefixed hex string
+ */
+export function keccak256Hex(input: Uint8Array | string): string {
+    return `0x${toHex(keccak256(input))}`
+}
+
+export function toHex(bytes: Uint8Array): string {
+    let hex = ''
+    for (const byte of bytes) {
+        hex += byte.toString(16).padStart(2, '0')
+    }
+    return hex
+}
+
+/**
+ * Keccak-f[1600] permutation over the split-lane state
+ */
+function permute(hi: Uint32Array, lo: Uint32Array): void {
+    const cHi = new Uint32Array(5)
+    const cLo = new Uint32Array(5)
+    const bHi = new Uint32Array(25)
+    const bLo = new Uint32Array(25)
+
+    for (let round = 0; round < 24; round++) {
+        // Theta
+        for (let x = 0; x < 5; x++) {
+            cHi[x] = hi[x] ^ hi[x + 5] ^ hi[x + 10] ^ hi[x + 15] ^ hi[x + 20]
+            cLo[x] = lo[x] ^ lo[x + 5] ^ lo[x + 10] ^ lo[x + 15] ^ lo[x + 20]
+        }
+        for (let x = 0; x < 5; x++) {
+            const next = (x + 1) % 5
+            const prev = (x + 4) % 5
+            // D[x] = C[x-1] ^ rotl(C[x+1], 1)
+            const dHi = cHi[prev] ^ ((cHi[next] << 1) | (cLo[next] >>> 31))
+            const dLo = cLo[prev] ^ ((cLo[next] << 1) | (cHi[next] >>> 31))
+            for (let y = 0; y < 25; y += 5) {
+                hi[x + y] ^= dHi
+                lo[x + y] ^= dLo
+            }
+        }
+
+        // Rho and pi: B[y, 2x + 3y] = rotl(A[x, y], r[x, y])
+        for (let x = 0; x < 5; x++) {
+            for (let y = 0; y < 5; y++) {
+                const from = x + 5 * y
+                const to = y + 5 * ((2 * x + 3 * y) % 5)
+                const n = ROTATIONS[from]
+                const h = hi[from]
+                const l = lo[from]
+
+                if (n === 0) {
+                    bHi[to] = h
+                    bLo[to] = l
+                } else if (n < 32) {
+                    bHi[to] = (h << n) | (l >>> (32 - n))
+                    bLo[to] = (l << n) | (h >>> (32 - n))
+                } else if (n === 32) {
+                    bHi[to] = l
+                    bLo[to] = h
+                } else {
+                    const m = n - 32
+                    bHi[to] = (l << m) | (h >>> (32 - m))
+                    bLo[to] = (h << m) | (l >>> (32 - m))
+                }
+            }
+        }
+
+        // Chi
+        for (let y = 0; y < 25; y += 5) {
+            for (let x = 0; x < 5; x++) {
+                const next = y + ((x + 1) % 5)
+                const after = y + ((x + 2) % 5)
+                hi[y + x] = bHi[y + x] ^ (~bHi[next] & bHi[after])
+                lo[y + x] = bLo[y + x] ^ (~bLo[next] & bLo[after])
+            }
+        }
+
+        // Iota
+        hi[0] ^= ROUND_CONSTANTS_HI[round]
+        lo[0] ^= ROUND_CONSTANTS_LO[round]
+    }
+}
@@ -0,0 +1,50 @@
+import type { AbiItem, AbiQuery } from '../types'
+
+/**
+ * Serialize a query into URL search params
+ * Returns an empty string when no filters are set, so unfiltered requests keep a clean URL
+ */
+export function buildQueryString(query: AbiQuery): string {
+    const params = new URLSearchParams()
+
+    for (const [key, value] of Object.entries(query)) {
+        if (value !== undefined && value !== null && value !== '') {
+            params.set(key, String(value))
+        }
+    }
+
+    const search = params.toString()
+    return search ? `?${search}` : ''
+}
+
+/**
+ * Check an ABI against query filters
+ * Applied to server responses as well, so older registries that ignore filters still return correct results
+ */
+export function matchesQuery(abi: AbiItem, query: AbiQuery): boolean {
+    if (query.id !== undefined && abi.id !== query.id) {
+        return false
+    }
+    if (query.chainId !== undefined && abi.chainId !== query.chainId) {
+        return false
+    }
+    if (query.network !== undefined && abi.network?.toLowerCase() !== query.network.toLowerCase()) {
+        return false
+    }
+    if (query.address !== undefined && abi.address?.toLowerCase() !== query.address.toLowerCase()) {
+        return false
+    }
+    if (query.contractName !== undefined && (abi.contractName || abi.contract) !== query.contractName) {
+        return false
+    }
+    if (query.label !== undefined && abi.label !== query.label) {
+        return false
+    }
+    if (query.version !== undefined && abi.version !== query.version) {
+        return false
+    }
+    if (query.isLatest !== undefined && abi.isLatest !== query.isLatest) {
+        return false
+    }
+    return true
+}
@@ -0,0 +1,64 @@
+import type { RetryOptions } from '../types'
+
+export const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+    retries: 3,
+    minDelay: 500,
+    maxDelay: 10_000,
+    jitter: true,
+}
+
+/**
+ * Resolve user retry settings against defaults
+ * `false` disables retries entirely
+ */
+export function resolveRetryOptions(options: RetryOptions | false | undefined): Required<RetryOptions> {
+    if (options === false) {
+        return { ...DEFAULT_RETRY_OPTIONS, retries: 0 }
+    }
+    return { ...DEFAULT_RETRY_OPTIONS, ...options }
+}
+
+/**
+ * Check if an HTTP status is worth retrying
+ * Covers rate limiting (429) and server-side failures (5xx)
+ */
+export function isRetryableStatus(status: number | undefined): boolean {
+    if (typeof status !== 'number') {
+        return false
+    }
+    return status === 429 || status >= 500
+}
+
+/**
+ * Exponential backoff delay for a given attempt (0-based)
+ * Uses "full jitter" so concurrent clients don't retry in lockstep
+ */
+export function getBackoffDelay(attempt: number, options: Required<RetryOptions>): number {
+    const exponential = Math.min(options.maxDelay, options.minDelay * 2 ** attempt)
+    return options.jitter ? Math.round(Math.random() * exponential) : exponential
+}
+
+/**
+ * Parse a Retry-After header value into milliseconds
+ * Accepts both delta-seconds ("120") and HTTP dates ("Wed, 21 Oct 2026 07:28:00 GMT")
+ */
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | null {
+    if (!value) {
+        return null
+    }
+
+    const trimmed = value.trim()
+    if (/^\d+(\.\d+)?$/.test(trimmed)) {
+        return Math.round(parseFloat(trimmed) * 1000)
+    }
+
+    const date = Date.parse(trimmed)
+    if (Number.isNaN(date)) {
+        return null
+    }
+    return Math.max(0, date - now)
+}
+
+export function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms))
+}
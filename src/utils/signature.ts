@@ -0,0 +1,96 @@
+import type { AbiEntry } from '../types'
+import { keccak256Hex } from './keccak'
+
+export type AbiParameter = {
+    name?: string
+    type: string
+    indexed?: boolean
+    components?: unknown[]
+    internalType?: string
+}
+
+/**
+ * Canonical type of a parameter, expanding tuples, e.g. "(address,uint256)[]"
+ */
+export function formatType(param: AbiParameter): string {
+    if (param.type.startsWith('tuple')) {
+        const components = ((param.components || []) as AbiParameter[]).map(formatType)
+        return `(${components.join(',')})${param.type.slice('tuple'.length)}`
+    }
+    return param.type
+}
+
+/**
+ * Canonical signature of an entry, e.g. "swap((address,uint256)[],bool)"
+ * This is the string hashed into function selectors and event topics
+ */
+export function formatSignature(entry: Pick<AbiEntry, 'name' | 'inputs'>): string {
+    const inputs = (entry.inputs || []).map((input) => formatType(input))
+    return `${entry.name || ''}(${inputs.join(',')})`
+}
+
+export type AbiSelectors = {
+    functions: Record<string, string>   // Signature → 4-byte selector
+    events: Record<string, string>      // Signature → topic0
+    errors: Record<string, string>      // Signature → 4-byte selector
+}
+
+/**
+ * 4-byte selector of a function or custom error, e.g. "0xa9059cbb" for transfer(address,uint256)
+ * Accepts an ABI entry or a canonical signature string
+ */
+export function getSelector(entryOrSignature: Pick<AbiEntry, 'name' | 'inputs'> | string): string {
+    return getTopic(entryOrSignature).slice(0, 10)
+}
+
+/**
+ * topic0 of an event: the full Keccak-256 hash of its signature
+ * Anonymous events don't emit it, but the hash is still well defined
+ */
+export function getTopic(entryOrSignature: Pick<AbiEntry, 'name' | 'inputs'> | string): string {
+    const signature = typeof entryOrSignature === 'string' ? entryOrSignature : formatSignature(entryOrSignature)
+    return keccak256Hex(signature)
+}
+
+/**
+ * Compute selectors and topics for every function, event and error in an ABI
+ * Overloads get their own entry since each has a distinct signature
+ */
+export function getSelectors(abi: AbiEntry[]): AbiSelectors {
+    const selectors: AbiSelectors = { functions: {}, events: {}, errors: {} }
+
+    for (const entry of abi) {
+        const signature = formatSignature(entry)
+
+        if (entry.type === 'function') {
+            selectors.functions[signature] = getSelector(signature)
+        } else if (entry.type === 'event') {
+            selectors.events[signature] = getTopic(signature)
+        } else if (entry.type === 'error') {
+            selectors.errors[signature] = getSelector(signature)
+        }
+    }
+
+    return selectors
+}
+
+/**
+ * ERC-165 interface ID: the XOR of the 4-byte selectors of every function in the interface
+ * Accepts an ABI (events, errors and constructors are ignored) or canonical function signatures
+ */
+export function getInterfaceId(abiOrSignatures: AbiEntry[] | string[]): string {
+    const signatures = (abiOrSignatures as Array<AbiEntry | string>).flatMap((item) => {
+        if (typeof item === 'string') {
+            return [item]
+        }
+        return item.type === 'function' ? [formatSignature(item)] : []
+    })
+
+    // Overloads count once each; the same signature listed twice would cancel itself out
+    let id = 0
+    for (const signature of new Set(signatures)) {
+        id = (id ^ parseInt(getSelector(signature).slice(2), 16)) >>> 0
+    }
+
+    return `0x${id.toString(16).padStart(8, '0')}`
+}
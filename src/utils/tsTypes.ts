@@ -0,0 +1,47 @@
+import type { AbiParameter } from './signature'
+
+/**
+ * TypeScript type of a decoded ABI value, matching the ABI coder:
+ * integers → bigint, addresses and bytes → 0x strings, tuples → objects (or arrays when unnamed)
+ */
+export function toTypeScriptType(param: AbiParameter): string {
+    const array = /^(.*)\[(\d*)\]$/.exec(param.type)
+    if (array) {
+        return `readonly ${wrap(toTypeScriptType({ ...param, type: array[1] }))}[]`
+    }
+
+    if (param.type === 'tuple') {
+        const components = (param.components || []) as AbiParameter[]
+        if (components.length > 0 && components.every((component) => component.name)) {
+            return `{ ${components.map((component) => `${component.name}: ${toTypeScriptType(component)}`).join('; ')} }`
+        }
+        return `readonly [${components.map(toTypeScriptType).join(', ')}]`
+    }
+
+    if (/^u?int\d*$/.test(param.type)) {
+        return 'bigint'
+    }
+    if (param.type === 'bool') {
+        return 'boolean'
+    }
+    if (param.type === 'string') {
+        return 'string'
+    }
+    // address, bytes, bytesN and function
+    return '`0x${string}`'
+}
+
+/**
+ * Readonly tuple type for a parameter list, labeled when every parameter is named
+ * e.g. "readonly [to: `0x${string}`, amount: bigint]"
+ */
+export function toTypeScriptTuple(params: AbiParameter[]): string {
+    const labeled = params.every((param) => param.name)
+    const elements = params.map((param) => labeled ? `${param.name}: ${toTypeScriptType(param)}` : toTypeScriptType(param))
+    return `readonly [${elements.join(', ')}]`
+}
+
+function wrap(type: string): string {
+    // "readonly bigint[][]" would leave the inner arrays mutable, so parenthesize nested array types
+    return type.startsWith('readonly ') ? `(${type})` : type
+}
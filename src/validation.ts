@@ -0,0 +1,282 @@
+import type { AbiEntry } from './types'
+import { InvalidAbiError } from './errors'
+import { formatSignature, type AbiParameter } from './utils/signature'
+
+export type AbiDiagnostic = {
+    severity: 'error' | 'warning'
+    path: string            // Location in the ABI, e.g. "[3].inputs[0].type"
+    message: string
+    entry?: string          // Signature (or type) of the offending entry, when it has one
+}
+
+export type AbiValidationResult = {
+    valid: boolean          // True when there are no error diagnostics (warnings are allowed)
+    diagnostics: AbiDiagnostic[]
+}
+
+const ENTRY_TYPES = ['function', 'event', 'error', 'constructor', 'fallback', 'receive']
+const STATE_MUTABILITIES = ['pure', 'view', 'nonpayable', 'payable']
+const IDENTIFIER = /^[a-zA-Z_$][a-zA-Z0-9_$]*$/
+
+/**
+ * Check an ABI against the Solidity ABI JSON specification
+ *
+ * Errors (the ABI can't be encoded against or would generate broken code):
+ * - entries that aren't objects, unknown entry types, missing or invalid names
+ * - invalid Solidity type strings (e.g. "uint7", "bytes33", "addres"), tuples without components
+ * - invalid stateMutability values, or values not allowed for the entry type
+ * - events with more than 3 indexed parameters (4 when anonymous)
+ * - two different entries with the same signature, or a second constructor/fallback/receive
+ * Warnings: components on non-tuple types, indexed outside events, outputs outside functions,
+ * invalid parameter names, and exact duplicate entries
+ */
+export function validateAbi(abi: unknown): AbiValidationResult {
+    const diagnostics: AbiDiagnostic[] = []
+
+    if (!Array.isArray(abi)) {
+        diagnostics.push({ severity: 'error', path: '', message: 'ABI must be an array of entries' })
+        return { valid: false, diagnostics }
+    }
+
+    const seen = new Map<string, { index: number; serialized: string }>()
+
+    abi.forEach((entry: unknown, index) => {
+        const path = `[${index}]`
+
+        if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+            diagnostics.push({ severity: 'error', path, message: 'entry must be an object' })
+            return
+        }
+
+        // The ABI spec defaults a missing type to "function"; older solc and Etherscan ABIs rely on it
+        if ((entry as Record<string, unknown>).type === undefined) {
+            entry = { ...entry, type: 'function' }
+        }
+
+        const entryDiagnostics = validateEntry(entry as Record<string, unknown>, path)
+        const label = describeEntry(entry as AbiEntry, entryDiagnostics)
+        diagnostics.push(...entryDiagnostics.map((diagnostic) => (label ? { ...diagnostic, entry: label } : diagnostic)))
+
+        if (entryDiagnostics.some((diagnostic) => diagnostic.severity === 'error')) {
+            return
+        }
+
+        // Each signature (or constructor/fallback/receive) may appear once
+        const key = uniquenessKey(entry as AbiEntry)
+        const serialized = JSON.stringify(entry)
+        const previous = seen.get(key)
+        if (!previous) {
+            seen.set(key, { index, serialized })
+        } else if (previous.serialized === serialized) {
+            diagnostics.push({ severity: 'warning', path, entry: label, message: `duplicate of entry [${previous.index}]` })
+        } else {
+            diagnostics.push({
+                severity: 'error',
+                path,
+                entry: label,
+                message: `${(entry as AbiEntry).type} conflicts with entry [${previous.index}], which has the same signature`,
+            })
+        }
+    })
+
+    return { valid: !diagnostics.some((diagnostic) => diagnostic.severity === 'error'), diagnostics }
+}
+
+/**
+ * Validate and throw InvalidAbiError listing every error diagnostic
+ */
+export function assertValidAbi(abi: unknown, contractName: string): AbiValidationResult {
+    const result = validateAbi(abi)
+
+    if (!result.valid) {
+        const errors = result.diagnostics.filter((diagnostic) => diagnostic.severity === 'error')
+        throw new InvalidAbiError(
+            `Invalid ABI for ${contractName}: ${errors.length} error(s)\n${formatDiagnostics(result.diagnostics)}`,
+            { contractName, diagnostics: result.diagnostics }
+        )
+    }
+
+    return result
+}
+
+/**
+ * One line per diagnostic, errors first, for CLI reports
+ */
+export function formatDiagnostics(diagnostics: AbiDiagnostic[]): string {
+    return [...diagnostics]
+        .sort((a, b) => Number(a.severity === 'warning') - Number(b.severity === 'warning'))
+        .map((diagnostic) => {
+            const icon = diagnostic.severity === 'error' ? '❌' : '⚠️ '
+            const where = diagnostic.entry ? `${diagnostic.path} ${diagnostic.entry}` : diagnostic.path || 'ABI'
+            return `  ${icon} ${where}: ${diagnostic.message}`
+        })
+        .join('\n')
+}
+
+/**
+ * Whether a string is a valid Solidity ABI type, e.g. "uint256", "bytes32[2][]", "tuple[]"
+ */
+export function isValidAbiType(type: string): boolean {
+    const base = type.replace(/(\[[0-9]*\])+$/, '')
+
+    // Fixed-size array lengths must be positive
+    if (/\[0+\]/.test(type.slice(base.length))) {
+        return false
+    }
+
+    const integer = /^u?int(\d*)$/.exec(base)
+    if (integer) {
+        return isBitSize(integer[1])
+    }
+
+    const fixedBytes = /^bytes(\d+)$/.exec(base)
+    if (fixedBytes) {
+        const size = parseInt(fixedBytes[1], 10)
+        return size >= 1 && size <= 32 && String(size) === fixedBytes[1]
+    }
+
+    const fixedPoint = /^u?fixed(?:(\d+)x(\d+))?$/.exec(base)
+    if (fixedPoint) {
+        return fixedPoint[1] === undefined || (isBitSize(fixedPoint[1]) && parseInt(fixedPoint[2], 10) <= 80)
+    }
+
+    return ['address', 'bool', 'string', 'bytes', 'function', 'tuple'].includes(base)
+}
+
+function isBitSize(digits: string): boolean {
+    if (digits === '') {
+        return true  // uint / int alias uint256 / int256
+    }
+    const bits = parseInt(digits, 10)
+    return String(bits) === digits && bits >= 8 && bits <= 256 && bits % 8 === 0
+}
+
+function validateEntry(entry: Record<string, unknown>, path: string): AbiDiagnostic[] {
+    const diagnostics: AbiDiagnostic[] = []
+    const error = (where: string, message: string) => diagnostics.push({ severity: 'error', path: where, message })
+    const warning = (where: string, message: string) => diagnostics.push({ severity: 'warning', path: where, message })
+    const type = entry.type
+
+    if (typeof type !== 'string' || !ENTRY_TYPES.includes(type)) {
+        error(`${path}.type`, `unknown entry type ${JSON.stringify(type)} (expected ${ENTRY_TYPES.join(', ')})`)
+        return diagnostics
+    }
+
+    const named = type === 'function' || type === 'event' || type === 'error'
+    if (named && (typeof entry.name !== 'string' || !IDENTIFIER.test(entry.name))) {
+        error(`${path}.name`, entry.name === undefined ? `${type} has no name` : `invalid ${type} name ${JSON.stringify(entry.name)}`)
+    }
+
+    for (const field of ['inputs', 'outputs'] as const) {
+        if (entry[field] === undefined) {
+            continue
+        }
+        if (!Array.isArray(entry[field])) {
+            error(`${path}.${field}`, `${field} must be an array`)
+            continue
+        }
+        if (field === 'outputs' && type !== 'function') {
+            warning(`${path}.outputs`, `outputs are ignored on ${type} entries`)
+        }
+        if (field === 'inputs' && (type === 'fallback' || type === 'receive') && (entry.inputs as unknown[]).length > 0) {
+            error(`${path}.inputs`, `${type} cannot have inputs`)
+        }
+        (entry[field] as unknown[]).forEach((param, i) => {
+            diagnostics.push(...validateParameter(param, `${path}.${field}[${i}]`, type === 'event' && field === 'inputs'))
+        })
+    }
+
+    if (entry.stateMutability !== undefined) {
+        const mutability = entry.stateMutability
+        if (typeof mutability !== 'string' || !STATE_MUTABILITIES.includes(mutability)) {
+            error(`${path}.stateMutability`, `invalid stateMutability ${JSON.stringify(mutability)} (expected ${STATE_MUTABILITIES.join(', ')})`)
+        } else if (type === 'event' || type === 'error') {
+            warning(`${path}.stateMutability`, `stateMutability is ignored on ${type} entries`)
+        } else if (type === 'receive' && mutability !== 'payable') {
+            error(`${path}.stateMutability`, 'receive must be payable')
+        } else if ((type === 'constructor' || type === 'fallback') && (mutability === 'view' || mutability === 'pure')) {
+            error(`${path}.stateMutability`, `${type} cannot be ${mutability}`)
+        }
+    }
+
+    if (type === 'event' && Array.isArray(entry.inputs)) {
+        const indexed = (entry.inputs as AbiParameter[]).filter((input) => input?.indexed === true).length
+        const limit = entry.anonymous === true ? 4 : 3
+        if (indexed > limit) {
+            error(`${path}.inputs`, `${entry.anonymous ? 'anonymous ' : ''}events can have at most ${limit} indexed parameters (found ${indexed})`)
+        }
+    }
+
+    return diagnostics
+}
+
+function validateParameter(param: unknown, path: string, isEventInput: boolean): AbiDiagnostic[] {
+    const diagnostics: AbiDiagnostic[] = []
+
+    if (!param || typeof param !== 'object' || Array.isArray(param)) {
+        return [{ severity: 'error', path, message: 'parameter must be an object' }]
+    }
+
+    const { type, name, components, indexed } = param as Record<string, unknown>
+
+    if (typeof type !== 'string') {
+        return [{ severity: 'error', path: `${path}.type`, message: 'missing parameter type' }]
+    }
+    if (!isValidAbiType(type)) {
+        diagnostics.push({ severity: 'error', path: `${path}.type`, message: `invalid Solidity type "${type}"` })
+    }
+
+    if (name !== undefined && name !== '' && (typeof name !== 'string' || !IDENTIFIER.test(name))) {
+        diagnostics.push({ severity: 'warning', path: `${path}.name`, message: `invalid parameter name ${JSON.stringify(name)}` })
+    }
+
+    if (indexed !== undefined && !isEventInput) {
+        diagnostics.push({ severity: 'warning', path: `${path}.indexed`, message: 'indexed is only meaningful on event inputs' })
+    }
+
+    if (type.startsWith('tuple')) {
+        if (!Array.isArray(components) || components.length === 0) {
+            diagnostics.push({ severity: 'error', path: `${path}.components`, message: `${type} requires a non-empty components array` })
+        } else {
+            components.forEach((component, i) => {
+                diagnostics.push(...validateParameter(component, `${path}.components[${i}]`, false))
+            })
+        }
+    } else if (components !== undefined) {
+        diagnostics.push({ severity: 'warning', path: `${path}.components`, message: `components are ignored on ${type}` })
+    }
+
+    return diagnostics
+}
+
+function uniquenessKey(entry: AbiEntry): string {
+    switch (entry.type) {
+        case 'constructor':
+        case 'fallback':
+        case 'receive':
+            return entry.type
+        default:
+            return `${entry.type}:${formatSignature(entry)}`
+    }
+}
+
+function describeEntry(entry: AbiEntry, diagnostics: AbiDiagnostic[]): string | undefined {
+    // Signatures of entries with broken parameters would be misleading; fall back to the name
+    const parametersValid = !diagnostics.some((diagnostic) => /\.(inputs|outputs)/.test(diagnostic.path) && diagnostic.severity === 'error')
+
+    switch (entry.type) {
+        case 'function':
+        case 'event':
+        case 'error':
+            if (typeof entry.name !== 'string') {
+                return entry.type
+            }
+            return parametersValid && Array.isArray(entry.inputs ?? []) ? formatSignature(entry) : entry.name
+        case 'constructor':
+        case 'fallback':
+        case 'receive':
+            return entry.type
+        default:
+            return undefined
+    }
+}